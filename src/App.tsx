@@ -1,18 +1,33 @@
 // App.tsx
-import React, { useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import { ThemeProvider, createTheme, CssBaseline } from "@mui/material";
 import {
   Button,
   Typography,
   Box,
-  CircularProgress,
+  LinearProgress,
   IconButton,
+  FormControlLabel,
+  Switch,
 } from "@mui/material";
 import Brightness4Icon from "@mui/icons-material/Brightness4";
 import Brightness7Icon from "@mui/icons-material/Brightness7";
+import RefreshIcon from "@mui/icons-material/Refresh";
+import CompareArrowsIcon from "@mui/icons-material/CompareArrows";
 import { styled } from "@mui/system";
 import WaveformViewer from "./components/WaveformViewer";
-import { parseVCD } from "./utils/vcdParser";
+import { ParseProgress, VCDData, VCDParser } from "./utils/vcdParser";
+import {
+  LAZY_LOAD_THRESHOLD,
+  loadVCD,
+  LoadCancelledError,
+  LoadJob,
+  OpenedDump,
+  openVCD,
+  WaveSource,
+} from "./utils/vcdLoader";
+import { watchFile } from "./utils/fileWatcher";
+import { ACCEPTED_EXTENSIONS, detectFormat } from "./utils/formats";
 
 const StyledBox = styled(Box)(({ theme }) => ({
   backgroundColor: theme.palette.mode === "dark" ? "#121212" : "#f5f5f7",
@@ -21,10 +36,38 @@ const StyledBox = styled(Box)(({ theme }) => ({
     "-apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Helvetica', 'Arial', sans-serif",
 }));
 
+const formatBytes = (bytes: number) => {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let i = 0;
+  while (bytes >= 1024 && i < units.length - 1) {
+    bytes /= 1024;
+    i++;
+  }
+  return `${bytes.toFixed(i === 0 ? 0 : 1)} ${units[i]}`;
+};
+
 const App: React.FC = () => {
   const [waveform, setWaveform] = useState<any>(null);
+  const [waveSource, setWaveSource] = useState<WaveSource | null>(null);
+  const [fileName, setFileName] = useState<string>();
+  // The loaded file, and its handle where the File System Access API gave
+  // us one; only a handle can be read again after the file changed
+  const [file, setFile] = useState<File | null>(null);
+  const [fileHandle, setFileHandle] = useState<FileSystemFileHandle | null>(
+    null,
+  );
+  const [watching, setWatching] = useState(false);
+  // Second dump shown against the first, e.g. a golden reference run
+  const [compare, setCompare] = useState<{
+    data: VCDData;
+    fileName: string;
+  } | null>(null);
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
   const [darkMode, setDarkMode] = useState(false);
+  const loadJobRef = useRef<LoadJob<unknown> | null>(null);
+  // Follows the end of a fully parsed dump while watching
+  const followRef = useRef<VCDParser | null>(null);
 
   const theme = React.useMemo(
     () =>
@@ -36,24 +79,158 @@ const App: React.FC = () => {
     [darkMode],
   );
 
-  const handleFileUpload = async (
-    event: React.ChangeEvent<HTMLInputElement>,
-  ) => {
-    const file = event.target.files?.[0];
-    if (file) {
+  // A lazily opened dump holds its worker until another dump replaces it
+  useEffect(() => () => waveSource?.close(), [waveSource]);
+
+  // Run a load with the progress display. A new load replaces any load
+  // that is still in flight.
+  const runLoad = useCallback(
+    async <T,>(
+      start: () => LoadJob<T>,
+      totalBytes: number,
+      onLoaded: (result: T) => void,
+    ) => {
+      loadJobRef.current?.cancel();
+      const job = start();
+      loadJobRef.current = job;
+
       setLoading(true);
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const contents = e.target?.result as string;
-        const parsedData = await parseVCD(contents);
-        console.log("Parsed VCD data:", parsedData);
-        setWaveform(parsedData);
-        setLoading(false);
-      };
-      reader.readAsText(file);
+      setProgress({ bytesRead: 0, totalBytes });
+      try {
+        onLoaded(await job.promise);
+      } catch (error) {
+        if (!(error instanceof LoadCancelledError)) {
+          console.error("Failed to load waveform file:", error);
+        }
+      } finally {
+        if (loadJobRef.current === job) {
+          loadJobRef.current = null;
+          setLoading(false);
+          setProgress(null);
+        }
+      }
+    },
+    [],
+  );
+
+  const loadFile = useCallback(
+    async (file: File, handle: FileSystemFileHandle | null = null) => {
+      // The worker reports files in no known format when parsing them.
+      // Compressed dumps can neither be indexed nor followed as they grow.
+      const detected = await detectFormat(file).catch(() => null);
+      const vcd = !!detected?.format.vcd && !detected.compression;
+      runLoad<VCDData | OpenedDump>(
+        () =>
+          vcd && file.size >= LAZY_LOAD_THRESHOLD
+            ? openVCD(file, setProgress)
+            : loadVCD(file, setProgress),
+        file.size,
+        (result) => {
+          setFileName(file.name);
+          setFile(file);
+          setFileHandle(handle);
+          if (!handle) setWatching(false);
+          if ("source" in result) {
+            setWaveform(result.data);
+            setWaveSource(result.source);
+            followRef.current = null;
+          } else {
+            setWaveform(result);
+            setWaveSource(null);
+            followRef.current = vcd ? VCDParser.continuing(result) : null;
+          }
+        },
+      );
+    },
+    [runLoad],
+  );
+
+  // The dump to compare with is always parsed in full: its waves are
+  // diffed against every displayed signal anyway
+  const loadCompare = (file: File) =>
+    runLoad(
+      () => loadVCD(file, setProgress),
+      file.size,
+      (data) => setCompare({ data, fileName: file.name }),
+    );
+
+  const handleCompareUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) loadCompare(file);
+    event.target.value = "";
+  };
+
+  // Prefer the file picker that hands out a handle, so the file can be
+  // reloaded and watched; otherwise fall through to the <input> element
+  const handleOpenClick = async (event: React.MouseEvent) => {
+    if (!window.showOpenFilePicker) return;
+    event.preventDefault();
+    try {
+      const [handle] = await window.showOpenFilePicker({
+        types: [
+          {
+            description: "Waveform files",
+            accept: { "application/octet-stream": ACCEPTED_EXTENSIONS },
+          },
+        ],
+      });
+      loadFile(await handle.getFile(), handle);
+    } catch (error) {
+      // AbortError just means the picker was closed
+      if ((error as Error).name !== "AbortError") {
+        console.error("Failed to open file:", error);
+      }
+    }
+  };
+
+  // Parse the file again; the viewer keeps its view for the same file name
+  const reload = async () => {
+    try {
+      const latest = fileHandle ? await fileHandle.getFile() : file;
+      if (latest) loadFile(latest, fileHandle);
+    } catch (error) {
+      console.error("Failed to reload waveform file:", error);
     }
   };
 
+  useEffect(() => {
+    if (!watching || !fileHandle || !file) return;
+    return watchFile(fileHandle, file, (change) => {
+      const parser = followRef.current;
+      if (change.type === "appended" && parser) {
+        parser.write(change.text);
+        setWaveform(parser.snapshot());
+      } else {
+        // Lazily opened dumps are indexed up front, so they're re-read
+        loadFile(change.file, fileHandle);
+      }
+    });
+  }, [watching, fileHandle, file, loadFile]);
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) loadFile(file);
+    // Allow picking the same file again after a cancelled load
+    event.target.value = "";
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    const file = event.dataTransfer.files?.[0];
+    if (!file) return;
+    // The handle has to be requested before the event handler returns
+    const handle = event.dataTransfer.items?.[0]?.getAsFileSystemHandle?.();
+    const resolved = await handle?.catch(() => null);
+    loadFile(
+      file,
+      resolved?.kind === "file" ? (resolved as FileSystemFileHandle) : null,
+    );
+  };
+
+  const cancelLoad = () => {
+    loadJobRef.current?.cancel();
+  };
+
   const toggleDarkMode = () => {
     setDarkMode(!darkMode);
   };
@@ -63,6 +240,8 @@ const App: React.FC = () => {
       <CssBaseline />
       <StyledBox
         sx={{ height: "100vh", display: "flex", flexDirection: "column" }}
+        onDragOver={(event) => event.preventDefault()}
+        onDrop={handleDrop}
       >
         <Box
           sx={{
@@ -77,10 +256,50 @@ const App: React.FC = () => {
           <Typography variant="h4" component="h1" sx={{ fontWeight: 600 }}>
             VCD Waveform Viewer
           </Typography>
-          <Box>
+          <Box sx={{ display: "flex", alignItems: "center" }}>
+            <IconButton
+              onClick={reload}
+              disabled={!file || loading}
+              aria-label="Reload"
+              title="Reload the file from disk, keeping the view"
+              color="inherit"
+            >
+              <RefreshIcon />
+            </IconButton>
+            <IconButton
+              component="label"
+              disabled={!waveform || loading}
+              aria-label="Compare with another dump"
+              title="Compare with another dump, e.g. a golden run"
+              color={compare ? "primary" : "inherit"}
+            >
+              <CompareArrowsIcon />
+              <input
+                type="file"
+                hidden
+                onChange={handleCompareUpload}
+                accept={ACCEPTED_EXTENSIONS.join(",")}
+              />
+            </IconButton>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={watching}
+                  disabled={!fileHandle}
+                  onChange={() => setWatching(!watching)}
+                />
+              }
+              label="Watch"
+              title={
+                fileHandle
+                  ? "Pick up changes while the simulation writes the file"
+                  : "Watching needs a browser with the File System Access API"
+              }
+            />
             <Button
               variant="contained"
               component="label"
+              onClick={handleOpenClick}
               sx={{
                 mr: 2,
                 textTransform: "none",
@@ -92,12 +311,12 @@ const App: React.FC = () => {
                 },
               }}
             >
-              Upload VCD File
+              Upload Waveform File
               <input
                 type="file"
                 hidden
                 onChange={handleFileUpload}
-                accept=".vcd"
+                accept={ACCEPTED_EXTENSIONS.join(",")}
               />
             </Button>
             <IconButton sx={{ ml: 1 }} onClick={toggleDarkMode} color="inherit">
@@ -105,21 +324,47 @@ const App: React.FC = () => {
             </IconButton>
           </Box>
         </Box>
+        {/* While reloading, the current view stays up below the progress */}
         {loading && (
           <Box
             sx={{
               display: "flex",
+              flexDirection: waveform ? "row" : "column",
               justifyContent: "center",
               alignItems: "center",
-              flexGrow: 1,
+              flexGrow: waveform ? 0 : 1,
+              gap: 1,
             }}
           >
-            <CircularProgress />
+            <LinearProgress
+              variant="determinate"
+              value={
+                progress && progress.totalBytes > 0
+                  ? (progress.bytesRead / progress.totalBytes) * 100
+                  : 0
+              }
+              sx={{ width: "50%" }}
+            />
+            {progress && (
+              <Typography variant="body2" color="text.secondary">
+                {formatBytes(progress.bytesRead)} /{" "}
+                {formatBytes(progress.totalBytes)}
+              </Typography>
+            )}
+            <Button onClick={cancelLoad} sx={{ textTransform: "none" }}>
+              Cancel
+            </Button>
           </Box>
         )}
-        {!loading && waveform && (
+        {waveform && (
           <Box sx={{ flexGrow: 1 }}>
-            <WaveformViewer data={waveform} />
+            <WaveformViewer
+              data={waveform}
+              source={waveSource}
+              fileName={fileName}
+              compare={compare}
+              onCloseCompare={() => setCompare(null)}
+            />
           </Box>
         )}
       </StyledBox>
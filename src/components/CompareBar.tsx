@@ -0,0 +1,97 @@
+// CompareBar.tsx
+import React, { useState } from "react";
+import { Box, IconButton, TextField, Typography } from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import SkipPreviousIcon from "@mui/icons-material/SkipPrevious";
+import SkipNextIcon from "@mui/icons-material/SkipNext";
+
+interface CompareBarProps {
+  fileName: string;
+  // Added to the compared dump's times, in this dump's time units
+  offset: number;
+  onOffsetChange: (offset: number) => void;
+  // Displayed signals found in both dumps, and how many of them differ
+  paired: number;
+  differing: number;
+  formatTime: (time: number) => string;
+  onStep: (backwards: boolean) => void;
+  onClose: () => void;
+}
+
+const CompareBar: React.FC<CompareBarProps> = ({
+  fileName,
+  offset,
+  onOffsetChange,
+  paired,
+  differing,
+  formatTime,
+  onStep,
+  onClose,
+}) => {
+  // Kept as typed, so partial input such as "-" isn't reset to 0
+  const [offsetText, setOffsetText] = useState(String(offset));
+
+  return (
+    <Box
+      sx={{
+        px: 2,
+        py: 0.5,
+        display: "flex",
+        alignItems: "center",
+        flexWrap: "wrap",
+        gap: 1,
+        borderBottom: 1,
+        borderColor: "divider",
+        fontSize: 13,
+      }}
+    >
+      <Typography component="span" sx={{ fontSize: 13, fontWeight: 500 }}>
+        Comparing with {fileName}
+      </Typography>
+      <TextField
+        variant="standard"
+        size="small"
+        type="number"
+        value={offsetText}
+        onChange={(event) => {
+          setOffsetText(event.target.value);
+          const value = Number(event.target.value);
+          if (Number.isFinite(value)) onOffsetChange(value);
+        }}
+        label="Time offset"
+        helperText={offset ? `shifted by ${formatTime(offset)}` : undefined}
+        sx={{ width: 100 }}
+      />
+      <Typography
+        component="span"
+        sx={{ fontSize: 13, color: "text.secondary" }}
+      >
+        {differing} of {paired} signal{paired === 1 ? "" : "s"} differ
+      </Typography>
+      <IconButton
+        size="small"
+        onClick={() => onStep(true)}
+        disabled={differing === 0}
+        aria-label="Previous difference"
+        title="Previous difference (Shift+D)"
+      >
+        <SkipPreviousIcon sx={{ fontSize: 18 }} />
+      </IconButton>
+      <IconButton
+        size="small"
+        onClick={() => onStep(false)}
+        disabled={differing === 0}
+        aria-label="Next difference"
+        title="Next difference (D)"
+      >
+        <SkipNextIcon sx={{ fontSize: 18 }} />
+      </IconButton>
+      <Box sx={{ flexGrow: 1 }} />
+      <IconButton size="small" aria-label="Stop comparing" onClick={onClose}>
+        <CloseIcon sx={{ fontSize: 16 }} />
+      </IconButton>
+    </Box>
+  );
+};
+
+export default CompareBar;
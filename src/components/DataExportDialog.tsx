@@ -0,0 +1,196 @@
+// DataExportDialog.tsx
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { clockEdges } from "../utils/clock";
+import { downloadBlob } from "../utils/download";
+import { toCSV, toVCD } from "../utils/dumpExport";
+import { DEFAULT_TIME_EXPONENT } from "../utils/timeUnits";
+import { formatValue } from "../utils/radix";
+import { Signal, VCDData } from "../utils/vcdParser";
+import { ExportedSignal } from "../utils/wavedromExport";
+
+type ExportFormat = "csv" | "vcd";
+type CSVRows = "changes" | "clock";
+
+interface DataExportDialogProps {
+  open: boolean;
+  // Rows as shown, for the CSV
+  signals: ExportedSignal[];
+  // Dumped signals behind those rows, for the VCD
+  dumpSignals: Signal[];
+  // Loaded single-bit signals a CSV can be sampled on
+  clocks: Signal[];
+  defaultClock: string | null;
+  // Initial time range, in dump units
+  start: number;
+  end: number;
+  dump: Pick<VCDData, "timeExponent" | "date" | "version">;
+  formatTime: (time: number) => string;
+  fileName: string;
+  onClose: () => void;
+}
+
+const DataExportDialog: React.FC<DataExportDialogProps> = ({
+  open,
+  signals,
+  dumpSignals,
+  clocks,
+  defaultClock,
+  start,
+  end,
+  dump,
+  formatTime,
+  fileName,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [csvRows, setCSVRows] = useState<CSVRows>("changes");
+  const [clockPath, setClockPath] = useState("");
+  const [fromText, setFromText] = useState("");
+  const [toText, setToText] = useState("");
+
+  // Each opening starts from the view's range and reference clock
+  const [wasOpen, setWasOpen] = useState(false);
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setFromText(String(start));
+      setToText(String(end));
+      const clock = clocks.find((signal) => signal.path === defaultClock);
+      setClockPath(clock?.path ?? clocks[0]?.path ?? "");
+      setCSVRows(clock ? "clock" : "changes");
+    }
+  }
+
+  const from = Number(fromText);
+  const to = Number(toText);
+  const clock = clocks.find((signal) => signal.path === clockPath);
+
+  const error = !(to > from)
+    ? "The range is empty"
+    : (format === "csv" ? signals : dumpSignals).length === 0
+      ? "Select the signals to export first"
+      : format === "csv" && csvRows === "clock" && !clock
+        ? "Choose a clock to sample on"
+        : null;
+
+  const download = () => {
+    if (format === "vcd") {
+      downloadBlob(
+        new Blob([toVCD(dumpSignals, from, to, dump)], { type: "text/plain" }),
+        `${fileName}.trimmed.vcd`,
+      );
+      return;
+    }
+    const columns = signals.map(({ signal, format }) => ({
+      name: signal.path,
+      wave: signal.wave,
+      format: (value: string) => formatValue(value, format, signal.type),
+    }));
+    const text = toCSV(
+      columns,
+      from,
+      to,
+      csvRows === "clock" && clock
+        ? { kind: "clock", edges: clockEdges(clock.wave) }
+        : { kind: "changes" },
+      dump.timeExponent ?? DEFAULT_TIME_EXPONENT,
+    );
+    downloadBlob(new Blob([text], { type: "text/csv" }), `${fileName}.csv`);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Export data</DialogTitle>
+      <DialogContent sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+        <Box sx={{ display: "flex", gap: 2, pt: 1 }}>
+          <TextField
+            select
+            size="small"
+            label="Format"
+            value={format}
+            onChange={(event) => setFormat(event.target.value as ExportFormat)}
+            sx={{ minWidth: 160 }}
+          >
+            <MenuItem value="csv">CSV</MenuItem>
+            <MenuItem value="vcd">VCD</MenuItem>
+          </TextField>
+          {format === "csv" && (
+            <TextField
+              select
+              size="small"
+              label="Rows"
+              value={csvRows}
+              onChange={(event) => setCSVRows(event.target.value as CSVRows)}
+              sx={{ minWidth: 200 }}
+            >
+              <MenuItem value="changes">One per change</MenuItem>
+              <MenuItem value="clock" disabled={clocks.length === 0}>
+                One per rising clock edge
+              </MenuItem>
+            </TextField>
+          )}
+          {format === "csv" && csvRows === "clock" && (
+            <TextField
+              select
+              size="small"
+              label="Clock"
+              value={clockPath}
+              onChange={(event) => setClockPath(event.target.value)}
+              sx={{ flexGrow: 1 }}
+            >
+              {clocks.map((signal) => (
+                <MenuItem key={signal.path} value={signal.path}>
+                  {signal.path}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+        </Box>
+        <Box sx={{ display: "flex", gap: 2 }}>
+          <TextField
+            size="small"
+            type="number"
+            label="From"
+            value={fromText}
+            helperText={Number.isFinite(from) ? formatTime(from) : " "}
+            onChange={(event) => setFromText(event.target.value)}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label="To"
+            value={toText}
+            helperText={Number.isFinite(to) ? formatTime(to) : " "}
+            onChange={(event) => setToText(event.target.value)}
+          />
+        </Box>
+        <Typography variant="body2" color={error ? "error" : "text.secondary"}>
+          {error ??
+            (format === "csv"
+              ? `${signals.length} columns, values as shown in the viewer`
+              : `${dumpSignals.length} signals with their scopes and ` +
+                "timescale; values at the start are written as $dumpvars")}
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button variant="contained" disabled={!!error} onClick={download}>
+          Download
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DataExportDialog;
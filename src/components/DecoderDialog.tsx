@@ -0,0 +1,204 @@
+// DecoderDialog.tsx
+import React, { useState } from "react";
+import {
+  Autocomplete,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+} from "@mui/material";
+import { Signal } from "../utils/vcdParser";
+import {
+  DecoderConfig,
+  Protocol,
+  protocolOptions,
+  PROTOCOLS,
+} from "../utils/protocols";
+
+interface DecoderDialogProps {
+  open: boolean;
+  // Signals the inputs can be picked from
+  signals: Signal[];
+  // Selected signals, assigned to the protocol's inputs in order
+  selectedPaths: string[];
+  onAdd: (label: string, config: DecoderConfig) => void;
+  onClose: () => void;
+}
+
+const initialInputs = (protocol: Protocol, paths: string[]) =>
+  Object.fromEntries(
+    protocol.inputs
+      .map(({ role }, i) => [role, paths[i]])
+      .filter(([, path]) => path),
+  );
+
+const DecoderDialog: React.FC<DecoderDialogProps> = ({
+  open,
+  signals,
+  selectedPaths,
+  onAdd,
+  onClose,
+}) => {
+  const [protocol, setProtocol] = useState(PROTOCOLS[0]);
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  // As typed, so number fields can be cleared while editing
+  const [options, setOptions] = useState<Record<string, string>>({});
+  const [label, setLabel] = useState("");
+
+  const choose = (next: Protocol) => {
+    setProtocol(next);
+    setInputs(initialInputs(next, selectedPaths));
+    const defaults = protocolOptions(next, {});
+    setOptions(
+      Object.fromEntries(
+        Object.keys(defaults).map((name) => [name, String(defaults[name])]),
+      ),
+    );
+  };
+
+  // Start over from the current selection each time the dialog opens
+  const [wasOpen, setWasOpen] = useState(false);
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      choose(protocol);
+      setLabel("");
+    }
+  }
+
+  const paths = signals.map((signal) => signal.path);
+  const complete = protocol.inputs.every(
+    ({ role, optional }) => optional || inputs[role],
+  );
+  const values = Object.fromEntries(
+    Object.keys(options).map((name) => [name, Number(options[name])]),
+  );
+  // Choices may be 0; numbers such as the baud rate must be positive
+  const validOptions = protocol.options.every(
+    ({ name, choices }) =>
+      Number.isFinite(values[name]) && (choices ? true : values[name] > 0),
+  );
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!complete || !validOptions) return;
+    onAdd(label.trim() || protocol.name, {
+      protocol: protocol.id,
+      inputs,
+      options: values,
+    });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <form onSubmit={submit}>
+        <DialogTitle>New protocol decoder</DialogTitle>
+        <DialogContent
+          sx={{ display: "flex", flexDirection: "column", gap: 2 }}
+        >
+          <TextField
+            select
+            margin="dense"
+            size="small"
+            label="Protocol"
+            value={protocol.id}
+            onChange={(event) =>
+              choose(
+                PROTOCOLS.find(({ id }) => id === event.target.value) ??
+                  protocol,
+              )
+            }
+          >
+            {PROTOCOLS.map(({ id, name }) => (
+              <MenuItem key={id} value={id}>
+                {name}
+              </MenuItem>
+            ))}
+          </TextField>
+          {protocol.inputs.map(({ role, label: inputLabel, optional }) => (
+            <Autocomplete
+              key={`${protocol.id}:${role}`}
+              size="small"
+              options={paths}
+              value={inputs[role] ?? null}
+              onChange={(_, path) => {
+                const next = { ...inputs };
+                if (path) {
+                  next[role] = path;
+                } else {
+                  delete next[role];
+                }
+                setInputs(next);
+              }}
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label={optional ? `${inputLabel} (optional)` : inputLabel}
+                />
+              )}
+            />
+          ))}
+          {protocol.options.map((option) =>
+            option.choices ? (
+              <TextField
+                key={`${protocol.id}:${option.name}`}
+                select
+                size="small"
+                label={option.label}
+                value={options[option.name] ?? ""}
+                onChange={(event) =>
+                  setOptions({
+                    ...options,
+                    [option.name]: event.target.value,
+                  })
+                }
+              >
+                {option.choices.map(({ value, label: choiceLabel }) => (
+                  <MenuItem key={value} value={String(value)}>
+                    {choiceLabel}
+                  </MenuItem>
+                ))}
+              </TextField>
+            ) : (
+              <TextField
+                key={`${protocol.id}:${option.name}`}
+                size="small"
+                type="number"
+                label={option.label}
+                value={options[option.name] ?? ""}
+                onChange={(event) =>
+                  setOptions({
+                    ...options,
+                    [option.name]: event.target.value,
+                  })
+                }
+              />
+            ),
+          )}
+          <TextField
+            size="small"
+            label="Row name"
+            placeholder={protocol.name}
+            value={label}
+            onChange={(event) => setLabel(event.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={!complete || !validOptions}
+          >
+            Add
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default DecoderDialog;
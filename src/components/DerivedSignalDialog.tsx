@@ -0,0 +1,116 @@
+// DerivedSignalDialog.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { Signal } from "../utils/vcdParser";
+import {
+  CompiledExpression,
+  compileExpression,
+  signalResolver,
+} from "../utils/expression";
+
+interface DerivedSignalDialogProps {
+  open: boolean;
+  // Signals expressions may refer to
+  signals: Signal[];
+  onAdd: (
+    name: string,
+    expression: string,
+    compiled: CompiledExpression,
+  ) => void;
+  onClose: () => void;
+}
+
+const DerivedSignalDialog: React.FC<DerivedSignalDialogProps> = ({
+  open,
+  signals,
+  onAdd,
+  onClose,
+}) => {
+  const [name, setName] = useState("");
+  const [expression, setExpression] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setName("");
+      setExpression("");
+    }
+  }, [open]);
+
+  const resolve = useMemo(() => signalResolver(signals), [signals]);
+
+  // Compile as the user types so errors show up immediately
+  const result = useMemo(() => {
+    if (!expression.trim()) return null;
+    try {
+      return { compiled: compileExpression(expression, resolve) };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }, [expression, resolve]);
+
+  const nameTaken = signals.some((signal) => signal.path === name.trim());
+  const canAdd = !!name.trim() && !nameTaken && !!result?.compiled;
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (canAdd && result?.compiled) {
+      onAdd(name.trim(), expression.trim(), result.compiled);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <form onSubmit={submit}>
+        <DialogTitle>New derived signal</DialogTitle>
+        <DialogContent
+          sx={{ display: "flex", flexDirection: "column", gap: 2 }}
+        >
+          <TextField
+            autoFocus
+            margin="dense"
+            size="small"
+            label="Name"
+            value={name}
+            error={nameTaken}
+            helperText={nameTaken ? "A signal with this name exists" : " "}
+            onChange={(event) => setName(event.target.value)}
+          />
+          <TextField
+            size="small"
+            label="Expression"
+            placeholder="valid && !ready, addr[15:8], {hi, lo}, cnt + 1"
+            value={expression}
+            error={!!result?.error}
+            helperText={
+              result?.error ??
+              (result?.compiled ? `${result.compiled.width} bit(s)` : " ")
+            }
+            onChange={(event) => setExpression(event.target.value)}
+            inputProps={{ style: { fontFamily: "monospace" } }}
+          />
+          <Typography variant="caption" color="text.secondary">
+            Operators: ~ ! & | ^ (also as reductions), &amp;&amp; ||, == != &lt;
+            &lt;= &gt; &gt;=, + - *, &lt;&lt; &gt;&gt;, ?:, slices [msb:lsb]
+            and concatenation {"{a, b}"}. Literals like 8'hFF or 4'b10x1.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={!canAdd}>
+            Add
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default DerivedSignalDialog;
@@ -0,0 +1,158 @@
+// MarkerBar.tsx
+import React, { useState } from "react";
+import {
+  Box,
+  Chip,
+  IconButton,
+  MenuItem,
+  Select,
+  TextField,
+  Typography,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import { Marker, TimePoint } from "../utils/cursors";
+
+interface MarkerBarProps {
+  primary: number | null;
+  secondary: number | null;
+  markers: Marker[];
+  // Cycles elapsed between two times, and what they count, e.g. "cycles"
+  // of a reference clock or "steps of 10 ns" of the timescale
+  cycleDelta: (from: number, to: number) => number;
+  cycleUnit: string;
+  formatTime: (time: number) => string;
+  onClearCursor: (which: "primary" | "secondary") => void;
+  onRenameMarker: (id: number, name: string) => void;
+  onRemoveMarker: (id: number) => void;
+  // Move the primary cursor to a marker
+  onGoTo: (time: number) => void;
+}
+
+const formatCycles = (cycles: number) => String(Number(cycles.toFixed(3)));
+
+const MarkerBar: React.FC<MarkerBarProps> = ({
+  primary,
+  secondary,
+  markers,
+  cycleDelta,
+  cycleUnit,
+  formatTime,
+  onClearCursor,
+  onRenameMarker,
+  onRemoveMarker,
+  onGoTo,
+}) => {
+  const [from, setFrom] = useState("primary");
+  const [to, setTo] = useState("secondary");
+
+  const points: TimePoint[] = [];
+  if (primary !== null) {
+    points.push({ key: "primary", label: "Primary", time: primary });
+  }
+  if (secondary !== null) {
+    points.push({ key: "secondary", label: "Secondary", time: secondary });
+  }
+  markers.forEach(({ id, name, time }) =>
+    points.push({ key: `m${id}`, label: name, time }),
+  );
+  if (points.length === 0) return null;
+
+  const start = points.find((point) => point.key === from);
+  const end = points.find((point) => point.key === to);
+  const delta = start && end ? end.time - start.time : null;
+  const cycles = start && end ? cycleDelta(start.time, end.time) : null;
+
+  const pointSelect = (value: string, onChange: (key: string) => void) => (
+    <Select
+      size="small"
+      variant="standard"
+      value={points.some((point) => point.key === value) ? value : ""}
+      onChange={(event) => onChange(event.target.value)}
+      sx={{ fontSize: 13, minWidth: 80 }}
+    >
+      {points.map((point) => (
+        <MenuItem key={point.key} value={point.key} dense>
+          {point.label}
+        </MenuItem>
+      ))}
+    </Select>
+  );
+
+  return (
+    <Box
+      sx={{
+        px: 2,
+        py: 0.5,
+        display: "flex",
+        alignItems: "center",
+        flexWrap: "wrap",
+        gap: 1,
+        borderBottom: 1,
+        borderColor: "divider",
+        fontSize: 13,
+      }}
+    >
+      {primary !== null && (
+        <Chip
+          size="small"
+          color="primary"
+          label={`Primary: ${formatTime(primary)}`}
+          onDelete={() => onClearCursor("primary")}
+        />
+      )}
+      {secondary !== null && (
+        <Chip
+          size="small"
+          color="secondary"
+          label={`Secondary: ${formatTime(secondary)}`}
+          onDelete={() => onClearCursor("secondary")}
+        />
+      )}
+      {markers.map((marker) => (
+        <Box
+          key={marker.id}
+          sx={{ display: "flex", alignItems: "center", gap: 0.5 }}
+        >
+          <TextField
+            variant="standard"
+            size="small"
+            value={marker.name}
+            onChange={(event) => onRenameMarker(marker.id, event.target.value)}
+            inputProps={{ "aria-label": "Marker name" }}
+            sx={{ width: 70 }}
+          />
+          <Typography
+            component="span"
+            title="Move the primary cursor here"
+            onClick={() => onGoTo(marker.time)}
+            sx={{ fontSize: 13, cursor: "pointer", color: "text.secondary" }}
+          >
+            @ {formatTime(marker.time)}
+          </Typography>
+          <IconButton
+            size="small"
+            aria-label={`Remove ${marker.name}`}
+            onClick={() => onRemoveMarker(marker.id)}
+          >
+            <CloseIcon sx={{ fontSize: 14 }} />
+          </IconButton>
+        </Box>
+      ))}
+      <Box sx={{ flexGrow: 1 }} />
+      {points.length > 1 && (
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+          {pointSelect(from, setFrom)}
+          <span>→</span>
+          {pointSelect(to, setTo)}
+          <Typography component="span" sx={{ fontSize: 13, fontWeight: 500 }}>
+            {delta === null || cycles === null
+              ? "Δ –"
+              : `Δ ${formatTime(delta)} (${formatCycles(cycles)} ${cycleUnit})`}
+          </Typography>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default MarkerBar;
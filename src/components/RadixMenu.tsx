@@ -0,0 +1,228 @@
+// RadixMenu.tsx
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Checkbox,
+  Divider,
+  FormControlLabel,
+  ListItemIcon,
+  Menu,
+  MenuItem,
+  TextField,
+} from "@mui/material";
+import CheckIcon from "@mui/icons-material/Check";
+import { Radix, RADIX_LABELS, ValueFormat } from "../utils/radix";
+import { AnalogSettings, DEFAULT_ANALOG } from "../utils/analog";
+import { SIGNAL_COLORS } from "../utils/session";
+
+interface RadixMenuProps {
+  // Screen position the menu opens at, null when closed
+  position: { top: number; left: number } | null;
+  format: ValueFormat;
+  onChange: (format: ValueFormat) => void;
+  // Real-valued signals have no radix, only the display mode
+  showRadix: boolean;
+  // Single bits can't be drawn as analog plots
+  showAnalog: boolean;
+  // Analog display settings, undefined while drawn digitally
+  analog?: AnalogSettings;
+  onAnalogChange: (analog: AnalogSettings | undefined) => void;
+  // Trace color, undefined for the theme's default
+  color?: string;
+  onColorChange: (color: string | undefined) => void;
+  onClose: () => void;
+}
+
+const parseBound = (text: string) => {
+  const value = parseFloat(text);
+  return text.trim() === "" || isNaN(value) ? undefined : value;
+};
+
+const RADIXES: Radix[] = [
+  "binary",
+  "hex",
+  "octal",
+  "unsigned",
+  "signed",
+  "ascii",
+];
+
+const RadixMenu: React.FC<RadixMenuProps> = ({
+  position,
+  format,
+  onChange,
+  showRadix,
+  showAnalog,
+  analog,
+  onAnalogChange,
+  color,
+  onColorChange,
+  onClose,
+}) => {
+  const [fractionBits, setFractionBits] = useState(format.fractionBits ?? 0);
+  const [signed, setSigned] = useState(!!format.signed);
+
+  useEffect(() => {
+    setFractionBits(format.fractionBits ?? 0);
+    setSigned(!!format.signed);
+  }, [format]);
+
+  const select = (radix: Radix) => {
+    onChange({ radix });
+    onClose();
+  };
+
+  const applyFixed = (bits: number, isSigned: boolean) => {
+    setFractionBits(bits);
+    setSigned(isSigned);
+    onChange({ radix: "fixed", fractionBits: bits, signed: isSigned });
+  };
+
+  const setDisplay = (style: AnalogSettings["style"] | null) => {
+    onAnalogChange(
+      style ? { ...DEFAULT_ANALOG, ...analog, style } : undefined,
+    );
+  };
+
+  const analogSection = [
+    <MenuItem key="digital" dense onClick={() => setDisplay(null)}>
+      <ListItemIcon>{!analog && <CheckIcon fontSize="small" />}</ListItemIcon>
+      Digital
+    </MenuItem>,
+    <MenuItem key="step" dense onClick={() => setDisplay("step")}>
+      <ListItemIcon>
+        {analog?.style === "step" && <CheckIcon fontSize="small" />}
+      </ListItemIcon>
+      Analog (step)
+    </MenuItem>,
+    <MenuItem key="linear" dense onClick={() => setDisplay("linear")}>
+      <ListItemIcon>
+        {analog?.style === "linear" && <CheckIcon fontSize="small" />}
+      </ListItemIcon>
+      Analog (interpolated)
+    </MenuItem>,
+  ];
+  if (analog) {
+    analogSection.push(
+      <Box
+        key="range"
+        sx={{ px: 2, py: 1, display: "flex", alignItems: "center", gap: 1 }}
+        onKeyDown={(event) => event.stopPropagation()}
+      >
+        <TextField
+          label="Min"
+          placeholder="auto"
+          size="small"
+          defaultValue={analog.min ?? ""}
+          onChange={(event) =>
+            onAnalogChange({ ...analog, min: parseBound(event.target.value) })
+          }
+          sx={{ width: 90 }}
+        />
+        <TextField
+          label="Max"
+          placeholder="auto"
+          size="small"
+          defaultValue={analog.max ?? ""}
+          onChange={(event) =>
+            onAnalogChange({ ...analog, max: parseBound(event.target.value) })
+          }
+          sx={{ width: 90 }}
+        />
+        {showRadix && (
+          <FormControlLabel
+            control={
+              <Checkbox
+                size="small"
+                checked={analog.signed}
+                onChange={(event) =>
+                  onAnalogChange({ ...analog, signed: event.target.checked })
+                }
+              />
+            }
+            label="Signed"
+          />
+        )}
+      </Box>,
+    );
+  }
+
+  const swatch = (value: string | undefined, label: string) => (
+    <Box
+      key={label}
+      role="button"
+      aria-label={label}
+      title={label}
+      onClick={() => onColorChange(value)}
+      sx={{
+        width: 18,
+        height: 18,
+        borderRadius: "50%",
+        cursor: "pointer",
+        bgcolor: value ?? "primary.main",
+        outline: color === value ? 2 : 0,
+        outlineColor: "text.primary",
+        outlineOffset: 1,
+      }}
+    />
+  );
+
+  return (
+    <Menu
+      open={position !== null}
+      onClose={onClose}
+      anchorReference="anchorPosition"
+      anchorPosition={position ?? undefined}
+    >
+      <Box sx={{ px: 2, py: 1, display: "flex", gap: 1 }}>
+        {swatch(undefined, "Default color")}
+        {SIGNAL_COLORS.map((value) => swatch(value, value))}
+      </Box>
+      {showAnalog && <Divider />}
+      {showAnalog && analogSection}
+      {showRadix && <Divider />}
+      {showRadix &&
+        RADIXES.map((radix) => (
+          <MenuItem key={radix} dense onClick={() => select(radix)}>
+            <ListItemIcon>
+              {format.radix === radix && <CheckIcon fontSize="small" />}
+            </ListItemIcon>
+            {RADIX_LABELS[radix]}
+          </MenuItem>
+        ))}
+      {showRadix && <Divider />}
+      {showRadix && (
+        <Box
+          sx={{ px: 2, py: 1, display: "flex", alignItems: "center", gap: 1 }}
+          onKeyDown={(event) => event.stopPropagation()}
+        >
+          <TextField
+            label="Fixed point: fraction bits"
+            type="number"
+            size="small"
+            value={fractionBits}
+            inputProps={{ min: 0 }}
+            onChange={(event) =>
+              applyFixed(Math.max(0, parseInt(event.target.value) || 0), signed)
+            }
+            sx={{ width: 190 }}
+          />
+          <FormControlLabel
+            control={
+              <Checkbox
+                size="small"
+                checked={signed}
+                onChange={(event) =>
+                  applyFixed(fractionBits, event.target.checked)
+                }
+              />
+            }
+            label="Signed"
+          />
+        </Box>
+      )}
+    </Menu>
+  );
+};
+
+export default RadixMenu;
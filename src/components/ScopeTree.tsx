@@ -0,0 +1,254 @@
+// ScopeTree.tsx
+import React, { useMemo, useState } from "react";
+import { Box, Button, TextField, Typography } from "@mui/material";
+import ChevronRightIcon from "@mui/icons-material/ChevronRight";
+import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
+import FolderIcon from "@mui/icons-material/Folder";
+import FolderOpenIcon from "@mui/icons-material/FolderOpen";
+import ShowChartIcon from "@mui/icons-material/ShowChart";
+import MemoryIcon from "@mui/icons-material/Memory";
+import TimelineIcon from "@mui/icons-material/Timeline";
+import BoltIcon from "@mui/icons-material/Bolt";
+import TuneIcon from "@mui/icons-material/Tune";
+import NumbersIcon from "@mui/icons-material/Numbers";
+import DataArrayIcon from "@mui/icons-material/DataArray";
+import FunctionsIcon from "@mui/icons-material/Functions";
+import { Signal } from "../utils/vcdParser";
+import { buildScopeTree, ScopeNode } from "../utils/scopeTree";
+
+// Drag payload type shared with the displayed-signals drop targets
+export const SIGNAL_DRAG_TYPE = "application/x-vcd-signal-paths";
+
+// Signals rendered per scope before a "show more" button, so opening a
+// scope with tens of thousands of nets doesn't stall the page.
+const PAGE_SIZE = 200;
+const INDENT = 12;
+
+interface ScopeTreeProps {
+  signals: Signal[];
+  onAddSignals: (paths: string[]) => void;
+}
+
+const VarTypeIcon: React.FC<{ signal: Signal }> = ({ signal }) => {
+  const sx = { fontSize: 14, mr: 0.5, color: "text.secondary" };
+  if (signal.bits) return <DataArrayIcon sx={sx} />;
+  if (signal.expression) return <FunctionsIcon sx={sx} />;
+  switch (signal.type) {
+    case "reg":
+    case "logic":
+    case "bit":
+      return <MemoryIcon sx={sx} />;
+    case "real":
+    case "realtime":
+    case "shortreal":
+      return <TimelineIcon sx={sx} />;
+    case "event":
+      return <BoltIcon sx={sx} />;
+    case "parameter":
+      return <TuneIcon sx={sx} />;
+    case "integer":
+    case "int":
+    case "shortint":
+    case "longint":
+    case "byte":
+    case "time":
+      return <NumbersIcon sx={sx} />;
+    default:
+      return <ShowChartIcon sx={sx} />;
+  }
+};
+
+const startDrag = (event: React.DragEvent, paths: string[]) => {
+  event.dataTransfer.setData(SIGNAL_DRAG_TYPE, JSON.stringify(paths));
+  event.dataTransfer.effectAllowed = "copy";
+};
+
+const rowSx = {
+  display: "flex",
+  alignItems: "center",
+  height: 24,
+  fontSize: 13,
+  whiteSpace: "nowrap",
+  cursor: "pointer",
+  userSelect: "none",
+  "&:hover": { bgcolor: "action.hover" },
+} as const;
+
+const SignalRow: React.FC<{
+  signal: Signal;
+  depth: number;
+  onAddSignals: (paths: string[]) => void;
+}> = ({ signal, depth, onAddSignals }) => (
+  <Box
+    sx={{ ...rowSx, pl: `${depth * INDENT + 20}px` }}
+    draggable
+    onDragStart={(event) => startDrag(event, [signal.path])}
+    onDoubleClick={() => onAddSignals([signal.path])}
+    title={signal.path}
+  >
+    <VarTypeIcon signal={signal} />
+    <Box component="span" sx={{ overflow: "hidden", textOverflow: "ellipsis" }}>
+      {signal.name}
+    </Box>
+    {signal.msb === undefined && signal.width > 1 && (
+      <Box component="span" sx={{ ml: 0.5, color: "text.secondary" }}>
+        [{signal.width - 1}:0]
+      </Box>
+    )}
+    {signal.msb !== undefined && signal.msb !== signal.lsb && (
+      <Box component="span" sx={{ ml: 0.5, color: "text.secondary" }}>
+        [{signal.msb}:{signal.lsb}]
+      </Box>
+    )}
+  </Box>
+);
+
+const ScopeItem: React.FC<{
+  node: ScopeNode;
+  depth: number;
+  expanded: Set<string>;
+  onToggle: (key: string) => void;
+  onAddSignals: (paths: string[]) => void;
+}> = ({ node, depth, expanded, onToggle, onAddSignals }) => {
+  const [shown, setShown] = useState(PAGE_SIZE);
+  const isOpen = expanded.has(node.key);
+  const scopeSignals = node.signals.map((signal) => signal.path);
+
+  return (
+    <>
+      <Box
+        sx={{ ...rowSx, pl: `${depth * INDENT}px`, fontWeight: 500 }}
+        onClick={() => onToggle(node.key)}
+        onDoubleClick={() => onAddSignals(scopeSignals)}
+        draggable={scopeSignals.length > 0}
+        onDragStart={(event) => startDrag(event, scopeSignals)}
+        title={`${node.path} (${node.signals.length} signals)`}
+      >
+        {isOpen ? (
+          <ExpandMoreIcon sx={{ fontSize: 18 }} />
+        ) : (
+          <ChevronRightIcon sx={{ fontSize: 18 }} />
+        )}
+        {isOpen ? (
+          <FolderOpenIcon sx={{ fontSize: 16, mr: 0.5 }} />
+        ) : (
+          <FolderIcon sx={{ fontSize: 16, mr: 0.5 }} />
+        )}
+        {node.name}
+      </Box>
+      {/* Children are only mounted while the scope is open */}
+      {isOpen && (
+        <>
+          {node.children.map((child) => (
+            <ScopeItem
+              key={child.key}
+              node={child}
+              depth={depth + 1}
+              expanded={expanded}
+              onToggle={onToggle}
+              onAddSignals={onAddSignals}
+            />
+          ))}
+          {node.signals.slice(0, shown).map((signal) => (
+            <SignalRow
+              key={signal.path}
+              signal={signal}
+              depth={depth + 1}
+              onAddSignals={onAddSignals}
+            />
+          ))}
+          {node.signals.length > shown && (
+            <Button
+              size="small"
+              sx={{ ml: `${(depth + 1) * INDENT + 20}px`, textTransform: "none" }}
+              onClick={() => setShown(shown + PAGE_SIZE)}
+            >
+              Show more ({node.signals.length - shown} remaining)
+            </Button>
+          )}
+        </>
+      )}
+    </>
+  );
+};
+
+const ScopeTree: React.FC<ScopeTreeProps> = ({ signals, onAddSignals }) => {
+  const root = useMemo(() => buildScopeTree(signals), [signals]);
+  const [expanded, setExpanded] = useState<Set<string>>(
+    () => new Set(root.children.map((child) => child.key)),
+  );
+  const [filter, setFilter] = useState("");
+
+  const matches = useMemo(() => {
+    const text = filter.trim().toLowerCase();
+    if (!text) return null;
+    return signals
+      .filter((signal) => signal.path.toLowerCase().includes(text))
+      .slice(0, PAGE_SIZE);
+  }, [signals, filter]);
+
+  const toggle = (key: string) => {
+    const next = new Set(expanded);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setExpanded(next);
+  };
+
+  return (
+    <Box sx={{ display: "flex", flexDirection: "column", height: "100%" }}>
+      <Box sx={{ p: 1 }}>
+        <TextField
+          size="small"
+          fullWidth
+          placeholder="Filter signals"
+          value={filter}
+          onChange={(event) => setFilter(event.target.value)}
+        />
+      </Box>
+      <Box sx={{ flexGrow: 1, overflow: "auto", pb: 1 }}>
+        {matches ? (
+          matches.length > 0 ? (
+            matches.map((signal) => (
+              <SignalRow
+                key={signal.path}
+                signal={signal}
+                depth={0}
+                onAddSignals={onAddSignals}
+              />
+            ))
+          ) : (
+            <Typography variant="body2" color="text.secondary" sx={{ p: 1 }}>
+              No matching signals
+            </Typography>
+          )
+        ) : (
+          <>
+            {root.children.map((child) => (
+              <ScopeItem
+                key={child.key}
+                node={child}
+                depth={0}
+                expanded={expanded}
+                onToggle={toggle}
+                onAddSignals={onAddSignals}
+              />
+            ))}
+            {root.signals.map((signal) => (
+              <SignalRow
+                key={signal.path}
+                signal={signal}
+                depth={0}
+                onAddSignals={onAddSignals}
+              />
+            ))}
+          </>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default ScopeTree;
@@ -0,0 +1,200 @@
+// SearchPanel.tsx
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Box,
+  Button,
+  CircularProgress,
+  IconButton,
+  List,
+  ListItemButton,
+  MenuItem,
+  TextField,
+  Typography,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import { isSignedFormat, ValueFormat } from "../utils/radix";
+import { Signal } from "../utils/vcdParser";
+import { LoadJob } from "../utils/vcdLoader";
+import {
+  parseSearchValue,
+  SEARCH_OPERATORS,
+  SearchMatch,
+  SearchOperator,
+  searchWave,
+} from "../utils/valueSearch";
+
+// Results rendered at once; the count shows how many were found in total
+const MAX_LISTED = 1000;
+
+interface SearchPanelProps {
+  // Displayed signals that can be searched, keyed by row, with the format
+  // that decides whether < and > compare them as signed
+  signals: { key: string; signal: Signal; format: ValueFormat }[];
+  endTime: number;
+  formatTime: (time: number) => string;
+  onSelect: (match: SearchMatch) => void;
+  // Told about every finished search, e.g. "top.state == 0x1A"
+  onResults?: (path: string, condition: string, matches: SearchMatch[]) => void;
+  onClose: () => void;
+}
+
+const SearchPanel: React.FC<SearchPanelProps> = ({
+  signals,
+  endTime,
+  formatTime,
+  onSelect,
+  onResults,
+  onClose,
+}) => {
+  const [signalKey, setSignalKey] = useState("");
+  const [operator, setOperator] = useState<SearchOperator>("==");
+  const [valueText, setValueText] = useState("");
+  const [results, setResults] = useState<SearchMatch[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const jobRef = useRef<LoadJob<SearchMatch[]> | null>(null);
+
+  // Abandon a running search when the panel closes
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  const entry = signals.find((option) => option.key === signalKey);
+  const target = entry?.signal;
+  const edges = operator === "rising" || operator === "falling";
+
+  const runSearch = async () => {
+    if (!entry || !target) return;
+    const bits = edges ? "" : parseSearchValue(valueText, target.width);
+    if (bits === null) {
+      setError(`Can't read "${valueText}" as a ${target.width}-bit value`);
+      return;
+    }
+    jobRef.current?.cancel();
+    const job = searchWave(
+      target.wave,
+      { operator, value: bits, signed: isSignedFormat(entry.format) },
+      endTime,
+    );
+    jobRef.current = job;
+    setError(null);
+    setRunning(true);
+    try {
+      const matches = await job.promise;
+      if (jobRef.current === job) {
+        setResults(matches);
+        onResults?.(
+          target.path,
+          edges ? operator : `${operator} ${valueText.trim()}`,
+          matches,
+        );
+      }
+    } catch {
+      // Superseded by a newer search
+    } finally {
+      if (jobRef.current === job) setRunning(false);
+    }
+  };
+
+  return (
+    <Box sx={{ display: "flex", flexDirection: "column", height: "100%" }}>
+      <Box sx={{ display: "flex", alignItems: "center", px: 1, pt: 1 }}>
+        <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+          Find value
+        </Typography>
+        <IconButton size="small" aria-label="Close search" onClick={onClose}>
+          <CloseIcon sx={{ fontSize: 16 }} />
+        </IconButton>
+      </Box>
+      <Box
+        component="form"
+        sx={{ display: "flex", flexDirection: "column", gap: 1, p: 1 }}
+        onSubmit={(event: React.FormEvent) => {
+          event.preventDefault();
+          runSearch();
+        }}
+      >
+        <TextField
+          select
+          size="small"
+          label="Signal"
+          value={target ? signalKey : ""}
+          onChange={(event) => setSignalKey(event.target.value)}
+        >
+          {signals.map(({ key, signal }) => (
+            <MenuItem key={key} value={key} dense>
+              {signal.path}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Box sx={{ display: "flex", gap: 1 }}>
+          <TextField
+            select
+            size="small"
+            label="Operator"
+            value={operator}
+            onChange={(event) =>
+              setOperator(event.target.value as SearchOperator)
+            }
+            sx={{ width: 100 }}
+          >
+            {SEARCH_OPERATORS.map((op) => (
+              <MenuItem key={op} value={op} dense>
+                {op}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            size="small"
+            label="Value"
+            placeholder="0x1A, 8'b1010, 26"
+            value={valueText}
+            disabled={edges}
+            onChange={(event) => setValueText(event.target.value)}
+            sx={{ flexGrow: 1 }}
+          />
+        </Box>
+        <Button
+          type="submit"
+          variant="contained"
+          size="small"
+          disabled={!target || (!edges && !valueText.trim())}
+        >
+          Search
+        </Button>
+        {error && (
+          <Typography variant="body2" color="error">
+            {error}
+          </Typography>
+        )}
+      </Box>
+      <Box sx={{ flexGrow: 1, overflow: "auto" }}>
+        {running && (
+          <Box sx={{ display: "flex", justifyContent: "center", p: 1 }}>
+            <CircularProgress size={20} />
+          </Box>
+        )}
+        {!running && results && (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ px: 1 }}>
+              {results.length} match{results.length === 1 ? "" : "es"}
+            </Typography>
+            <List dense disablePadding>
+              {results.slice(0, MAX_LISTED).map((match) => (
+                <ListItemButton
+                  key={match.start}
+                  onClick={() => onSelect(match)}
+                  sx={{ fontSize: 13, fontFamily: "monospace" }}
+                >
+                  {match.start === match.end
+                    ? formatTime(match.start)
+                    : `${formatTime(match.start)} – ${formatTime(match.end)}`}
+                </ListItemButton>
+              ))}
+            </List>
+          </>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,242 @@
+// TransactionTable.tsx
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Box,
+  IconButton,
+  InputAdornment,
+  TableSortLabel,
+  TextField,
+  Typography,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import FilterListIcon from "@mui/icons-material/FilterList";
+import {
+  filterTransactions,
+  sortTransactions,
+  Transaction,
+  TransactionColumn,
+  transactionAt,
+} from "../utils/transactions";
+
+const ROW_HEIGHT = 24;
+// Rows rendered beyond each edge of the viewport, so scrolling stays smooth
+const OVERSCAN = 10;
+
+const COLUMNS: { column: TransactionColumn; label: string; width?: number }[] =
+  [
+    { column: "time", label: "Time", width: 84 },
+    { column: "source", label: "Signal" },
+    { column: "oldValue", label: "Old", width: 72 },
+    { column: "newValue", label: "New", width: 72 },
+    { column: "duration", label: "Duration", width: 76 },
+  ];
+
+interface TransactionTableProps {
+  transactions: Transaction[];
+  // Primary cursor; the row in effect there is highlighted and kept in view
+  cursor: number | null;
+  formatTime: (time: number) => string;
+  onSelect: (transaction: Transaction) => void;
+  onClose: () => void;
+}
+
+const cellSx = (width?: number) => ({
+  width,
+  flex: width ? "none" : 1,
+  minWidth: 0,
+  px: 0.5,
+  overflow: "hidden",
+  textOverflow: "ellipsis",
+  whiteSpace: "nowrap",
+});
+
+/**
+ * Value changes, decoded bytes or search matches, one per row. Only the
+ * rows in view are rendered, so hundreds of thousands of them stay
+ * responsive.
+ */
+const TransactionTable: React.FC<TransactionTableProps> = ({
+  transactions,
+  cursor,
+  formatTime,
+  onSelect,
+  onClose,
+}) => {
+  const [sort, setSort] = useState<{
+    column: TransactionColumn;
+    descending: boolean;
+  }>({ column: "time", descending: false });
+  const [filter, setFilter] = useState("");
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewHeight, setViewHeight] = useState(0);
+  const bodyRef = useRef<HTMLDivElement>(null);
+
+  const listed = useMemo(
+    () =>
+      sortTransactions(
+        filterTransactions(transactions, filter),
+        sort.column,
+        sort.descending,
+      ),
+    [transactions, filter, sort],
+  );
+
+  const current = useMemo(
+    () => (cursor === null ? -1 : transactionAt(listed, cursor)),
+    [listed, cursor],
+  );
+
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+    const measure = () => setViewHeight(body.clientHeight);
+    measure();
+    window.addEventListener("resize", measure);
+    return () => window.removeEventListener("resize", measure);
+  }, []);
+
+  // Follow the cursor, scrolling only when its row is out of view
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (!body || current < 0) return;
+    const top = current * ROW_HEIGHT;
+    const height = body.clientHeight;
+    if (top < body.scrollTop || top + ROW_HEIGHT > body.scrollTop + height) {
+      body.scrollTop = Math.max(0, top - (height - ROW_HEIGHT) / 2);
+    }
+  }, [current, listed]);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(
+    listed.length,
+    Math.ceil((scrollTop + viewHeight) / ROW_HEIGHT) + OVERSCAN,
+  );
+
+  const toggleSort = (column: TransactionColumn) =>
+    setSort({
+      column,
+      descending: sort.column === column && !sort.descending,
+    });
+
+  const renderCell = (transaction: Transaction, column: TransactionColumn) => {
+    switch (column) {
+      case "time":
+        return formatTime(transaction.time);
+      case "duration":
+        return formatTime(transaction.duration);
+      default:
+        return String(transaction[column]);
+    }
+  };
+
+  return (
+    <Box sx={{ display: "flex", flexDirection: "column", height: "100%" }}>
+      <Box sx={{ display: "flex", alignItems: "center", px: 1, pt: 1 }}>
+        <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+          Transactions
+        </Typography>
+        <Typography variant="caption" color="text.secondary" sx={{ mr: 1 }}>
+          {listed.length === transactions.length
+            ? `${transactions.length} rows`
+            : `${listed.length} of ${transactions.length} rows`}
+        </Typography>
+        <IconButton
+          size="small"
+          aria-label="Close transactions"
+          onClick={onClose}
+        >
+          <CloseIcon sx={{ fontSize: 16 }} />
+        </IconButton>
+      </Box>
+      <TextField
+        size="small"
+        placeholder="Filter by signal or value"
+        value={filter}
+        onChange={(event) => setFilter(event.target.value)}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <FilterListIcon sx={{ fontSize: 18 }} />
+            </InputAdornment>
+          ),
+        }}
+        sx={{ m: 1 }}
+      />
+      <Box
+        sx={{
+          display: "flex",
+          height: ROW_HEIGHT,
+          alignItems: "center",
+          borderBottom: 1,
+          borderColor: "divider",
+          fontSize: 12,
+          fontWeight: 600,
+        }}
+      >
+        {COLUMNS.map(({ column, label, width }) => (
+          <Box key={column} sx={cellSx(width)}>
+            <TableSortLabel
+              active={sort.column === column}
+              direction={
+                sort.column === column && sort.descending ? "desc" : "asc"
+              }
+              onClick={() => toggleSort(column)}
+            >
+              {label}
+            </TableSortLabel>
+          </Box>
+        ))}
+      </Box>
+      <Box
+        ref={bodyRef}
+        sx={{ flexGrow: 1, overflowY: "auto", position: "relative" }}
+        onScroll={(event) => {
+          setScrollTop(event.currentTarget.scrollTop);
+          setViewHeight(event.currentTarget.clientHeight);
+        }}
+      >
+        {transactions.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ p: 1 }}>
+            Select signals or decoder rows to list their events
+          </Typography>
+        )}
+        <Box sx={{ height: listed.length * ROW_HEIGHT }}>
+          {listed.slice(first, last).map((transaction, i) => {
+            const index = first + i;
+            return (
+              <Box
+                key={index}
+                onClick={() => onSelect(transaction)}
+                sx={{
+                  position: "absolute",
+                  top: index * ROW_HEIGHT,
+                  left: 0,
+                  right: 0,
+                  height: ROW_HEIGHT,
+                  display: "flex",
+                  alignItems: "center",
+                  fontSize: 12,
+                  fontFamily: "monospace",
+                  cursor: "pointer",
+                  bgcolor: index === current ? "action.selected" : undefined,
+                  "&:hover": { bgcolor: "action.hover" },
+                }}
+              >
+                {COLUMNS.map(({ column, width }) => {
+                  const text = renderCell(transaction, column);
+                  return (
+                    <Box key={column} title={text} sx={cellSx(width)}>
+                      {text}
+                    </Box>
+                  );
+                })}
+              </Box>
+            );
+          })}
+        </Box>
+      </Box>
+    </Box>
+  );
+};
+
+export default TransactionTable;
@@ -0,0 +1,184 @@
+// WaveDromExportDialog.tsx
+import React, { useMemo, useState } from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Switch,
+  TextField,
+  Typography,
+} from "@mui/material";
+import WaveDromComponent from "./Wavedrom";
+import { downloadBlob } from "../utils/download";
+import { niceTickStep } from "../utils/timeUnits";
+import {
+  ExportedSignal,
+  fixedSlots,
+  formatWaveJSON,
+  MAX_SLOTS,
+  toWaveJSON,
+} from "../utils/wavedromExport";
+
+interface WaveDromExportDialogProps {
+  open: boolean;
+  signals: ExportedSignal[];
+  // Rising edges of the reference clock; empty when there is none
+  clockEdges: number[];
+  // Initial time range, in dump units
+  start: number;
+  end: number;
+  formatTime: (time: number) => string;
+  fileName: string;
+  onClose: () => void;
+}
+
+const WaveDromExportDialog: React.FC<WaveDromExportDialogProps> = ({
+  open,
+  signals,
+  clockEdges,
+  start,
+  end,
+  formatTime,
+  fileName,
+  onClose,
+}) => {
+  const [fromText, setFromText] = useState("");
+  const [toText, setToText] = useState("");
+  const [stepText, setStepText] = useState("");
+  const [perCycle, setPerCycle] = useState(false);
+
+  // Opening takes the range in view, not the one edited last time
+  const [wasOpen, setWasOpen] = useState(false);
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setFromText(String(start));
+      setToText(String(end));
+      setStepText(String(niceTickStep(end - start, 32)));
+      setPerCycle(clockEdges.length > 1);
+    }
+  }
+
+  const from = Number(fromText);
+  const to = Number(toText);
+  const step = Number(stepText);
+
+  const slots = useMemo(() => {
+    if (!(to > from)) return [];
+    if (perCycle) {
+      return clockEdges.filter((time) => time >= from && time < to);
+    }
+    return step > 0 ? fixedSlots(from, to, step) : [];
+  }, [from, to, step, perCycle, clockEdges]);
+
+  const error =
+    slots.length === 0
+      ? "The range holds no slots"
+      : slots.length > MAX_SLOTS
+        ? `More than ${MAX_SLOTS} slots; narrow the range or widen the step`
+        : signals.length === 0
+          ? "Select the signals to export first"
+          : null;
+
+  const json = useMemo(
+    () => (error ? null : toWaveJSON(signals, slots, to)),
+    [error, signals, slots, to],
+  );
+  const text = json ? formatWaveJSON(json) : "";
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle>Export as WaveDrom</DialogTitle>
+      <DialogContent sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+        <Box sx={{ display: "flex", gap: 2, alignItems: "center", pt: 1 }}>
+          <TextField
+            size="small"
+            type="number"
+            label="From"
+            value={fromText}
+            helperText={Number.isFinite(from) ? formatTime(from) : " "}
+            onChange={(event) => setFromText(event.target.value)}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label="To"
+            value={toText}
+            helperText={Number.isFinite(to) ? formatTime(to) : " "}
+            onChange={(event) => setToText(event.target.value)}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label="Slot length"
+            value={stepText}
+            disabled={perCycle}
+            helperText={
+              !perCycle && step > 0 ? `${formatTime(step)} per slot` : " "
+            }
+            onChange={(event) => setStepText(event.target.value)}
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={perCycle}
+                disabled={clockEdges.length < 2}
+                onChange={() => setPerCycle(!perCycle)}
+              />
+            }
+            label="One slot per clock cycle"
+            sx={{ mb: 2.5 }}
+          />
+        </Box>
+        {error ? (
+          <Typography variant="body2" color="error">
+            {error}
+          </Typography>
+        ) : (
+          <>
+            <Box sx={{ overflowX: "auto", bgcolor: "#ffffff", p: 1 }}>
+              <WaveDromComponent input={json} />
+            </Box>
+            <TextField
+              multiline
+              maxRows={10}
+              value={text}
+              InputProps={{ readOnly: true }}
+              inputProps={{
+                "aria-label": "WaveJSON",
+                style: { fontFamily: "monospace", fontSize: 12 },
+              }}
+            />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button
+          disabled={!json}
+          onClick={() =>
+            downloadBlob(
+              new Blob([text], { type: "application/json" }),
+              `${fileName}.wavedrom.json`,
+            )
+          }
+        >
+          Download
+        </Button>
+        <Button
+          variant="contained"
+          disabled={!json}
+          onClick={() => navigator.clipboard.writeText(text)}
+        >
+          Copy
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default WaveDromExportDialog;
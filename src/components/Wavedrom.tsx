@@ -10,7 +10,9 @@ const WaveDromComponent: React.FC<WaveDromProps> = ({ input }) => {
 
   useEffect(() => {
     if (waveformRef.current) {
-      WaveDrom.renderWaveForm(waveformRef.current, input, 'wavedrom');
+      // renderWaveForm looks its target up by element id and needs a global
+      // skin, so render into the element directly
+      WaveDrom.renderWaveElement(0, input, waveformRef.current, WaveDrom.waveSkin);
     }
   }, [input]);
 
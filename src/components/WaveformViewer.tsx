@@ -1,36 +1,256 @@
 import React, { useRef, useEffect, useState, useMemo } from "react";
 import {
   Box,
+  InputBase,
   Typography,
   Switch,
   FormControlLabel,
-  Select,
-  MenuItem,
   IconButton,
+  LinearProgress,
+  Menu,
+  MenuItem,
+  Select,
+  Snackbar,
+  ToggleButton,
+  ToggleButtonGroup,
   useTheme,
 } from "@mui/material";
 import { styled } from "@mui/system";
-import { SelectChangeEvent } from "@mui/material/Select";
 import ZoomInIcon from "@mui/icons-material/ZoomIn";
 import ZoomOutIcon from "@mui/icons-material/ZoomOut";
+import CloseIcon from "@mui/icons-material/Close";
+import ChevronRightIcon from "@mui/icons-material/ChevronRight";
+import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
+import UnfoldLessIcon from "@mui/icons-material/UnfoldLess";
+import BookmarkAddIcon from "@mui/icons-material/BookmarkAdd";
+import SkipPreviousIcon from "@mui/icons-material/SkipPrevious";
+import SkipNextIcon from "@mui/icons-material/SkipNext";
+import NorthEastIcon from "@mui/icons-material/NorthEast";
+import SouthEastIcon from "@mui/icons-material/SouthEast";
+import SearchIcon from "@mui/icons-material/Search";
+import FunctionsIcon from "@mui/icons-material/Functions";
+import ScheduleIcon from "@mui/icons-material/Schedule";
+import FileDownloadIcon from "@mui/icons-material/FileDownload";
+import FileUploadIcon from "@mui/icons-material/FileUpload";
+import ErrorOutlineIcon from "@mui/icons-material/ErrorOutline";
+import HorizontalRuleIcon from "@mui/icons-material/HorizontalRule";
+import SpaceBarIcon from "@mui/icons-material/SpaceBar";
+import CreateNewFolderIcon from "@mui/icons-material/CreateNewFolder";
+import CableIcon from "@mui/icons-material/Cable";
+import TableRowsIcon from "@mui/icons-material/TableRows";
+import IosShareIcon from "@mui/icons-material/IosShare";
+import {
+  DragDropContext,
+  Draggable,
+  Droppable,
+  DroppableProps,
+  DropResult,
+} from "react-beautiful-dnd";
+import ScopeTree, { SIGNAL_DRAG_TYPE } from "./ScopeTree";
+import { ParseProgress, Signal, VCDData } from "../utils/vcdParser";
+import { WaveSource } from "../utils/vcdLoader";
+import { combineBits, findVirtualBuses, splitBus } from "../utils/buses";
+import {
+  DEFAULT_FORMAT,
+  formatLabel,
+  formatValue,
+  toNumber,
+  ValueFormat,
+} from "../utils/radix";
+import {
+  ANALOG_ROW_HEIGHT,
+  AnalogSettings,
+  analogRange,
+  MIN_ROW_HEIGHT,
+} from "../utils/analog";
+import {
+  Edge,
+  findEdge,
+  Marker,
+  nextChange,
+  nextMarkerName,
+  prevChange,
+  valueAt,
+} from "../utils/cursors";
+import RadixMenu from "./RadixMenu";
+import MarkerBar from "./MarkerBar";
+import CompareBar from "./CompareBar";
+import SearchPanel from "./SearchPanel";
+import TransactionTable from "./TransactionTable";
+import WaveDromExportDialog from "./WaveDromExportDialog";
+import DataExportDialog from "./DataExportDialog";
+import { SearchMatch } from "../utils/valueSearch";
+import DerivedSignalDialog from "./DerivedSignalDialog";
+import DecoderDialog from "./DecoderDialog";
+import {
+  CompiledExpression,
+  compileExpression,
+  evaluateExpression,
+  signalResolver,
+} from "../utils/expression";
+import { clockEdges, cycleAt, edgeIndexAt } from "../utils/clock";
+import {
+  DEFAULT_TIME_EXPONENT,
+  DisplayUnit,
+  formatTime,
+  niceTickStep,
+  TIME_UNITS,
+} from "../utils/timeUnits";
+import {
+  emptySession,
+  loadSavedSession,
+  parseSession,
+  saveSession,
+  SESSION_VERSION,
+  ViewSession,
+} from "../utils/session";
+import { importGtkw } from "../utils/gtkw";
+import {
+  decoderPaths,
+  DisplayItem,
+  displayedPaths,
+  moveItems,
+  newItemKey,
+  normalizeItems,
+  removeItems,
+  signalItem,
+  visibleItems,
+} from "../utils/displayList";
+import {
+  alignDump,
+  Difference,
+  diffWaves,
+  nextDifference,
+} from "../utils/waveDiff";
+import {
+  Annotation,
+  DecoderConfig,
+  decodeProtocol,
+} from "../utils/protocols";
+import {
+  annotationTransactions,
+  matchTransactions,
+  Transaction,
+  waveTransactions,
+} from "../utils/transactions";
+import { SvgContext } from "../utils/svgContext";
+import { downloadBlob } from "../utils/download";
+import { ExportedSignal } from "../utils/wavedromExport";
+import {
+  analogSegments,
+  UNKNOWN,
+  waveSegments,
+} from "../utils/levelOfDetail";
 
-interface Signal {
-  name: string;
-  width: number;
-  wave: [number, string][];
-  hierarchy?: string[];
+interface WaveformViewerProps {
+  data: VCDData;
+  // Set when the dump was opened lazily and waves are decoded on demand
+  source?: WaveSource | null;
+  // Name of the loaded file, used to auto-save and restore the view
+  fileName?: string;
+  // Second dump whose signals are paired with the displayed ones by path
+  compare?: { data: VCDData; fileName: string } | null;
+  onCloseCompare?: () => void;
 }
 
-interface VCDData {
-  signals: Signal[];
-  timescale: number;
-  maxCycles: number;
+// One line of the wave list: a displayed signal or one bit of an expanded bus
+interface WaveRow {
+  key: string;
+  signal: Signal;
+  depth: number;
+  // Displayed entry the row belongs to
+  displayedPath: string;
+  expandable: boolean;
+  format: ValueFormat;
+  // Set when the row is drawn as an analog plot
+  analog?: AnalogSettings;
+  height: number;
+  color?: string;
+  // Indented as a member of a user-defined group
+  grouped: boolean;
+  // Set on both rows of a signal paired with the compared dump
+  differences?: Difference[];
+  // The compared dump's side of a pair
+  compared?: boolean;
 }
 
-interface WaveformViewerProps {
-  data: VCDData;
+// A separator, blank row, group header or protocol decoder in the wave list
+interface LabelRow {
+  key: string;
+  item: Exclude<DisplayItem, { kind: "signal" }>;
+  height: number;
+  grouped: boolean;
+  // Decoder rows only; empty until the decoder's inputs are loaded
+  annotations?: Annotation[];
 }
 
+// A displayed signal that the loaded dump doesn't have (any more)
+interface MissingRow {
+  key: string;
+  path: string;
+  missing: true;
+  height: number;
+  grouped: boolean;
+}
+
+type ListRow = WaveRow | LabelRow | MissingRow;
+
+const isWaveRow = (row: ListRow): row is WaveRow => "signal" in row;
+
+// Key of the wave list entry a row belongs to
+const itemKeyOf = (row: ListRow) =>
+  isWaveRow(row) ? row.displayedPath : row.key;
+
+const isReal = (signal: Signal) =>
+  signal.type === "real" ||
+  signal.type === "realtime" ||
+  signal.type === "shortreal";
+
+const isVector = (signal: Signal) => signal.width > 1 && !isReal(signal);
+
+// Resolution of exported PNG images relative to the screen
+const EXPORT_SCALE = 3;
+
+// Truncate text with an ellipsis so it fits into maxWidth pixels
+const fitText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number,
+): string => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (ctx.measureText(text.substring(0, mid) + "…").width <= maxWidth) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low > 0 ? text.substring(0, low) + "…" : "";
+};
+
+// Without a wave source everything is decoded already, so small designs
+// start with every signal on screen.
+const initialDisplayed = (data: VCDData, source?: WaveSource | null) =>
+  source ? [] : data.signals.map((signal) => signalItem(signal.path));
+
+const derivedSignal = (
+  name: string,
+  expression: string,
+  compiled: CompiledExpression,
+): Signal => ({
+  name,
+  path: name,
+  id: "",
+  type: "derived",
+  width: compiled.width,
+  hierarchy: [],
+  wave: [],
+  expression,
+});
+
 const StyledBox = styled(Box)(({ theme }) => ({
   backgroundColor: theme.palette.mode === "dark" ? "#121212" : "#f5f5f7",
   color: theme.palette.mode === "dark" ? "#ffffff" : "#1d1d1f",
@@ -45,9 +265,33 @@ const StyledCanvas = styled("canvas")({
   transition: "all 0.3s ease",
 });
 
-const WaveformViewer: React.FC<WaveformViewerProps> = ({ data }) => {
+// react-beautiful-dnd loses track of its droppables when React 18's strict
+// mode mounts them twice, so only enable the list after the first frame.
+const StrictModeDroppable: React.FC<DroppableProps> = (props) => {
+  const [enabled, setEnabled] = useState(false);
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => setEnabled(true));
+    return () => {
+      cancelAnimationFrame(frame);
+      setEnabled(false);
+    };
+  }, []);
+  return enabled ? <Droppable {...props} /> : null;
+};
+
+const WaveformViewer: React.FC<WaveformViewerProps> = ({
+  data,
+  source,
+  fileName,
+  compare,
+  onCloseCompare,
+}) => {
   const theme = useTheme();
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Rendered wave rows by row key, with what they were rendered from
+  const rowCache = useRef(
+    new Map<string, { inputs: unknown[]; image: HTMLCanvasElement }>(),
+  );
   const sidebarRef = useRef<HTMLDivElement>(null);
   const [zoom, setZoom] = useState(1);
   const [offset, setOffset] = useState({ x: 0, y: 0 });
@@ -59,67 +303,741 @@ const WaveformViewer: React.FC<WaveformViewerProps> = ({ data }) => {
     y: number;
   } | null>(null);
 
-  const [expandedSignals, setExpandedSignals] = useState<Record<string, boolean>>({
-    SW: false,
-    LEDR: false,
-  });
+  const [displayed, setDisplayed] = useState<DisplayItem[]>(() =>
+    initialDisplayed(data, source),
+  );
+  // Identifier codes the source has decoded. A new set whenever waves
+  // changed in place: decoded by the source, or appended to from a watched
+  // file.
+  const [decodedIds, setDecodedIds] = useState<ReadonlySet<string>>(
+    () => new Set(),
+  );
+  const [decodeProgress, setDecodeProgress] = useState<ParseProgress | null>(
+    null,
+  );
+
+  const [expandedBuses, setExpandedBuses] = useState<Set<string>>(new Set());
+  const [formats, setFormats] = useState<Record<string, ValueFormat>>({});
+  const [analogSettings, setAnalogSettings] = useState<
+    Record<string, AnalogSettings>
+  >({});
+  const [rowHeights, setRowHeights] = useState<Record<string, number>>({});
+  const [colors, setColors] = useState<Record<string, string>>({});
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const sessionInputRef = useRef<HTMLInputElement>(null);
+  // Placed by clicking (primary) and shift-clicking (secondary) the canvas
+  const [primaryCursor, setPrimaryCursor] = useState<number | null>(null);
+  const [secondaryCursor, setSecondaryCursor] = useState<number | null>(null);
+  const [markers, setMarkers] = useState<Marker[]>([]);
+  const nextMarkerId = useRef(1);
+  // Row keys picked in the names column, used by edge navigation and to
+  // move or delete entries of the wave list
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const lastSelected = useRef<string | null>(null);
+  // Separator or group whose label is being edited
+  const [editingLabel, setEditingLabel] = useState<string | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
+  // Latest search, also listed in the transaction table
+  const [searchResult, setSearchResult] = useState<{
+    path: string;
+    condition: string;
+    matches: SearchMatch[];
+  } | null>(null);
+  const [showTransactions, setShowTransactions] = useState(false);
+  const [exportMenu, setExportMenu] = useState<HTMLElement | null>(null);
+  // Signals and initial time range of the WaveDrom export, while its
+  // dialog is open
+  const [waveDromExport, setWaveDromExport] = useState<{
+    signals: ExportedSignal[];
+    start: number;
+    end: number;
+  } | null>(null);
+  // Same for the CSV or trimmed VCD export
+  const [dataExport, setDataExport] = useState<{
+    signals: ExportedSignal[];
+    dumpSignals: Signal[];
+    start: number;
+    end: number;
+  } | null>(null);
+  // Signals computed from expressions, with their parsed form
+  const [derived, setDerived] = useState<
+    { signal: Signal; compiled: CompiledExpression }[]
+  >([]);
+  const [showDerivedDialog, setShowDerivedDialog] = useState(false);
+  const [showDecoderDialog, setShowDecoderDialog] = useState(false);
+  // Reference clock whose rising edges define cycles
+  const [clockPath, setClockPath] = useState<string | null>(null);
+  const [axisMode, setAxisMode] = useState<"time" | "cycles">("time");
+  const [showEdgeGrid, setShowEdgeGrid] = useState(false);
+  const [displayUnit, setDisplayUnit] = useState<DisplayUnit>("auto");
+  // Shift of the compared dump's times, in this dump's units
+  const [compareOffset, setCompareOffset] = useState(0);
+  const [radixMenu, setRadixMenu] = useState<{
+    path: string;
+    position: { top: number; left: number };
+  } | null>(null);
 
   const signalHeight = 40;
   const signalPadding = 8;
   const sidebarWidth = 200;
+  const scopeTreeWidth = 260;
   const timeScaleHeight = 30;
+  const labelRowHeight = 24;
+  const searchPanelWidth = 280;
+  const transactionPanelWidth = 440;
+  const maxZoom = 10000;
+
+  const paths = useMemo(() => displayedPaths(displayed), [displayed]);
+  // Displayed signals and the inputs of decoder rows, which are loaded
+  // even when they aren't displayed themselves
+  const loadPaths = useMemo(
+    () => Array.from(new Set([...paths, ...decoderPaths(displayed)])),
+    [paths, displayed],
+  );
+
+  const virtualBuses = useMemo(
+    () => findVirtualBuses(data.signals),
+    [data.signals],
+  );
+
+  const browsableSignals = useMemo(
+    () => [
+      ...data.signals,
+      ...virtualBuses,
+      ...derived.map((entry) => entry.signal),
+    ],
+    [data.signals, virtualBuses, derived],
+  );
+
+  const compiledByPath = useMemo(
+    () => new Map(derived.map((entry) => [entry.signal.path, entry.compiled])),
+    [derived],
+  );
+
+  const signalsByPath = useMemo(() => {
+    const map = new Map<string, Signal>();
+    browsableSignals.forEach((signal) => map.set(signal.path, signal));
+    return map;
+  }, [browsableSignals]);
+
+  // Virtual bus containing each bit-blasted net
+  const busOfBit = useMemo(() => {
+    const map = new Map<string, Signal>();
+    virtualBuses.forEach((bus) =>
+      bus.bits?.forEach((bit) => map.set(bit, bus)),
+    );
+    return map;
+  }, [virtualBuses]);
+
+  // Decoded signals backing a displayed entry
+  const membersOf = useMemo(() => {
+    const members = (signal: Signal): Signal[] => {
+      const compiled = compiledByPath.get(signal.path);
+      if (compiled) return compiled.inputs.flatMap(members);
+      return signal.bits
+        ? signal.bits
+            .map((bit) => signalsByPath.get(bit))
+            .filter((bit): bit is Signal => !!bit)
+        : [signal];
+    };
+    return members;
+  }, [compiledByPath, signalsByPath]);
+
+  // Wave of any browsable signal, assembling buses and evaluating
+  // expressions from their decoded inputs
+  const waveOf = useMemo(() => {
+    const wave = (signal: Signal): [number, string][] => {
+      const compiled = compiledByPath.get(signal.path);
+      if (compiled) return evaluateExpression(compiled, wave);
+      return signal.bits ? combineBits(membersOf(signal)) : signal.wave;
+    };
+    return wave;
+  }, [compiledByPath, membersOf]);
 
-  const groupedSignals = useMemo(() => {
-    const groups: Record<string, Signal[]> = {};
-    data.signals.forEach((signal) => {
-      if (signal.name === "SW" || signal.name === "LEDR") {
-        if (!groups[signal.name]) {
-          groups[signal.name] = [];
+  // Decode displayed signals that haven't been loaded yet. Ids of a
+  // request superseded before it settled are requested again by the next.
+  useEffect(() => {
+    if (!source) return;
+    const ids = loadPaths
+      .flatMap((path) => {
+        const signal = signalsByPath.get(path);
+        return signal ? membersOf(signal).map((member) => member.id) : [];
+      })
+      .filter((id) => !(decodedIds.has(id) && source.isLoaded(id)));
+    if (ids.length === 0) return;
+
+    let active = true;
+    source
+      .loadSignals(ids, (progress) => active && setDecodeProgress(progress))
+      .then(
+        () =>
+          active &&
+          setDecodedIds(
+            (decoded) => new Set(Array.from(decoded).concat(ids)),
+          ),
+      )
+      .catch((error) => console.error("Failed to decode signals:", error))
+      .finally(() => active && setDecodeProgress(null));
+    return () => {
+      active = false;
+    };
+  }, [loadPaths, signalsByPath, membersOf, source, decodedIds]);
+
+  // Changes appended to a watched file land in the existing waves
+  useEffect(() => {
+    setDecodedIds((decoded) => new Set(decoded));
+  }, [data.endTime]);
+
+  // Displayed signals whose waves are available, virtual buses assembled
+  const visibleSignals = useMemo(
+    () =>
+      loadPaths.flatMap((path) => {
+        const signal = signalsByPath.get(path);
+        if (!signal) return [];
+        const members = membersOf(signal);
+        if (
+          source &&
+          !members.every(
+            (member) => decodedIds.has(member.id) && source.isLoaded(member.id),
+          )
+        ) {
+          return [];
         }
-        // Split multi-bit signal into individual bits
-        for (let i = 0; i < signal.width; i++) {
-          groups[signal.name].push({
-            name: `${signal.name}[${i}]`,
-            width: 1,
-            wave: signal.wave.map(([time, value]) => [time, value[signal.width - 1 - i]]),
+        return [
+          signal.bits || signal.expression
+            ? { ...signal, wave: waveOf(signal) }
+            : signal,
+        ];
+      }),
+    [loadPaths, signalsByPath, membersOf, waveOf, source, decodedIds],
+  );
+
+  const loadedByPath = useMemo(
+    () => new Map(visibleSignals.map((signal) => [signal.path, signal])),
+    [visibleSignals],
+  );
+
+  const timeExponent = data.timeExponent ?? DEFAULT_TIME_EXPONENT;
+  // Times as shown everywhere in the viewer: axis, cursors and search
+  const showTime = (time: number, reference?: number) =>
+    formatTime(time, timeExponent, displayUnit, reference);
+
+  // Annotations of each decoder row, null while an input isn't loaded
+  const decoded = useMemo(() => {
+    const unitSeconds = Math.pow(10, timeExponent);
+    const result = new Map<string, Annotation[] | null>();
+    displayed.forEach((item) => {
+      if (item.kind !== "decoder") return;
+      result.set(
+        item.key,
+        decodeProtocol(
+          item.config,
+          (path) => loadedByPath.get(path)?.wave,
+          unitSeconds,
+        ),
+      );
+    });
+    return result;
+  }, [displayed, loadedByPath, timeExponent]);
+
+  const edges = useMemo(() => {
+    const clock = visibleSignals.find((signal) => signal.path === clockPath);
+    return clock ? clockEdges(clock.wave) : [];
+  }, [visibleSignals, clockPath]);
+  const hasClock = edges.length > 1;
+
+  // Cycles between two times: clock edges when a reference clock is set,
+  // otherwise steps of the dump's timescale, the unit times are kept in
+  const cyclesBetween = (from: number, to: number) =>
+    hasClock ? cycleAt(edges, to) - cycleAt(edges, from) : to - from;
+  const cycleUnit = hasClock
+    ? "cycles"
+    : `steps of ${formatTime(1, timeExponent)}`;
+
+  // The compared dump in this dump's time units
+  const compared = useMemo(
+    () =>
+      compare ? alignDump(compare.data, timeExponent, compareOffset) : null,
+    [compare, timeExponent, compareOffset],
+  );
+
+  const rows = useMemo(() => {
+    const result: ListRow[] = [];
+    const compareEnd = Math.max(data.endTime ?? 0, compared?.endTime ?? 0);
+    visibleItems(displayed).forEach((item) => {
+      const grouped = item.kind !== "group" && !!item.group;
+      if (item.kind === "decoder") {
+        result.push({
+          key: item.key,
+          item,
+          height: signalHeight,
+          grouped,
+          annotations: decoded.get(item.key) ?? [],
+        });
+        return;
+      }
+      if (item.kind !== "signal") {
+        result.push({ key: item.key, item, height: labelRowHeight, grouped });
+        return;
+      }
+      const signal = loadedByPath.get(item.path);
+      if (!signal) {
+        // Kept in the list, so a later reload can bring the signal back
+        if (!signalsByPath.has(item.path)) {
+          result.push({
+            key: item.key,
+            path: item.path,
+            missing: true,
+            height: labelRowHeight,
+            grouped,
           });
         }
-      } else {
-        const baseName = signal.name.split("[")[0];
-        if (!groups[baseName]) {
-          groups[baseName] = [];
-        }
-        groups[baseName].push(signal);
+        return;
+      }
+      const expandable = isVector(signal);
+      const analog = analogSettings[signal.path];
+      const other = signal.expression ? null : compared?.signalAt(signal.path);
+      const differences = other
+        ? diffWaves(signal.wave, other.wave, compareEnd)
+        : undefined;
+      result.push({
+        key: signal.path,
+        signal,
+        depth: 0,
+        displayedPath: signal.path,
+        expandable,
+        format: formats[signal.path] ?? DEFAULT_FORMAT,
+        analog,
+        height:
+          rowHeights[signal.path] ??
+          (analog ? ANALOG_ROW_HEIGHT : signalHeight),
+        color: colors[signal.path],
+        grouped,
+        differences,
+      });
+      if (other) {
+        result.push({
+          key: `${signal.path}//compared`,
+          signal: other,
+          depth: 1,
+          displayedPath: signal.path,
+          expandable: false,
+          format: formats[signal.path] ?? DEFAULT_FORMAT,
+          height: signalHeight,
+          color: theme.palette.secondary.main,
+          grouped,
+          differences,
+          compared: true,
+        });
+      }
+      if (expandable && expandedBuses.has(signal.path)) {
+        const bits = signal.bits ? membersOf(signal) : splitBus(signal);
+        bits.forEach((bit) =>
+          result.push({
+            key: `${signal.path}/${bit.path}`,
+            signal: bit,
+            depth: 1,
+            displayedPath: signal.path,
+            expandable: false,
+            format: { radix: "binary" },
+            height: signalHeight,
+            grouped,
+          }),
+        );
+      }
+    });
+    return result;
+  }, [
+    displayed,
+    loadedByPath,
+    decoded,
+    signalsByPath,
+    membersOf,
+    expandedBuses,
+    formats,
+    analogSettings,
+    rowHeights,
+    colors,
+    compared,
+    data.endTime,
+    theme.palette.secondary.main,
+  ]);
+
+  // Differences of every signal pair, for stepping through them
+  const differences = rows.flatMap((row) =>
+    isWaveRow(row) && !row.compared ? (row.differences ?? []) : [],
+  );
+  const differing = rows.filter(
+    (row) => isWaveRow(row) && !row.compared && row.differences?.length,
+  ).length;
+
+  const toggleBus = (path: string) => {
+    const next = new Set(expandedBuses);
+    if (next.has(path)) {
+      next.delete(path);
+    } else {
+      next.add(path);
+    }
+    setExpandedBuses(next);
+  };
+
+  // Replace the displayed bits of a bit-blasted bus with the virtual bus
+  const collapseIntoBus = (bitPath: string) => {
+    const bus = busOfBit.get(bitPath);
+    if (!bus) return;
+    const bits = new Set(bus.bits);
+    const next: DisplayItem[] = [];
+    displayed.forEach((item) => {
+      if (item.kind !== "signal" || !bits.has(item.path)) {
+        next.push(item);
+      } else if (
+        !paths.includes(bus.path) &&
+        !next.some((entry) => entry.key === bus.path)
+      ) {
+        next.push({ ...signalItem(bus.path), group: item.group });
+      }
+    });
+    setDisplayed(next);
+  };
+
+  const addSignals = (added: string[]) => {
+    const items = added.filter((path) => !paths.includes(path)).map(signalItem);
+    if (items.length > 0) setDisplayed([...displayed, ...items]);
+  };
+
+  const addDerived = (
+    name: string,
+    expression: string,
+    compiled: CompiledExpression,
+  ) => {
+    const signal = derivedSignal(name, expression, compiled);
+    setDerived([...derived, { signal, compiled }]);
+    setDisplayed([...displayed, signalItem(name)]);
+    setShowDerivedDialog(false);
+  };
+
+  // Add a decoder row below the last displayed signal it reads
+  const addDecoder = (label: string, config: DecoderConfig) => {
+    const key = newItemKey("decoder");
+    const inputs = new Set(Object.values(config.inputs));
+    const next: DisplayItem[] = [
+      ...displayed,
+      { kind: "decoder", key, label, config },
+    ];
+    const anchor = displayed
+      .filter((item) => item.kind === "signal" && inputs.has(item.path))
+      .pop();
+    setDisplayed(anchor ? moveItems(next, [key], anchor.key) : next);
+    setShowDecoderDialog(false);
+  };
+
+  const session = useMemo(
+    (): ViewSession => ({
+      version: SESSION_VERSION,
+      displayed,
+      expandedBuses: Array.from(expandedBuses),
+      formats,
+      analog: analogSettings,
+      colors,
+      rowHeights,
+      derived: derived.map(({ signal }) => ({
+        name: signal.name,
+        expression: signal.expression ?? "",
+      })),
+      zoom,
+      offsetX: offset.x,
+      primaryCursor,
+      secondaryCursor,
+      markers,
+      clockPath,
+      axisMode,
+      displayUnit,
+    }),
+    [
+      displayed,
+      expandedBuses,
+      formats,
+      analogSettings,
+      colors,
+      rowHeights,
+      derived,
+      zoom,
+      offset.x,
+      primaryCursor,
+      secondaryCursor,
+      markers,
+      clockPath,
+      axisMode,
+      displayUnit,
+    ],
+  );
+
+  // Returns the displayed signals that this dump doesn't have
+  const applySession = (session: ViewSession): string[] => {
+    // Derived signals are recompiled in order, each seeing the ones before
+    const known = [...data.signals, ...virtualBuses];
+    const restored: typeof derived = [];
+    session.derived.forEach(({ name, expression }) => {
+      try {
+        const compiled = compileExpression(expression, signalResolver(known));
+        const signal = derivedSignal(name, expression, compiled);
+        restored.push({ signal, compiled });
+        known.push(signal);
+      } catch (error) {
+        console.warn(`Skipping derived signal "${name}":`, error);
+      }
+    });
+    const knownPaths = new Set(known.map((signal) => signal.path));
+
+    setDerived(restored);
+    setDisplayed(normalizeItems(session.displayed));
+    setExpandedBuses(new Set(session.expandedBuses));
+    setFormats(session.formats);
+    setAnalogSettings(session.analog);
+    setColors(session.colors);
+    setRowHeights(session.rowHeights);
+    setZoom(session.zoom);
+    setOffset({ x: session.offsetX, y: 0 });
+    setPrimaryCursor(session.primaryCursor);
+    setSecondaryCursor(session.secondaryCursor);
+    setMarkers(session.markers);
+    nextMarkerId.current =
+      Math.max(0, ...session.markers.map((marker) => marker.id)) + 1;
+    setClockPath(session.clockPath);
+    setAxisMode(session.axisMode);
+    setDisplayUnit(session.displayUnit);
+    setSelected(new Set());
+    setEditingLabel(null);
+    return displayedPaths(session.displayed).filter(
+      (path) => !knownPaths.has(path),
+    );
+  };
+
+  // Kept in a ref: it changes with every render, the dump far less often
+  const applyLatestSession = useRef(applySession);
+  applyLatestSession.current = applySession;
+
+  // Dump the view was last set up for, to tell a reload from a new file
+  const viewOf = useRef<{ signals: Signal[]; fileName?: string } | null>(null);
+
+  // Reloading the same file keeps the current view; a new dump restores
+  // the view last used for its file name. Appending to a watched file
+  // keeps the signals array, so it doesn't count as either.
+  useEffect(() => {
+    const previous = viewOf.current;
+    if (previous?.signals === data.signals) return;
+    viewOf.current = { signals: data.signals, fileName };
+    const applySession = applyLatestSession.current;
+    if (previous && previous.fileName === fileName) {
+      const missing = applySession(session);
+      if (missing.length > 0) {
+        setSessionError(
+          `${missing.length} signal(s) no longer in the dump: ` +
+            missing.slice(0, 5).join(", "),
+        );
       }
+      return;
+    }
+    const saved = fileName ? loadSavedSession(fileName) : null;
+    applySession(
+      saved ?? { ...emptySession(), displayed: initialDisplayed(data, source) },
+    );
+  }, [data, fileName, source, session]);
+
+  // Auto-save shortly after the view stops changing
+  useEffect(() => {
+    if (!fileName) return;
+    const timer = setTimeout(() => saveSession(fileName, session), 500);
+    return () => clearTimeout(timer);
+  }, [fileName, session]);
+
+  const exportSession = () => {
+    const blob = new Blob([JSON.stringify(session, null, 2)], {
+      type: "application/json",
     });
-    return groups;
-  }, [data.signals]);
+    downloadBlob(blob, `${fileName ?? "waveform"}.session.json`);
+  };
+
+  // Load a session file, or a GTKWave .gtkw save file
+  const importSession = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const text = await file.text();
+      if (file.name.toLowerCase().endsWith(".gtkw")) {
+        const { session, missing } = importGtkw(text, browsableSignals);
+        applySession(session);
+        if (missing.length > 0) {
+          setSessionError(
+            `${missing.length} trace(s) not found in this dump: ` +
+              missing.slice(0, 5).join(", "),
+          );
+        }
+      } else {
+        applySession(parseSession(text));
+      }
+    } catch (error) {
+      setSessionError((error as Error).message);
+    }
+  };
+
+  const removeEntries = (keys: string[]) => {
+    setDisplayed(removeItems(displayed, keys));
+    const next = new Set(selected);
+    keys.forEach((key) => next.delete(key));
+    setSelected(next);
+  };
+
+  // Insert a separator (blank when unlabeled) below the last selected entry
+  const addSeparator = (label: string) => {
+    const key = newItemKey("separator");
+    const next: DisplayItem[] = [
+      ...displayed,
+      { kind: "separator", key, label },
+    ];
+    const anchor = rows.find(
+      (row) => row.key === lastSelected.current && selected.has(row.key),
+    );
+    setDisplayed(anchor ? moveItems(next, [key], itemKeyOf(anchor)) : next);
+    if (label) setEditingLabel(key);
+  };
+
+  // Gather the selected entries into a new group at the first one's place
+  const groupSelected = () => {
+    const members = displayed.filter(
+      (item) => item.kind !== "group" && selected.has(item.key),
+    );
+    if (members.length === 0) return;
+    const key = newItemKey("group");
+    const index = displayed.indexOf(members[0]);
+    const header: DisplayItem = {
+      kind: "group",
+      key,
+      label: "Group",
+      collapsed: false,
+    };
+    const withHeader = [
+      ...displayed.slice(0, index),
+      header,
+      ...displayed.slice(index),
+    ].map((item) =>
+      item.kind !== "group" && selected.has(item.key)
+        ? { ...item, group: key }
+        : item,
+    );
+    // A header placed inside another group moves out of it
+    setDisplayed(normalizeItems(withHeader));
+    setSelected(new Set([key]));
+    setEditingLabel(key);
+  };
+
+  const updateLabelItem = (
+    key: string,
+    change: { label?: string; collapsed?: boolean },
+  ) => {
+    setDisplayed(
+      displayed.map((item) =>
+        item.key === key && item.kind !== "signal"
+          ? { ...item, ...change }
+          : item,
+      ),
+    );
+  };
+
+  // Drag the bottom edge of a row to change its height
+  const startRowResize = (event: React.MouseEvent, row: WaveRow) => {
+    event.preventDefault();
+    const startY = event.clientY;
+    const path = row.signal.path;
+    const handleMove = (move: MouseEvent) => {
+      const height = Math.max(
+        MIN_ROW_HEIGHT,
+        row.height + move.clientY - startY,
+      );
+      setRowHeights((heights) => ({ ...heights, [path]: height }));
+    };
+    const handleUp = () => {
+      window.removeEventListener("mousemove", handleMove);
+      window.removeEventListener("mouseup", handleUp);
+    };
+    window.addEventListener("mousemove", handleMove);
+    window.addEventListener("mouseup", handleUp);
+  };
+
+  const handleSignalDragOver = (event: React.DragEvent) => {
+    if (event.dataTransfer.types.includes(SIGNAL_DRAG_TYPE)) {
+      event.preventDefault();
+      event.dataTransfer.dropEffect = "copy";
+    }
+  };
 
+  const handleSignalDrop = (event: React.DragEvent) => {
+    const payload = event.dataTransfer.getData(SIGNAL_DRAG_TYPE);
+    if (!payload) return;
+    event.preventDefault();
+    // Keep the drop from reaching App's file drop handler
+    event.stopPropagation();
+    addSignals(JSON.parse(payload));
+  };
+
+  // Waves are sorted, so only their ends count
   const { maxTime, minTime } = useMemo(() => {
-    let max = -Infinity;
+    let max = data.endTime ?? -Infinity;
     let min = Infinity;
-    data.signals?.forEach((signal) => {
-      signal.wave?.forEach(([time]) => {
-        max = Math.max(max, time);
-        min = Math.min(min, time);
-      });
+    visibleSignals.forEach(({ wave }) => {
+      if (!wave?.length) return;
+      min = Math.min(min, wave[0][0]);
+      max = Math.max(max, wave[wave.length - 1][0]);
     });
     return {
       maxTime: max === -Infinity ? 0 : max,
       minTime: min === Infinity ? 0 : min,
     };
-  }, [data.signals]);
+  }, [visibleSignals, data.endTime]);
 
   const timeRange = maxTime - minTime;
 
-  const drawWaveform = () => {
+  // Events of the selected signals and decoder rows, and of the latest
+  // search, for the transaction table
+  const transactions = useMemo(() => {
+    if (!showTransactions) return [];
+    const parts: Transaction[][] = rows.map((row) => {
+      if (!selected.has(row.key)) return [];
+      if (isWaveRow(row)) {
+        const { signal, format } = row;
+        return waveTransactions(
+          signal.path,
+          signal.wave,
+          (value) => formatValue(value, format, signal.type),
+          maxTime,
+        );
+      }
+      return "annotations" in row && row.annotations
+        ? annotationTransactions(row.item.label, row.annotations)
+        : [];
+    });
+    if (searchResult) {
+      const { path, condition, matches } = searchResult;
+      parts.push(matchTransactions(path, condition, matches));
+    }
+    // concat rather than push(...), which overflows the stack on big lists
+    return ([] as Transaction[]).concat(...parts);
+  }, [showTransactions, rows, selected, searchResult, maxTime]);
+
+  // Draws onto the canvas, or the given context for image export
+  const drawWaveform = (target?: {
+    ctx: CanvasRenderingContext2D;
+    width: number;
+    height: number;
+  }) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const ctx = canvas.getContext("2d");
+    const ctx = target ? target.ctx : canvas.getContext("2d");
     if (!ctx) return;
 
-    const { width, height } = canvas;
+    const { width, height } = target ?? canvas;
     ctx.clearRect(0, 0, width, height);
 
     // Use theme colors
@@ -147,84 +1065,169 @@ const WaveformViewer: React.FC<WaveformViewerProps> = ({ data }) => {
     ctx.font =
       "12px -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Helvetica', 'Arial', sans-serif";
 
-    const timeStep = Math.pow(10, Math.floor(Math.log10(visibleTimeRange / 5)));
-    const startTime = Math.floor(visibleStartTime / timeStep) * timeStep;
+    const gridColor = theme.palette.mode === "dark" ? "#333333" : "#e5e5e5";
+    const drawGridLine = (x: number) => {
+      ctx.strokeStyle = gridColor;
+      ctx.beginPath();
+      ctx.moveTo(x, timeScaleHeight);
+      ctx.lineTo(x, height);
+      ctx.stroke();
+    };
 
-    for (
-      let t = startTime;
-      t <= Math.min(maxTime, visibleEndTime);
-      t += timeStep
-    ) {
-      const x = (t - visibleStartTime) * xScale + sidebarWidth;
-      if (x >= sidebarWidth && x <= width) {
-        ctx.fillText(`${t} ps`, x, timeScaleHeight - 5);
+    if (axisMode === "cycles" && hasClock) {
+      // Label every n-th rising edge, n a power of ten keeping labels apart
+      const firstCycle = Math.max(
+        0,
+        Math.floor(cycleAt(edges, visibleStartTime)),
+      );
+      const lastCycle = Math.min(
+        edges.length - 1,
+        Math.ceil(cycleAt(edges, visibleEndTime)),
+      );
+      const labelCount = (width - sidebarWidth) / 80;
+      const cyclesPerLabel = Math.pow(
+        10,
+        Math.max(
+          0,
+          Math.ceil(Math.log10((lastCycle - firstCycle + 1) / labelCount)),
+        ),
+      );
+      const start = Math.ceil(firstCycle / cyclesPerLabel) * cyclesPerLabel;
+      for (let cycle = start; cycle <= lastCycle; cycle += cyclesPerLabel) {
+        const x = (edges[cycle] - visibleStartTime) * xScale + sidebarWidth;
+        if (x >= sidebarWidth && x <= width) {
+          ctx.fillText(`${cycle}`, x, timeScaleHeight - 5);
+          if (!showEdgeGrid) drawGridLine(x);
+        }
+      }
+    } else {
+      const timeStep = niceTickStep(
+        visibleTimeRange,
+        (width - sidebarWidth) / 100,
+      );
+      const startTime = Math.floor(visibleStartTime / timeStep) * timeStep;
 
-        // Draw vertical grid line
-        ctx.strokeStyle = theme.palette.mode === "dark" ? "#333333" : "#e5e5e5";
-        ctx.beginPath();
-        ctx.moveTo(x, timeScaleHeight);
-        ctx.lineTo(x, height);
-        ctx.stroke();
+      for (
+        let t = startTime;
+        t <= Math.min(maxTime, visibleEndTime);
+        t += timeStep
+      ) {
+        const x = (t - visibleStartTime) * xScale + sidebarWidth;
+        if (x >= sidebarWidth && x <= width) {
+          ctx.fillText(showTime(t, timeStep), x, timeScaleHeight - 5);
+
+          // Draw vertical grid line
+          drawGridLine(x);
+        }
+      }
+    }
+
+    // Grid line at every clock edge, unless they'd be too dense to read
+    if (showEdgeGrid && hasClock) {
+      const first = Math.max(0, edgeIndexAt(edges, visibleStartTime));
+      const last = edgeIndexAt(edges, visibleEndTime);
+      if ((width - sidebarWidth) / (last - first + 1) >= 4) {
+        for (let i = first; i <= last; i++) {
+          const x = (edges[i] - visibleStartTime) * xScale + sidebarWidth;
+          if (x >= sidebarWidth && x <= width) drawGridLine(x);
+        }
       }
     }
 
     // Draw cycle count
     ctx.fillStyle = textColor;
+    const cycle = hasClock
+      ? Math.max(0, Math.floor(cycleAt(edges, visibleStartTime)))
+      : Math.floor(visibleStartTime / data.timescale);
     ctx.fillText(
-      `Cycle: ${Math.floor(visibleStartTime / data.timescale)}/${data.maxCycles}`,
+      `Cycle: ${cycle}/${hasClock ? edges.length : data.maxCycles}`,
       sidebarWidth + 10,
       15,
     );
 
-    // Draw signals
+    // Draw signals, keeping rows scrolled up out of the time scale
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, timeScaleHeight, width, height - timeScaleHeight);
+    ctx.clip();
     let yOffset = timeScaleHeight - offset.y;
-    Object.entries(groupedSignals).forEach(([groupName, signals]) => {
-      if (
-        (groupName === "SW" || groupName === "LEDR") &&
-        !expandedSignals[groupName]
-      ) {
-        // Draw grouped signal
-        const groupedSignal: Signal = {
-          name: groupName,
-          width: signals[0].width * signals.length,
-          wave: signals[0].wave.map(([time, _]) => [
-            time,
-            signals
-              .map((s) => s.wave.find((w) => w[0] === time)?.[1] || "0")
-              .join(""),
-          ]),
-        };
-        drawSignal(
-          ctx,
-          groupedSignal,
-          yOffset,
-          width,
-          height,
-          xScale,
-          visibleStartTime,
-          visibleEndTime,
-          true,
-        );
-        yOffset += signalHeight;
-      } else {
-        // Draw individual signals
-        signals.forEach((signal, index) => {
-          drawSignal(
+    const cachedRows = new Set<string>();
+    rows.forEach((row) => {
+      if (isWaveRow(row) && row.differences) {
+        ctx.fillStyle = theme.palette.error.main + "26";
+        row.differences.forEach(([start, end]) => {
+          const x0 = (start - visibleStartTime) * xScale + sidebarWidth;
+          const x1 = (end - visibleStartTime) * xScale + sidebarWidth;
+          if (x1 < sidebarWidth || x0 > width) return;
+          const left = Math.max(sidebarWidth, x0);
+          ctx.fillRect(left, yOffset, Math.max(1, x1 - left), row.height);
+        });
+      }
+      if (!isWaveRow(row)) {
+        drawLabelRow(ctx, row, yOffset, width);
+        if ("annotations" in row && row.annotations) {
+          drawAnnotations(
             ctx,
-            signal,
-            yOffset,
+            row.annotations,
+            yOffset + row.height / 2,
+            row.height - 2 * signalPadding,
             width,
-            height,
             xScale,
             visibleStartTime,
-            visibleEndTime,
-            false,
-            index,
           );
-          yOffset += signalHeight;
+        }
+      } else {
+        drawWaveRow(ctx, row, yOffset, !!target, {
+          width,
+          height,
+          xScale,
+          visibleStartTime,
+          visibleEndTime,
         });
       }
+      yOffset += row.height;
+      if (isWaveRow(row)) cachedRows.add(row.key);
     });
+    ctx.restore();
+    // Forget rows no longer in the list
+    if (!target) {
+      Array.from(rowCache.current.keys()).forEach(
+        (key) => cachedRows.has(key) || rowCache.current.delete(key),
+      );
+    }
+
+    // Draw placed cursors and markers
+    const drawTimeLine = (
+      time: number,
+      color: string,
+      label: string,
+      dashed: boolean,
+    ) => {
+      const x = (time - visibleStartTime) * xScale + sidebarWidth;
+      if (x < sidebarWidth || x > width) return;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash(dashed ? [4, 3] : []);
+      ctx.beginPath();
+      ctx.moveTo(x, timeScaleHeight);
+      ctx.lineTo(x, height);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.lineWidth = 1;
+      ctx.fillStyle = color;
+      ctx.textAlign = "left";
+      ctx.textBaseline = "alphabetic";
+      ctx.fillText(label, x + 3, timeScaleHeight + 12);
+    };
+    markers.forEach((marker) =>
+      drawTimeLine(marker.time, theme.palette.warning.main, marker.name, true),
+    );
+    if (secondaryCursor !== null) {
+      drawTimeLine(secondaryCursor, theme.palette.secondary.main, "B", false);
+    }
+    if (primaryCursor !== null) {
+      drawTimeLine(primaryCursor, theme.palette.primary.main, "A", false);
+    }
 
     // Draw cursor and hover info
     if (cursorPosition !== null) {
@@ -273,6 +1276,88 @@ const WaveformViewer: React.FC<WaveformViewerProps> = ({ data }) => {
     ctx.fillText(value, (startX + endX) / 2, y);
   };
 
+  // Draw a signal or analog row, on screen through an image of the row
+  // that's kept until something it shows changes. Moving the mouse or a
+  // cursor then only copies the rows.
+  const drawWaveRow = (
+    ctx: CanvasRenderingContext2D,
+    row: WaveRow,
+    yOffset: number,
+    exporting: boolean,
+    view: {
+      width: number;
+      height: number;
+      xScale: number;
+      visibleStartTime: number;
+      visibleEndTime: number;
+    },
+  ) => {
+    const { width, height, xScale, visibleStartTime, visibleEndTime } = view;
+    const label = row.depth > 0 ? `  ${row.signal.name}` : row.signal.name;
+    const draw = (target: CanvasRenderingContext2D) =>
+      row.analog
+        ? drawAnalog(
+            target,
+            row,
+            yOffset,
+            width,
+            height,
+            xScale,
+            visibleStartTime,
+            visibleEndTime,
+          )
+        : drawSignal(
+            target,
+            row.signal,
+            yOffset,
+            width,
+            height,
+            xScale,
+            visibleStartTime,
+            visibleEndTime,
+            label,
+            row.format,
+            row.height,
+            row.color,
+          );
+    const visible =
+      yOffset + row.height >= timeScaleHeight && yOffset <= height;
+    if (exporting || !visible) {
+      draw(ctx);
+      return;
+    }
+
+    const inputs = [
+      row.signal,
+      row.signal.wave.length,
+      row.format,
+      row.analog,
+      row.color,
+      row.height,
+      label,
+      width,
+      xScale,
+      visibleStartTime,
+      theme.palette.mode,
+    ];
+    let cached = rowCache.current.get(row.key);
+    if (!cached || inputs.some((input, i) => input !== cached?.inputs[i])) {
+      const image = cached?.image ?? document.createElement("canvas");
+      image.width = width;
+      image.height = row.height;
+      const imageCtx = image.getContext("2d");
+      if (!imageCtx) {
+        draw(ctx);
+        return;
+      }
+      imageCtx.translate(0, -yOffset);
+      draw(imageCtx);
+      cached = { inputs, image };
+      rowCache.current.set(row.key, cached);
+    }
+    ctx.drawImage(cached.image, 0, yOffset);
+  };
+
   const drawSignal = (
     ctx: CanvasRenderingContext2D,
     signal: Signal,
@@ -282,142 +1367,357 @@ const WaveformViewer: React.FC<WaveformViewerProps> = ({ data }) => {
     xScale: number,
     visibleStartTime: number,
     visibleEndTime: number,
-    isGrouped: boolean = false,
-    indexInGroup: number = 0,
+    label: string,
+    format: ValueFormat,
+    rowHeight: number,
+    color?: string,
   ) => {
+    const lineColor =
+      color ?? (theme.palette.mode === "dark" ? "#00ffff" : "#007aff");
     const effectiveYOffset = yOffset + signalPadding / 2;
-    const effectiveSignalHeight = signalHeight - signalPadding;
-  
+    const effectiveSignalHeight = rowHeight - signalPadding;
+
     if (
       effectiveYOffset + effectiveSignalHeight < timeScaleHeight ||
       effectiveYOffset > height
     )
       return;
-  
+
     ctx.lineWidth = 2;
-  
-    let lastX = sidebarWidth;
-    let lastY = effectiveYOffset + effectiveSignalHeight / 2;
-    let lastValue: string | null = null;
-  
-    const drawHexagon = (
-      startX: number,
-      endX: number,
-      y: number,
-      height: number,
-      isUndefined: boolean
-    ) => {
-      const halfHeight = height / 2;
-      ctx.beginPath();
-      ctx.moveTo(startX, y);
-      ctx.lineTo(startX + halfHeight / 2, y - halfHeight);
-      ctx.lineTo(endX - halfHeight / 2, y - halfHeight);
-      ctx.lineTo(endX, y);
-      ctx.lineTo(endX - halfHeight / 2, y + halfHeight);
-      ctx.lineTo(startX + halfHeight / 2, y + halfHeight);
-      ctx.closePath();
-      ctx.strokeStyle = isUndefined ? theme.palette.error.main : (theme.palette.mode === "dark" ? "#00ffff" : "#007aff");
-      ctx.stroke();
-    };
-  
-    const drawWaveLine = (
-      startX: number,
-      endX: number,
-      startY: number,
-      endY: number,
-    ) => {
-      ctx.beginPath();
-      ctx.strokeStyle = theme.palette.mode === "dark" ? "#00ffff" : "#007aff";
-      ctx.moveTo(startX, startY);
-      ctx.lineTo(endX, endY);
-      ctx.stroke();
-    };
-  
+
+    const middle = effectiveYOffset + effectiveSignalHeight / 2;
+    const boxHeight = effectiveSignalHeight - 10;
     const maxEndX = Math.min(
       (visibleEndTime - visibleStartTime) * xScale + sidebarWidth,
       width,
     );
-  
-    signal.wave.forEach(([time, value], index) => {
-      const x = Math.min(
-        (time - visibleStartTime) * xScale + sidebarWidth,
-        maxEndX
+    const toX = (time: number) =>
+      Math.max(
+        sidebarWidth,
+        Math.min((time - visibleStartTime) * xScale + sidebarWidth, maxEndX),
       );
-      let y = effectiveYOffset + effectiveSignalHeight / 2;
-  
-      const nextTime = signal.wave[index + 1]
-        ? signal.wave[index + 1][0]
-        : visibleEndTime;
-      const nextX = Math.min(
-        (nextTime - visibleStartTime) * xScale + sidebarWidth,
-        maxEndX
-      );
-  
-      if (x >= sidebarWidth - 1 && x <= maxEndX) {
-        if (value === "x" || value === "z") {
-          // Draw undefined state as a box
-          ctx.beginPath();
-          ctx.rect(x, y - (effectiveSignalHeight - 10) / 2, nextX - x, effectiveSignalHeight - 10);
-          ctx.strokeStyle = theme.palette.error.main;
-          ctx.stroke();
-  
-          // Draw 'x' or 'z' inside the box
-          ctx.fillStyle = theme.palette.error.main;
-          ctx.font = "12px Arial";
-          ctx.textAlign = "center";
-          ctx.textBaseline = "middle";
-          ctx.fillText(value, (x + nextX) / 2, y);
+
+    // Lines are collected and stroked once per row
+    const bitLines: [number, number][][] = [];
+    const busBoxes: [number, number][] = [];
+    const labels: [string, number, number][] = [];
+    let lastY: number | null = null;
+
+    // Only the changes in view are visited, and runs of them narrower than
+    // a pixel come back as single dense blocks
+    waveSegments(
+      signal.wave,
+      visibleStartTime,
+      visibleEndTime,
+      1 / xScale,
+    ).forEach((segment) => {
+      const x = toX(segment.start);
+      const nextX = toX(segment.end);
+
+      if ("flags" in segment) {
+        // Shade the span, in red if any of the values was unknown
+        ctx.fillStyle =
+          (segment.flags & UNKNOWN ? theme.palette.error.main : lineColor) +
+          "80";
+        const blockHeight =
+          signal.width === 1 ? effectiveSignalHeight / 2 : boxHeight;
+        ctx.fillRect(
+          x,
+          middle - blockHeight / 2,
+          Math.max(1, nextX - x),
+          blockHeight,
+        );
+        lastY = null;
+        return;
+      }
+
+      const { value } = segment;
+      if (/^x+$/.test(value) || /^z+$/.test(value)) {
+        // Draw undefined state as a box
+        ctx.beginPath();
+        ctx.rect(x, middle - boxHeight / 2, nextX - x, boxHeight);
+        ctx.strokeStyle = theme.palette.error.main;
+        ctx.stroke();
+
+        // Draw 'x' or 'z' inside the box
+        ctx.fillStyle = theme.palette.error.main;
+        ctx.font = "12px Arial";
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.fillText(value[0], (x + nextX) / 2, middle);
+        lastY = null;
+      } else if (signal.width === 1) {
+        // Single bits as a line at the high or low level
+        const y =
+          effectiveYOffset +
+          (parseInt(value, 2) === 0
+            ? (3 * effectiveSignalHeight) / 4
+            : effectiveSignalHeight / 4);
+        if (lastY === null) {
+          bitLines.push([[x, y]]);
         } else {
-          if (!isGrouped && signal.width === 1) {
-            // Draw single-bit signal
-            const binaryValue = parseInt(value, 2);
-            y = effectiveYOffset + (binaryValue === 0 ? (3 * effectiveSignalHeight) / 4 : effectiveSignalHeight / 4);
-  
-            if (lastValue !== null) {
-              drawWaveLine(lastX, x, lastY, lastY);
-              if (lastValue !== value) {
-                drawWaveLine(x, x, lastY, y);
-              }
-            }
-            drawWaveLine(x, nextX, y, y);
-          } else {
-            // Draw multi-bit signal as hexagon
-            drawHexagon(x, nextX, y, effectiveSignalHeight - 10, false);
-            
-            ctx.fillStyle = theme.palette.text.primary;
-            ctx.font = "12px -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Helvetica', 'Arial', sans-serif";
-            ctx.textAlign = "left";
-            ctx.textBaseline = "middle";
-            
-            // Ensure correct display of SW signal
-            let displayValue = signal.name === 'SW' 
-              ? value.split('').reverse().join('')
-              : value;
-            ctx.fillText(displayValue, x + 5, y);
-          }
+          bitLines[bitLines.length - 1].push([x, lastY], [x, y]);
         }
-  
-        lastX = x;
+        bitLines[bitLines.length - 1].push([nextX, y]);
         lastY = y;
-        lastValue = value;
+      } else {
+        // Multi-bit values as hexagons, labeled where there's room
+        busBoxes.push([x, nextX]);
+        if (nextX - x > 16) {
+          labels.push([formatValue(value, format, signal.type), x, nextX]);
+        }
       }
     });
-  
+
+    ctx.beginPath();
+    bitLines.forEach((points) =>
+      points.forEach(([x, y], i) =>
+        i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y),
+      ),
+    );
+    const halfHeight = boxHeight / 2;
+    busBoxes.forEach(([x, nextX]) => {
+      const slope = Math.min(halfHeight / 2, (nextX - x) / 2);
+      ctx.moveTo(x, middle);
+      ctx.lineTo(x + slope, middle - halfHeight);
+      ctx.lineTo(nextX - slope, middle - halfHeight);
+      ctx.lineTo(nextX, middle);
+      ctx.lineTo(nextX - slope, middle + halfHeight);
+      ctx.lineTo(x + slope, middle + halfHeight);
+      ctx.closePath();
+    });
+    ctx.strokeStyle = lineColor;
+    ctx.stroke();
+
+    ctx.fillStyle = theme.palette.text.primary;
+    ctx.font =
+      "12px -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Helvetica', 'Arial', sans-serif";
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    labels.forEach(([text, x, nextX]) =>
+      ctx.fillText(fitText(ctx, text, nextX - x - 10), x + 5, middle),
+    );
+
     // Draw signal name
+    ctx.fillText(label, 5, middle);
+  };
+
+  const drawAnalog = (
+    ctx: CanvasRenderingContext2D,
+    row: WaveRow,
+    yOffset: number,
+    width: number,
+    height: number,
+    xScale: number,
+    visibleStartTime: number,
+    visibleEndTime: number,
+  ) => {
+    const settings = row.analog as AnalogSettings;
+    const top = yOffset + signalPadding / 2;
+    const plotHeight = row.height - signalPadding;
+    if (top + plotHeight < timeScaleHeight || top > height) return;
+
+    // Changes closer together than a pixel come back as one min-max range
+    // per pixel column, so the work depends on the width in pixels
+    const segments = analogSegments(
+      row.signal.wave,
+      visibleStartTime,
+      visibleEndTime,
+      1 / xScale,
+      JSON.stringify([row.format, row.signal.type, settings.signed]),
+      (value) => toNumber(value, row.format, row.signal.type, settings.signed),
+    );
+    const [min, max] = analogRange(segments, settings);
+    const toX = (time: number) =>
+      (time - visibleStartTime) * xScale + sidebarWidth;
+    const toY = (value: number) =>
+      top + plotHeight - ((value - min) / (max - min)) * plotHeight;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(sidebarWidth, top, width - sidebarWidth, plotHeight);
+    ctx.clip();
+
+    const color =
+      row.color ?? (theme.palette.mode === "dark" ? "#00ffff" : "#007aff");
+    const unknownFill = theme.palette.error.main + "33";
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    let lastY: number | null = null;
+    segments.forEach((segment) => {
+      const x = toX(segment.start);
+      const endX = toX(Math.min(segment.end, visibleEndTime));
+      if (!("value" in segment)) {
+        // A bar from the least to the greatest value in the column, the
+        // column shaded if some were unknown. Lines resume after it.
+        if (segment.unknown) {
+          ctx.fillStyle = unknownFill;
+          ctx.fillRect(x, top, Math.max(1, endX - x), plotHeight);
+        }
+        if (segment.min > segment.max) {
+          if (lastY !== null) ctx.lineTo(x, lastY);
+          lastY = null;
+          return;
+        }
+        const barTop = toY(segment.max);
+        const barBottom = toY(segment.min);
+        if (lastY !== null) {
+          ctx.lineTo(
+            x,
+            settings.style === "step"
+              ? lastY
+              : Math.min(Math.max(lastY, barTop), barBottom),
+          );
+        }
+        ctx.fillStyle = color;
+        ctx.fillRect(
+          x,
+          barTop - ctx.lineWidth / 2,
+          Math.max(1, endX - x),
+          barBottom - barTop + ctx.lineWidth,
+        );
+        lastY = null;
+        return;
+      }
+      if (segment.value === null) {
+        // Unknown bits break the line and shade the interval
+        ctx.fillStyle = unknownFill;
+        ctx.fillRect(x, top, endX - x, plotHeight);
+        if (lastY !== null) ctx.lineTo(x, lastY);
+        lastY = null;
+        return;
+      }
+      const y = toY(segment.value);
+      if (lastY === null) {
+        ctx.moveTo(x, y);
+      } else if (settings.style === "step") {
+        ctx.lineTo(x, lastY);
+        ctx.lineTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+      lastY = y;
+    });
+    if (lastY !== null && settings.style === "step") {
+      ctx.lineTo(toX(visibleEndTime), lastY);
+    }
+    ctx.stroke();
+    ctx.restore();
+
+    ctx.fillStyle = theme.palette.text.secondary;
+    ctx.font = "10px -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Helvetica', 'Arial', sans-serif";
+    ctx.textAlign = "left";
+    ctx.textBaseline = "top";
+    ctx.fillText(String(Number(max.toPrecision(6))), sidebarWidth + 2, top);
+    ctx.textBaseline = "bottom";
+    ctx.fillText(
+      String(Number(min.toPrecision(6))),
+      sidebarWidth + 2,
+      top + plotHeight,
+    );
+
     ctx.fillStyle = theme.palette.text.primary;
     ctx.font = "12px -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Helvetica', 'Arial', sans-serif";
-    let signalName = signal.name;
-    if (
-      (signalName.startsWith("SW") || signalName.startsWith("LEDR")) &&
-      !isGrouped
-    ) {
-      signalName += `[${indexInGroup}]`;
+    ctx.textBaseline = "middle";
+    ctx.fillText(row.signal.name, 5, top + plotHeight / 2);
+  };
+
+  // Group headers get a shaded band, labeled separators a rule across the
+  // waves; blank rows are left empty
+  const drawLabelRow = (
+    ctx: CanvasRenderingContext2D,
+    row: LabelRow | MissingRow,
+    yOffset: number,
+    width: number,
+  ) => {
+    const middle = yOffset + row.height / 2;
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    if ("missing" in row) {
+      ctx.fillStyle = theme.palette.error.main;
+      ctx.font =
+        "12px -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Helvetica', 'Arial', sans-serif";
+      ctx.fillText(`${row.path} (missing)`, row.grouped ? 15 : 5, middle);
+      return;
     }
-    ctx.fillText(
-      signalName,
-      5,
-      effectiveYOffset + effectiveSignalHeight / 2 + 5,
+    const { item } = row;
+    if (item.kind === "group") {
+      ctx.fillStyle = theme.palette.action.hover;
+      ctx.fillRect(0, yOffset, width, row.height);
+    } else if (item.kind === "separator" && item.label) {
+      ctx.strokeStyle = theme.palette.divider;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(sidebarWidth, middle);
+      ctx.lineTo(width, middle);
+      ctx.stroke();
+    }
+    ctx.fillStyle =
+      item.kind === "separator"
+        ? theme.palette.text.secondary
+        : theme.palette.text.primary;
+    ctx.font = `${item.kind === "group" ? "600 " : ""}12px -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Helvetica', 'Arial', sans-serif`;
+    ctx.fillText(item.label, row.grouped ? 15 : 5, middle);
+  };
+
+  // Decoded bytes and transfers as labeled boxes; instants such as I2C
+  // start and stop conditions as ticks
+  const drawAnnotations = (
+    ctx: CanvasRenderingContext2D,
+    annotations: Annotation[],
+    middle: number,
+    boxHeight: number,
+    width: number,
+    xScale: number,
+    visibleStartTime: number,
+  ) => {
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(
+      sidebarWidth,
+      middle - boxHeight,
+      width - sidebarWidth,
+      boxHeight * 2,
     );
+    ctx.clip();
+    ctx.lineWidth = 1;
+    ctx.textBaseline = "middle";
+    ctx.font =
+      "11px -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Helvetica', 'Arial', sans-serif";
+    annotations.forEach(({ start, end, label, error }) => {
+      const x0 = (start - visibleStartTime) * xScale + sidebarWidth;
+      const x1 = (end - visibleStartTime) * xScale + sidebarWidth;
+      if (x1 < sidebarWidth || x0 > width) return;
+      const color = error
+        ? theme.palette.error.main
+        : theme.palette.text.primary;
+      if (x1 - x0 < boxHeight / 2) {
+        // Too narrow for a box: a tick, labeled when it is an instant
+        ctx.strokeStyle = color;
+        ctx.beginPath();
+        ctx.moveTo(x0, middle - boxHeight / 2);
+        ctx.lineTo(x0, middle + boxHeight / 2);
+        ctx.stroke();
+        if (start === end) {
+          ctx.fillStyle = color;
+          ctx.textAlign = "left";
+          ctx.fillText(label, x0 + 3, middle);
+        }
+        return;
+      }
+      drawHexagon(ctx, x0, middle, x1 - x0, boxHeight, !!error);
+      // Center the label in the visible part of the box
+      const left = Math.max(x0, sidebarWidth) + boxHeight / 4;
+      const right = Math.min(x1, width) - boxHeight / 4;
+      const text = fitText(ctx, label, right - left);
+      if (text) {
+        ctx.fillStyle = color;
+        ctx.textAlign = "center";
+        ctx.fillText(text, (left + right) / 2, middle);
+      }
+    });
+    ctx.restore();
   };
 
   const drawHexagon = (
@@ -460,7 +1760,7 @@ const WaveformViewer: React.FC<WaveformViewerProps> = ({ data }) => {
 
     return () => window.removeEventListener("resize", resizeCanvas);
   }, [
-    data.signals,
+    rows,
     zoom,
     offset,
     maxTime,
@@ -468,53 +1768,339 @@ const WaveformViewer: React.FC<WaveformViewerProps> = ({ data }) => {
     timeRange,
     data.maxCycles,
     cursorPosition,
+    primaryCursor,
+    secondaryCursor,
+    markers,
+    edges,
+    axisMode,
+    showEdgeGrid,
+    displayUnit,
+    timeExponent,
     showHoverInfo,
     hoverInfo,
-    expandedSignals,
     theme.palette.mode,
   ]);
 
   const handleZoomIn = () => {
-    setZoom((prevZoom) => Math.min(prevZoom * 1.2, 10));
+    setZoom((prevZoom) => Math.min(prevZoom * 1.2, maxZoom));
   };
 
   const handleZoomOut = () => {
     setZoom((prevZoom) => Math.max(prevZoom / 1.2, 0.1));
   };
 
-  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+  // The names column owns the vertical scroll position; the canvas follows
+  const handleSidebarScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const y = e.currentTarget.scrollTop;
+    setOffset((prev) => ({ ...prev, y }));
+  };
+
+  // Wheel over the canvas scrolls the rows, or pans with shift held
+  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    const horizontal = e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY);
+    if (horizontal) {
+      const delta = e.deltaX || e.deltaY;
+      setOffset((prev) => ({ ...prev, x: Math.max(0, prev.x + delta) }));
+    } else if (sidebarRef.current) {
+      sidebarRef.current.scrollTop += e.deltaY;
+    }
+  };
+
+  // Simulation time under a mouse position on the canvas
+  const timeAt = (canvas: HTMLCanvasElement, clientX: number) => {
+    const rect = canvas.getBoundingClientRect();
+    const x = clientX - rect.left - sidebarWidth;
+    const xScale = ((canvas.width - sidebarWidth) * zoom) / timeRange;
+    return x / xScale + minTime + offset.x / xScale;
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const time = Math.max(minTime, Math.round(timeAt(canvas, e.clientX)));
+    if (e.shiftKey) {
+      setSecondaryCursor(time);
+    } else {
+      setPrimaryCursor(time);
+    }
+  };
+
+  const addMarker = () => {
+    if (primaryCursor === null) return;
+    setMarkers([
+      ...markers,
+      {
+        id: nextMarkerId.current++,
+        name: nextMarkerName(markers),
+        time: primaryCursor,
+      },
+    ]);
+  };
+
+  // Scroll horizontally so `time` is in view, centring it if it was not
+  const panTo = (time: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas || timeRange <= 0) return;
+    const visibleWidth = canvas.width - sidebarWidth;
+    const xScale = (visibleWidth * zoom) / timeRange;
+    const x = (time - minTime) * xScale - offset.x;
+    if (x >= 0 && x <= visibleWidth) return;
+    setOffset({ ...offset, x: Math.max(0, x + offset.x - visibleWidth / 2) });
+  };
+
+  // Zoom around a search result and put the primary cursor at its start
+  const showMatch = ({ start, end }: SearchMatch) => {
+    setPrimaryCursor(start);
+    const canvas = canvasRef.current;
+    if (!canvas || timeRange <= 0) return;
+    const span = Math.max(end - start, timeRange / 1000) * 3;
+    const nextZoom = Math.min(maxZoom, Math.max(1, timeRange / span));
+    const visibleWidth = canvas.width - sidebarWidth;
+    const xScale = (visibleWidth * nextZoom) / timeRange;
+    const center = (start + end) / 2;
+    setZoom(nextZoom);
     setOffset({
-      x: e.currentTarget.scrollLeft,
-      y: e.currentTarget.scrollTop,
+      ...offset,
+      x: Math.max(0, (center - minTime) * xScale - visibleWidth / 2),
     });
   };
 
+  const selectedRows = () =>
+    rows.filter(
+      (row): row is WaveRow => isWaveRow(row) && selected.has(row.key),
+    );
+
+  // The current view at EXPORT_SCALE times the screen resolution
+  const exportPNG = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const image = document.createElement("canvas");
+    image.width = canvas.width * EXPORT_SCALE;
+    image.height = canvas.height * EXPORT_SCALE;
+    const ctx = image.getContext("2d");
+    if (!ctx) return;
+    ctx.scale(EXPORT_SCALE, EXPORT_SCALE);
+    drawWaveform({ ctx, width: canvas.width, height: canvas.height });
+    image.toBlob(
+      (blob) => blob && downloadBlob(blob, `${fileName ?? "waveform"}.png`),
+      "image/png",
+    );
+  };
+
+  const exportSVG = () => {
+    const canvas = canvasRef.current;
+    const measure = canvas?.getContext("2d");
+    if (!canvas || !measure) return;
+    const svg = new SvgContext(canvas.width, canvas.height, measure);
+    // SvgContext implements the part of the canvas API drawing uses
+    drawWaveform({
+      ctx: svg as unknown as CanvasRenderingContext2D,
+      width: canvas.width,
+      height: canvas.height,
+    });
+    downloadBlob(
+      new Blob([svg.toSVG()], { type: "image/svg+xml" }),
+      `${fileName ?? "waveform"}.svg`,
+    );
+  };
+
+  // Selected signals for export, or every shown one when none is selected.
+  // The range is between the two cursors when both are placed, else the
+  // visible window.
+  const exportSelection = () => {
+    const waveRows = rows.filter(
+      (row): row is WaveRow => isWaveRow(row) && !row.compared,
+    );
+    const picked = waveRows.filter((row) => selected.has(row.key));
+    const exported = picked.length > 0 ? picked : waveRows;
+    const signals = exported.map(({ signal, format }) => ({
+      name: signal.name,
+      signal,
+      format,
+    }));
+    const canvas = canvasRef.current;
+    if (primaryCursor !== null && secondaryCursor !== null) {
+      return {
+        exported,
+        signals,
+        start: Math.min(primaryCursor, secondaryCursor),
+        end: Math.max(primaryCursor, secondaryCursor),
+      };
+    }
+    if (canvas && timeRange > 0) {
+      const xScale = ((canvas.width - sidebarWidth) * zoom) / timeRange;
+      const start = minTime + offset.x / xScale;
+      return {
+        exported,
+        signals,
+        start: Math.round(start),
+        end: Math.round(start + timeRange / zoom),
+      };
+    }
+    return { exported, signals, start: minTime, end: maxTime };
+  };
+
+  const openWaveDromExport = () => {
+    const { signals, start, end } = exportSelection();
+    setWaveDromExport({ signals, start, end });
+  };
+
+  // A VCD holds whole dumped signals: bit rows export their bus, virtual
+  // buses their members and derived signals their inputs
+  const openDataExport = () => {
+    const { exported, signals, start, end } = exportSelection();
+    const dumpSignals = new Map<string, Signal>();
+    exported.forEach(({ displayedPath }) => {
+      const signal = signalsByPath.get(displayedPath);
+      if (!signal) return;
+      membersOf(signal).forEach((member) =>
+        dumpSignals.set(member.path, member),
+      );
+    });
+    setDataExport({
+      signals,
+      dumpSignals: Array.from(dumpSignals.values()),
+      start,
+      end,
+    });
+  };
+
+  // Move the primary cursor to the nearest change (or edge) of any selected
+  // signal in the given direction. Returns whether there was one.
+  const jump = (backwards: boolean, edge?: Edge) => {
+    const from = primaryCursor ?? (backwards ? maxTime : minTime - 1);
+    let target: number | null = null;
+    selectedRows().forEach(({ signal }) => {
+      if (edge && signal.width !== 1) return;
+      const time = edge
+        ? findEdge(signal.wave, from, edge, backwards)
+        : backwards
+          ? prevChange(signal.wave, from)
+          : nextChange(signal.wave, from);
+      if (time === null) return;
+      if (target === null || (backwards ? time > target : time < target)) {
+        target = time;
+      }
+    });
+    if (target === null) return false;
+    setPrimaryCursor(target);
+    panTo(target);
+    return true;
+  };
+
+  // Move the primary cursor to the next difference from the compared dump,
+  // or the previous one. Returns whether there was one.
+  const stepDifference = (backwards: boolean) => {
+    const from = primaryCursor ?? (backwards ? Infinity : -Infinity);
+    const target = nextDifference(differences, from, backwards);
+    if (target === null) return false;
+    setPrimaryCursor(target);
+    panTo(target);
+    return true;
+  };
+
+  // Click selects one row, ctrl-click toggles and shift-click extends
+  const selectRow = (event: React.MouseEvent, key: string) => {
+    const anchor = rows.findIndex((row) => row.key === lastSelected.current);
+    if (event.shiftKey && anchor >= 0) {
+      const index = rows.findIndex((row) => row.key === key);
+      const range = rows.slice(
+        Math.min(anchor, index),
+        Math.max(anchor, index) + 1,
+      );
+      setSelected(new Set(range.map((row) => row.key)));
+      return;
+    }
+    lastSelected.current = key;
+    if (event.ctrlKey || event.metaKey) {
+      const next = new Set(selected);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      setSelected(next);
+    } else {
+      setSelected(new Set([key]));
+    }
+  };
+
+  // Arrow keys step through changes; r/f (shift for backwards) find edges.
+  // Kept in a ref so the window listener always sees current state.
+  // Browser shortcuts such as Ctrl+R and keys typed into a dialog pass
+  // through, and a key only stops scrolling when the cursor moved.
+  const handleKeyDown = useRef<(event: KeyboardEvent) => void>();
+  handleKeyDown.current = (event: KeyboardEvent) => {
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+    const target = event.target as HTMLElement;
+    if (target.closest("input, textarea, [role=listbox], [role=dialog]")) {
+      return;
+    }
+    const key = event.key.toLowerCase();
+    if (event.key === "ArrowRight" || event.key === "ArrowLeft") {
+      if (jump(event.key === "ArrowLeft")) event.preventDefault();
+    } else if (key === "r" || key === "f") {
+      const edge = key === "r" ? "rising" : "falling";
+      if (jump(event.shiftKey, edge)) event.preventDefault();
+    } else if (key === "d") {
+      if (stepDifference(event.shiftKey)) event.preventDefault();
+    } else if (event.key === "Delete" || event.key === "Backspace") {
+      // Bits of an expanded bus can't be removed on their own
+      const keys = displayed
+        .filter((item) => selected.has(item.key))
+        .map((item) => item.key);
+      if (keys.length > 0) {
+        event.preventDefault();
+        removeEntries(keys);
+      }
+    }
+  };
+
+  useEffect(() => {
+    const listener = (event: KeyboardEvent) => handleKeyDown.current?.(event);
+    window.addEventListener("keydown", listener);
+    return () => window.removeEventListener("keydown", listener);
+  }, []);
+
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
     const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left - sidebarWidth;
     const y = e.clientY - rect.top;
-    const xScale = ((canvas.width - sidebarWidth) * zoom) / timeRange;
-    const time = x / xScale + minTime + offset.x / xScale;
+    const time = timeAt(canvas, e.clientX);
     setCursorPosition(time);
 
     // Find the signal and value at the cursor position
-    const signalIndex = Math.floor(
-      (y - timeScaleHeight + offset.y) / signalHeight,
-    );
-    if (signalIndex >= 0 && signalIndex < data.signals.length) {
-      const signal = data.signals[signalIndex];
-      const wavePoint = signal.wave.find(([t]) => t > time);
-      const waveValue = wavePoint
-        ? wavePoint[1]
-        : signal.wave[signal.wave.length - 1]?.[1] ?? "Unknown";
+    let signalIndex = -1;
+    for (
+      let i = 0, top = timeScaleHeight - offset.y;
+      i < rows.length && y >= top;
+      top += rows[i].height, i++
+    ) {
+      signalIndex = y < top + rows[i].height ? i : -1;
+    }
+    const hovered = rows[signalIndex];
+    if (hovered && isWaveRow(hovered)) {
+      const { signal, format } = hovered;
+      const waveValue = valueAt(signal.wave, time);
       setHoverInfo({
         name: signal.name,
-        value: waveValue,
+        value:
+          waveValue === undefined
+            ? "Unknown"
+            : formatValue(waveValue, format, signal.type),
         y: y,
       });
+    } else if (hovered && "annotations" in hovered && hovered.annotations) {
+      const annotation = hovered.annotations.find(
+        ({ start, end }) => start <= time && time < end,
+      );
+      setHoverInfo(
+        annotation
+          ? { name: hovered.item.label, value: annotation.label, y }
+          : null,
+      );
     } else {
       setHoverInfo(null);
     }
@@ -529,50 +2115,396 @@ const WaveformViewer: React.FC<WaveformViewerProps> = ({ data }) => {
     setShowHoverInfo(!showHoverInfo);
   };
 
-  const renderSignalNames = () => {
-    return Object.entries(groupedSignals).map(([groupName, signals]) => {
-      if (signals.length > 1 && (groupName === "SW" || groupName === "LEDR")) {
-        return (
-          <Box key={groupName} sx={{ height: signalHeight, paddingLeft: 2 }}>
-            <Select
-              value={expandedSignals[groupName] ? "expanded" : "collapsed"}
-              onChange={(e: SelectChangeEvent) =>
-                setExpandedSignals({
-                  ...expandedSignals,
-                  [groupName]: e.target.value === "expanded",
-                })
+  const radixSignal = radixMenu
+    ? signalsByPath.get(radixMenu.path)
+    : undefined;
+
+  // Rows of each wave list entry, in order; an expanded bus drags as one
+  const blocks = useMemo(() => {
+    const result: { key: string; rows: ListRow[] }[] = [];
+    rows.forEach((row) => {
+      const key = itemKeyOf(row);
+      const last = result[result.length - 1];
+      if (last?.key === key) {
+        last.rows.push(row);
+      } else {
+        result.push({ key, rows: [row] });
+      }
+    });
+    return result;
+  }, [rows]);
+
+  const handleDragEnd = ({ source, destination, draggableId }: DropResult) => {
+    if (!destination || destination.index === source.index) return;
+    const order = blocks
+      .map((block) => block.key)
+      .filter((key) => key !== draggableId);
+    // Dragging a selected entry takes the rest of the selection along
+    const keys = selected.has(draggableId)
+      ? displayed
+          .filter((item) => selected.has(item.key))
+          .map((item) => item.key)
+      : [draggableId];
+    setDisplayed(
+      moveItems(
+        displayed,
+        keys,
+        destination.index > 0 ? order[destination.index - 1] : null,
+      ),
+    );
+  };
+
+  const renderLabelRow = (row: LabelRow) => {
+    const { item } = row;
+    const name = item.label || "blank row";
+    return (
+      <Box
+        key={row.key}
+        sx={{
+          height: row.height,
+          display: "flex",
+          alignItems: "center",
+          paddingLeft: row.grouped ? 2.5 : 0.5,
+          bgcolor: selected.has(row.key)
+            ? "action.selected"
+            : item.kind === "group"
+              ? "action.hover"
+              : undefined,
+          cursor: "pointer",
+          userSelect: "none",
+          "&:hover .row-action": { visibility: "visible" },
+        }}
+        onClick={(event) => selectRow(event, row.key)}
+        onDoubleClick={() => setEditingLabel(row.key)}
+      >
+        {item.kind === "group" ? (
+          <IconButton
+            size="small"
+            aria-label={`${item.collapsed ? "Expand" : "Collapse"} ${name}`}
+            onClick={(event) => {
+              event.stopPropagation();
+              updateLabelItem(item.key, { collapsed: !item.collapsed });
+            }}
+            sx={{ p: 0, mr: 0.5 }}
+          >
+            {item.collapsed ? (
+              <ChevronRightIcon sx={{ fontSize: 18 }} />
+            ) : (
+              <ExpandMoreIcon sx={{ fontSize: 18 }} />
+            )}
+          </IconButton>
+        ) : item.kind === "decoder" ? (
+          <CableIcon
+            color="action"
+            sx={{ fontSize: 16, ml: 0.25, mr: 0.75, flexShrink: 0 }}
+          />
+        ) : (
+          <Box sx={{ width: 22, flexShrink: 0 }} />
+        )}
+        {editingLabel === row.key ? (
+          <InputBase
+            autoFocus
+            defaultValue={item.label}
+            inputProps={{ "aria-label": "Label" }}
+            onBlur={(event) => {
+              updateLabelItem(item.key, { label: event.target.value });
+              setEditingLabel(null);
+            }}
+            onKeyDown={(event) => {
+              const input = event.target as HTMLInputElement;
+              // Escape restores the old label before committing
+              if (event.key === "Escape") input.value = item.label;
+              if (event.key === "Enter" || event.key === "Escape") {
+                input.blur();
               }
-              size="small"
-              sx={{ fontSize: 14 }}
+            }}
+            sx={{ flexGrow: 1, fontSize: 13 }}
+          />
+        ) : (
+          <Typography
+            title="Double-click to rename"
+            sx={{
+              flexGrow: 1,
+              whiteSpace: "nowrap",
+              overflow: "hidden",
+              textOverflow: "ellipsis",
+              fontSize: 13,
+              fontWeight: item.kind === "group" ? 600 : undefined,
+              color: item.kind === "separator" ? "text.secondary" : undefined,
+            }}
+          >
+            {item.label}
+          </Typography>
+        )}
+        <IconButton
+          className="row-action"
+          size="small"
+          aria-label={`Remove ${name}`}
+          onClick={(event) => {
+            event.stopPropagation();
+            removeEntries([item.key]);
+          }}
+          sx={{ visibility: "hidden", p: 0.25 }}
+        >
+          <CloseIcon sx={{ fontSize: 16 }} />
+        </IconButton>
+      </Box>
+    );
+  };
+
+  const renderMissingRow = (row: MissingRow) => (
+    <Box
+      key={row.key}
+      title={`${row.path} is not in this dump`}
+      sx={{
+        height: row.height,
+        display: "flex",
+        alignItems: "center",
+        paddingLeft: row.grouped ? 2.5 : 0.5,
+        bgcolor: selected.has(row.key) ? "action.selected" : undefined,
+        cursor: "pointer",
+        userSelect: "none",
+        "&:hover .row-action": { visibility: "visible" },
+      }}
+      onClick={(event) => selectRow(event, row.key)}
+    >
+      <ErrorOutlineIcon color="error" sx={{ fontSize: 16, mx: 0.25 }} />
+      <Typography
+        sx={{
+          flexGrow: 1,
+          ml: 0.5,
+          whiteSpace: "nowrap",
+          overflow: "hidden",
+          textOverflow: "ellipsis",
+          fontSize: 13,
+          color: "text.disabled",
+          textDecoration: "line-through",
+        }}
+      >
+        {row.path}
+      </Typography>
+      <IconButton
+        className="row-action"
+        size="small"
+        aria-label={`Remove ${row.path}`}
+        onClick={(event) => {
+          event.stopPropagation();
+          removeEntries([row.key]);
+        }}
+        sx={{ visibility: "hidden", p: 0.25 }}
+      >
+        <CloseIcon sx={{ fontSize: 16 }} />
+      </IconButton>
+    </Box>
+  );
+
+  const renderWaveRow = (row: WaveRow) => {
+    const { signal } = row;
+    const bus = row.depth === 0 ? busOfBit.get(signal.path) : undefined;
+    const canCollapse =
+      !!bus && paths.filter((path) => bus.bits?.includes(path)).length > 1;
+    const cursorValue =
+      primaryCursor === null ? undefined : valueAt(signal.wave, primaryCursor);
+    const range =
+      row.expandable && signal.msb !== undefined
+        ? `[${signal.msb}:${signal.lsb}]`
+        : row.expandable
+          ? `[${signal.width - 1}:0]`
+          : "";
+
+    return (
+      <Box
+        key={row.key}
+        title={signal.path}
+        sx={{
+          height: row.height,
+          position: "relative",
+          display: "flex",
+          alignItems: "center",
+          paddingLeft: (row.grouped ? 2 : 0) + (row.depth === 0 ? 0.5 : 4),
+          bgcolor: selected.has(row.key) ? "action.selected" : undefined,
+          cursor: "pointer",
+          userSelect: "none",
+          "&:hover .row-action": { visibility: "visible" },
+        }}
+        onClick={(event) => selectRow(event, row.key)}
+        onContextMenu={(event) => {
+          if (row.depth > 0) return;
+          event.preventDefault();
+          setRadixMenu({
+            path: signal.path,
+            position: { top: event.clientY, left: event.clientX },
+          });
+        }}
+      >
+        {row.expandable ? (
+          <IconButton
+            size="small"
+            aria-label={`${
+              expandedBuses.has(signal.path) ? "Collapse" : "Expand"
+            } ${signal.name}`}
+            onClick={() => toggleBus(signal.path)}
+          >
+            {expandedBuses.has(signal.path) ? (
+              <ExpandMoreIcon sx={{ fontSize: 18 }} />
+            ) : (
+              <ChevronRightIcon sx={{ fontSize: 18 }} />
+            )}
+          </IconButton>
+        ) : (
+          row.depth === 0 && <Box sx={{ width: 30, flexShrink: 0 }} />
+        )}
+        <Typography
+          sx={{
+            flexGrow: 1,
+            whiteSpace: "nowrap",
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+            fontSize: 14,
+          }}
+        >
+          {signal.name}
+          {range}
+          {row.compared && (
+            <Box
+              component="span"
+              sx={{ ml: 0.5, fontSize: 11, color: "secondary.main" }}
             >
-              <MenuItem value="collapsed">
-                {groupName} [{signals.length - 1}:0]
-              </MenuItem>
-              <MenuItem value="expanded">{groupName} (Expanded)</MenuItem>
-            </Select>
-          </Box>
-        );
-      } else {
-        return signals.map((signal) => (
+              {compare?.fileName}
+            </Box>
+          )}
+          {row.depth === 0 && isVector(signal) && (
+            <Box
+              component="span"
+              sx={{ ml: 0.5, fontSize: 11, color: "text.secondary" }}
+            >
+              {formatLabel(row.format)}
+            </Box>
+          )}
+        </Typography>
+        {cursorValue !== undefined && (
           <Typography
-            key={signal.name}
+            title={formatValue(cursorValue, row.format, signal.type)}
             sx={{
-              height: signalHeight,
-              paddingLeft: 2,
+              maxWidth: 70,
+              flexShrink: 0,
+              px: 0.5,
               whiteSpace: "nowrap",
               overflow: "hidden",
               textOverflow: "ellipsis",
-              fontSize: 14,
-              lineHeight: `${signalHeight}px`,
+              fontSize: 12,
+              fontFamily: "monospace",
+              color: "text.secondary",
             }}
           >
-            {signal.name}
+            {formatValue(cursorValue, row.format, signal.type)}
           </Typography>
-        ));
-      }
-    });
+        )}
+        {row.depth === 0 && signal.width === 1 && (
+          <IconButton
+            className={clockPath === signal.path ? undefined : "row-action"}
+            size="small"
+            aria-label={`Use ${signal.name} as reference clock`}
+            title={
+              clockPath === signal.path
+                ? "Reference clock (click to unset)"
+                : "Use as reference clock"
+            }
+            color={clockPath === signal.path ? "primary" : "default"}
+            onClick={(event) => {
+              event.stopPropagation();
+              setClockPath(clockPath === signal.path ? null : signal.path);
+            }}
+            sx={{
+              visibility: clockPath === signal.path ? "visible" : "hidden",
+            }}
+          >
+            <ScheduleIcon sx={{ fontSize: 16 }} />
+          </IconButton>
+        )}
+        {canCollapse && (
+          <IconButton
+            className="row-action"
+            size="small"
+            aria-label={`Collapse into ${bus?.name}`}
+            title="Collapse bits into bus"
+            onClick={() => collapseIntoBus(signal.path)}
+            sx={{ visibility: "hidden" }}
+          >
+            <UnfoldLessIcon sx={{ fontSize: 16 }} />
+          </IconButton>
+        )}
+        {row.depth === 0 && (
+          <IconButton
+            className="row-action"
+            size="small"
+            aria-label={`Remove ${signal.name}`}
+            onClick={(event) => {
+              event.stopPropagation();
+              removeEntries([row.key]);
+            }}
+            sx={{ visibility: "hidden" }}
+          >
+            <CloseIcon sx={{ fontSize: 16 }} />
+          </IconButton>
+        )}
+        {row.depth === 0 && (
+          <Box
+            className="row-action"
+            onMouseDown={(event) => startRowResize(event, row)}
+            sx={{
+              position: "absolute",
+              left: 0,
+              right: 0,
+              bottom: 0,
+              height: 4,
+              cursor: "row-resize",
+              visibility: "hidden",
+              "&:hover": { bgcolor: "action.selected" },
+            }}
+          />
+        )}
+      </Box>
+    );
   };
 
+  const renderSignalNames = () => (
+    <DragDropContext onDragEnd={handleDragEnd}>
+      <StrictModeDroppable droppableId="wave-list">
+        {(provided) => (
+          <Box ref={provided.innerRef} {...provided.droppableProps}>
+            {blocks.map((block, index) => (
+              <Draggable key={block.key} draggableId={block.key} index={index}>
+                {(draggable, snapshot) => (
+                  <Box
+                    ref={draggable.innerRef}
+                    {...draggable.draggableProps}
+                    {...draggable.dragHandleProps}
+                    sx={{
+                      bgcolor: snapshot.isDragging
+                        ? "background.paper"
+                        : undefined,
+                      boxShadow: snapshot.isDragging ? 3 : 0,
+                    }}
+                  >
+                    {block.rows.map((row) =>
+                      isWaveRow(row)
+                        ? renderWaveRow(row)
+                        : "missing" in row
+                          ? renderMissingRow(row)
+                          : renderLabelRow(row),
+                    )}
+                  </Box>
+                )}
+              </Draggable>
+            ))}
+            {provided.placeholder}
+          </Box>
+        )}
+      </StrictModeDroppable>
+    </DragDropContext>
+  );
+
   if (!data || !data.signals || data.signals.length === 0) {
     return <Box sx={{ padding: 2 }}>No signal data available</Box>;
   }
@@ -593,12 +2525,190 @@ const WaveformViewer: React.FC<WaveformViewerProps> = ({ data }) => {
         <Typography variant="h6" sx={{ flexGrow: 1, fontWeight: 600 }}>
           Waveform Viewer
         </Typography>
+        <IconButton
+          onClick={addMarker}
+          disabled={primaryCursor === null}
+          aria-label="Add marker"
+          title="Add a marker at the primary cursor"
+        >
+          <BookmarkAddIcon />
+        </IconButton>
+        <IconButton
+          onClick={() => jump(true)}
+          disabled={selected.size === 0}
+          aria-label="Previous change"
+          title="Previous change of the selected signals (←)"
+        >
+          <SkipPreviousIcon />
+        </IconButton>
+        <IconButton
+          onClick={() => jump(false)}
+          disabled={selected.size === 0}
+          aria-label="Next change"
+          title="Next change of the selected signals (→)"
+        >
+          <SkipNextIcon />
+        </IconButton>
+        <IconButton
+          onClick={() => jump(false, "rising")}
+          disabled={selected.size === 0}
+          aria-label="Next rising edge"
+          title="Next rising edge (R, Shift+R for previous)"
+        >
+          <NorthEastIcon />
+        </IconButton>
+        <IconButton
+          onClick={() => jump(false, "falling")}
+          disabled={selected.size === 0}
+          aria-label="Next falling edge"
+          title="Next falling edge (F, Shift+F for previous)"
+        >
+          <SouthEastIcon />
+        </IconButton>
+        <IconButton
+          onClick={() => sessionInputRef.current?.click()}
+          aria-label="Load session"
+          title="Load a saved view (.json or GTKWave .gtkw)"
+        >
+          <FileUploadIcon />
+        </IconButton>
+        <input
+          ref={sessionInputRef}
+          type="file"
+          accept=".json,.gtkw"
+          hidden
+          onChange={importSession}
+        />
+        <IconButton
+          onClick={exportSession}
+          aria-label="Save session"
+          title="Save the current view to a file"
+        >
+          <FileDownloadIcon />
+        </IconButton>
+        <IconButton
+          onClick={(event) => setExportMenu(event.currentTarget)}
+          aria-label="Export"
+          title="Export the view as an image, WaveDrom or data"
+        >
+          <IosShareIcon />
+        </IconButton>
+        <Menu
+          anchorEl={exportMenu}
+          open={exportMenu !== null}
+          onClose={() => setExportMenu(null)}
+        >
+          <MenuItem
+            onClick={() => {
+              setExportMenu(null);
+              exportPNG();
+            }}
+          >
+            PNG image
+          </MenuItem>
+          <MenuItem
+            onClick={() => {
+              setExportMenu(null);
+              exportSVG();
+            }}
+          >
+            SVG image
+          </MenuItem>
+          <MenuItem
+            onClick={() => {
+              setExportMenu(null);
+              openWaveDromExport();
+            }}
+          >
+            WaveDrom JSON…
+          </MenuItem>
+          <MenuItem
+            onClick={() => {
+              setExportMenu(null);
+              openDataExport();
+            }}
+          >
+            Data (CSV or VCD)…
+          </MenuItem>
+        </Menu>
+        <IconButton
+          onClick={() => setShowDerivedDialog(true)}
+          aria-label="New derived signal"
+          title="Add a signal computed from an expression"
+        >
+          <FunctionsIcon />
+        </IconButton>
+        <IconButton
+          onClick={() => setShowDecoderDialog(true)}
+          aria-label="New protocol decoder"
+          title="Decode UART, SPI, I2C or valid/ready traffic"
+        >
+          <CableIcon />
+        </IconButton>
+        <IconButton
+          onClick={() => setShowSearch(!showSearch)}
+          color={showSearch ? "primary" : "default"}
+          aria-label="Find value"
+          title="Find when a signal has a value"
+        >
+          <SearchIcon />
+        </IconButton>
+        <IconButton
+          onClick={() => setShowTransactions(!showTransactions)}
+          color={showTransactions ? "primary" : "default"}
+          aria-label="Transactions"
+          title="List the events of the selected rows in a table"
+        >
+          <TableRowsIcon />
+        </IconButton>
         <IconButton onClick={handleZoomOut} aria-label="Zoom out">
           <ZoomOutIcon />
         </IconButton>
         <IconButton onClick={handleZoomIn} aria-label="Zoom in">
           <ZoomInIcon />
         </IconButton>
+        <Select
+          size="small"
+          value={displayUnit}
+          onChange={(event) =>
+            setDisplayUnit(event.target.value as DisplayUnit)
+          }
+          inputProps={{ "aria-label": "Time unit" }}
+          sx={{ ml: 1, fontSize: 13 }}
+        >
+          <MenuItem value="auto">Auto units</MenuItem>
+          {TIME_UNITS.map(({ unit }) => (
+            <MenuItem key={unit} value={unit}>
+              {unit}
+            </MenuItem>
+          ))}
+        </Select>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={hasClock ? axisMode : "time"}
+          onChange={(_, mode) => mode && setAxisMode(mode)}
+          sx={{ mx: 1 }}
+        >
+          <ToggleButton value="time">Time</ToggleButton>
+          <ToggleButton
+            value="cycles"
+            disabled={!hasClock}
+            title={hasClock ? undefined : "Pick a reference clock first"}
+          >
+            Cycles
+          </ToggleButton>
+        </ToggleButtonGroup>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={showEdgeGrid}
+              disabled={!hasClock}
+              onChange={() => setShowEdgeGrid(!showEdgeGrid)}
+            />
+          }
+          label="Edge grid"
+        />
         <FormControlLabel
           control={
             <Switch checked={showHoverInfo} onChange={toggleHoverInfo} />
@@ -606,33 +2716,282 @@ const WaveformViewer: React.FC<WaveformViewerProps> = ({ data }) => {
           label="Show Details"
         />
       </Box>
+      <Snackbar
+        open={sessionError !== null}
+        autoHideDuration={8000}
+        onClose={() => setSessionError(null)}
+        message={sessionError}
+      />
+      <DerivedSignalDialog
+        open={showDerivedDialog}
+        signals={browsableSignals}
+        onAdd={addDerived}
+        onClose={() => setShowDerivedDialog(false)}
+      />
+      <WaveDromExportDialog
+        open={waveDromExport !== null}
+        signals={waveDromExport?.signals ?? []}
+        clockEdges={edges}
+        start={waveDromExport?.start ?? 0}
+        end={waveDromExport?.end ?? 0}
+        formatTime={showTime}
+        fileName={fileName ?? "waveform"}
+        onClose={() => setWaveDromExport(null)}
+      />
+      <DataExportDialog
+        open={dataExport !== null}
+        signals={dataExport?.signals ?? []}
+        dumpSignals={dataExport?.dumpSignals ?? []}
+        clocks={visibleSignals.filter((signal) => signal.width === 1)}
+        defaultClock={clockPath}
+        start={dataExport?.start ?? 0}
+        end={dataExport?.end ?? 0}
+        dump={data}
+        formatTime={showTime}
+        fileName={fileName ?? "waveform"}
+        onClose={() => setDataExport(null)}
+      />
+      <DecoderDialog
+        open={showDecoderDialog}
+        signals={browsableSignals}
+        selectedPaths={paths.filter((path) => selected.has(path))}
+        onAdd={addDecoder}
+        onClose={() => setShowDecoderDialog(false)}
+      />
+      <MarkerBar
+        primary={primaryCursor}
+        secondary={secondaryCursor}
+        markers={markers}
+        cycleDelta={cyclesBetween}
+        cycleUnit={cycleUnit}
+        formatTime={showTime}
+        onClearCursor={(which) =>
+          which === "primary"
+            ? setPrimaryCursor(null)
+            : setSecondaryCursor(null)
+        }
+        onRenameMarker={(id, name) =>
+          setMarkers(
+            markers.map((marker) =>
+              marker.id === id ? { ...marker, name } : marker,
+            ),
+          )
+        }
+        onRemoveMarker={(id) =>
+          setMarkers(markers.filter((marker) => marker.id !== id))
+        }
+        onGoTo={setPrimaryCursor}
+      />
+      {compare && (
+        <CompareBar
+          fileName={compare.fileName}
+          offset={compareOffset}
+          onOffsetChange={setCompareOffset}
+          paired={rows.filter((row) => isWaveRow(row) && row.compared).length}
+          differing={differing}
+          formatTime={showTime}
+          onStep={stepDifference}
+          onClose={() => onCloseCompare?.()}
+        />
+      )}
+      {decodeProgress && (
+        <LinearProgress
+          variant="determinate"
+          value={
+            decodeProgress.totalBytes > 0
+              ? (decodeProgress.bytesRead / decodeProgress.totalBytes) * 100
+              : 0
+          }
+        />
+      )}
       <Box sx={{ flexGrow: 1, display: "flex", overflow: "hidden" }}>
+        <Box
+          sx={{
+            width: scopeTreeWidth,
+            flexShrink: 0,
+            borderRight: 1,
+            borderColor: "divider",
+            bgcolor: "background.paper",
+          }}
+        >
+          {/* Remounted for another file: only its top scopes start expanded */}
+          <ScopeTree
+            key={fileName}
+            signals={browsableSignals}
+            onAddSignals={addSignals}
+          />
+        </Box>
         <Box
           ref={sidebarRef}
           sx={{
             width: sidebarWidth,
+            flexShrink: 0,
+            overflowX: "hidden",
             overflowY: "auto",
             borderRight: 1,
             borderColor: "divider",
             bgcolor: "background.paper",
           }}
+          onScroll={handleSidebarScroll}
+          onDragOver={handleSignalDragOver}
+          onDrop={handleSignalDrop}
         >
-          {renderSignalNames()}
+          {/* Same height as the canvas time scale, so rows line up */}
+          <Box
+            sx={{
+              position: "sticky",
+              top: 0,
+              zIndex: 1,
+              height: timeScaleHeight,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "flex-end",
+              bgcolor: "background.paper",
+            }}
+          >
+            <IconButton
+              size="small"
+              onClick={() => addSeparator("Separator")}
+              aria-label="Add separator"
+              title="Add a labeled separator"
+            >
+              <HorizontalRuleIcon sx={{ fontSize: 18 }} />
+            </IconButton>
+            <IconButton
+              size="small"
+              onClick={() => addSeparator("")}
+              aria-label="Add blank row"
+              title="Add a blank row"
+            >
+              <SpaceBarIcon sx={{ fontSize: 18 }} />
+            </IconButton>
+            <IconButton
+              size="small"
+              onClick={groupSelected}
+              disabled={
+                !displayed.some(
+                  (item) => item.kind !== "group" && selected.has(item.key),
+                )
+              }
+              aria-label="Group selected"
+              title="Put the selected signals into a group"
+            >
+              <CreateNewFolderIcon sx={{ fontSize: 18 }} />
+            </IconButton>
+          </Box>
+          {displayed.length === 0 ? (
+            <Typography
+              variant="body2"
+              color="text.secondary"
+              sx={{ padding: 2 }}
+            >
+              Double-click or drag signals from the tree to view them
+            </Typography>
+          ) : (
+            renderSignalNames()
+          )}
+          <RadixMenu
+            position={radixMenu?.position ?? null}
+            format={
+              (radixMenu && formats[radixMenu.path]) || DEFAULT_FORMAT
+            }
+            onChange={(format) =>
+              radixMenu &&
+              setFormats({ ...formats, [radixMenu.path]: format })
+            }
+            showRadix={!!radixSignal && isVector(radixSignal)}
+            showAnalog={
+              !!radixSignal && (isVector(radixSignal) || isReal(radixSignal))
+            }
+            color={radixMenu ? colors[radixMenu.path] : undefined}
+            onColorChange={(color) => {
+              if (!radixMenu) return;
+              const next = { ...colors };
+              if (color) {
+                next[radixMenu.path] = color;
+              } else {
+                delete next[radixMenu.path];
+              }
+              setColors(next);
+            }}
+            analog={radixMenu ? analogSettings[radixMenu.path] : undefined}
+            onAnalogChange={(analog) => {
+              if (!radixMenu) return;
+              const next = { ...analogSettings };
+              if (analog) {
+                next[radixMenu.path] = analog;
+              } else {
+                delete next[radixMenu.path];
+              }
+              setAnalogSettings(next);
+            }}
+            onClose={() => setRadixMenu(null)}
+          />
         </Box>
         <Box
-          sx={{
-            flexGrow: 1,
-            overflow: "auto",
-            WebkitOverflowScrolling: "touch",
-          }}
-          onScroll={handleScroll}
+          sx={{ flexGrow: 1, overflow: "hidden" }}
+          onDragOver={handleSignalDragOver}
+          onDrop={handleSignalDrop}
         >
           <StyledCanvas
             ref={canvasRef}
+            onClick={handleClick}
             onMouseMove={handleMouseMove}
             onMouseLeave={handleMouseLeave}
+            onWheel={handleWheel}
           />
         </Box>
+        {showSearch && (
+          <Box
+            sx={{
+              width: searchPanelWidth,
+              flexShrink: 0,
+              borderLeft: 1,
+              borderColor: "divider",
+              bgcolor: "background.paper",
+            }}
+          >
+            <SearchPanel
+              signals={rows.filter(isWaveRow).map((row) => ({
+                key: row.key,
+                signal: row.signal,
+                format: row.format,
+              }))}
+              endTime={maxTime}
+              formatTime={showTime}
+              onSelect={showMatch}
+              onResults={(path, condition, matches) =>
+                setSearchResult({ path, condition, matches })
+              }
+              onClose={() => {
+                setShowSearch(false);
+                setSearchResult(null);
+              }}
+            />
+          </Box>
+        )}
+        {showTransactions && (
+          <Box
+            sx={{
+              width: transactionPanelWidth,
+              flexShrink: 0,
+              borderLeft: 1,
+              borderColor: "divider",
+              bgcolor: "background.paper",
+            }}
+          >
+            <TransactionTable
+              transactions={transactions}
+              cursor={primaryCursor}
+              formatTime={showTime}
+              onSelect={({ time }) => {
+                setPrimaryCursor(time);
+                panTo(time);
+              }}
+              onClose={() => setShowTransactions(false)}
+            />
+          </Box>
+        )}
       </Box>
     </StyledBox>
   );
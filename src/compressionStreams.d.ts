@@ -0,0 +1,7 @@
+// The Compression Streams API, which this TypeScript's lib.dom lacks.
+// Older browsers don't implement it, hence possibly undefined.
+declare var DecompressionStream:
+  | (new (
+      format: "gzip" | "deflate" | "deflate-raw",
+    ) => TransformStream<Uint8Array, Uint8Array>)
+  | undefined;
@@ -0,0 +1,12 @@
+// Parts of the File System Access API that lib.dom doesn't declare yet.
+// Only Chromium-based browsers implement them, hence all optional.
+interface Window {
+  showOpenFilePicker?: (options?: {
+    multiple?: boolean;
+    types?: { description?: string; accept: Record<string, string[]> }[];
+  }) => Promise<FileSystemFileHandle[]>;
+}
+
+interface DataTransferItem {
+  getAsFileSystemHandle?: () => Promise<FileSystemHandle | null>;
+}
@@ -3,3 +3,10 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+
+// Jest can't parse the `import.meta.url` worker constructor; tests that need
+// the parser worker supply their own stand-in.
+jest.mock("./workers/createParserWorker", () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
@@ -0,0 +1,44 @@
+import { analogRange, DEFAULT_ANALOG } from "./analog";
+import { analogSegments } from "./levelOfDetail";
+import { toNumber } from "./radix";
+
+const wave: [number, string][] = [
+  [0, "0000"],
+  [10, "0101"],
+  [20, "1111"],
+  [30, "xx00"],
+  [40, "0010"],
+];
+
+const segments = (start: number, end: number, pixel: number, signed = false) =>
+  analogSegments(wave, start, end, pixel, String(signed), (value) =>
+    toNumber(value, { radix: "hex" }, undefined, signed),
+  );
+
+test("scales to the visible values unless bounds are fixed", () => {
+  expect(analogRange(segments(0, 50, 1), DEFAULT_ANALOG)).toEqual([0, 15]);
+  expect(
+    analogRange(segments(0, 50, 1), { ...DEFAULT_ANALOG, max: 100 }),
+  ).toEqual([0, 100]);
+  expect(
+    analogRange([{ start: 0, end: Infinity, value: 3 }], DEFAULT_ANALOG),
+  ).toEqual([2.5, 3.5]);
+});
+
+test("ranges over the value before the window and the one past it", () => {
+  // 10 to 30: 5 in effect at the start, then 15, then unknown past the end
+  expect(analogRange(segments(15, 25, 1), DEFAULT_ANALOG)).toEqual([5, 15]);
+  expect(analogRange(segments(15, 25, 1, true), DEFAULT_ANALOG)).toEqual([
+    -1, 5,
+  ]);
+});
+
+test("ranges over the extent of merged changes", () => {
+  // One pixel spans all changes: a single min-max segment
+  const merged = segments(0, 50, 100);
+  expect(merged).toEqual([
+    { start: 0, end: 40, min: 0, max: 15, unknown: true },
+    { start: 40, end: Infinity, value: 2 },
+  ]);
+  expect(analogRange(merged, DEFAULT_ANALOG)).toEqual([0, 15]);
+});
@@ -0,0 +1,51 @@
+// utils/analog.ts
+import { AnalogSegment } from "./levelOfDetail";
+
+export interface AnalogSettings {
+  // "step" holds each value until the next change, "linear" interpolates
+  style: "step" | "linear";
+  // Fixed vertical range; scaled to the visible values when unset
+  min?: number;
+  max?: number;
+  // Interpret integer buses as two's complement
+  signed: boolean;
+}
+
+export const DEFAULT_ANALOG: AnalogSettings = { style: "step", signed: false };
+
+export const ANALOG_ROW_HEIGHT = 100;
+export const MIN_ROW_HEIGHT = 24;
+
+// Vertical range for a row: the fixed bounds if set, else the range of
+// the segments shown.
+export const analogRange = (
+  segments: AnalogSegment[],
+  settings: AnalogSettings,
+): [number, number] => {
+  let min = Infinity;
+  let max = -Infinity;
+  const include = (value: number | null) => {
+    if (value === null || !isFinite(value)) return;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  };
+  segments.forEach((segment) => {
+    if ("value" in segment) {
+      include(segment.value);
+    } else {
+      include(segment.min);
+      include(segment.max);
+    }
+  });
+  if (min === Infinity) {
+    min = 0;
+    max = 1;
+  }
+  min = settings.min ?? min;
+  max = settings.max ?? max;
+  if (min === max) {
+    min -= 0.5;
+    max += 0.5;
+  }
+  return [min, max];
+};
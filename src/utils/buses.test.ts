@@ -0,0 +1,68 @@
+import { combineBits, findVirtualBuses, splitBus } from "./buses";
+import { Signal } from "./vcdParser";
+
+const signal = (overrides: Partial<Signal>): Signal => ({
+  name: "data",
+  path: "top.data",
+  id: "!",
+  type: "wire",
+  width: 1,
+  wave: [],
+  hierarchy: ["top"],
+  ...overrides,
+});
+
+test("splitBus follows the declared range direction", () => {
+  const wave: [number, string][] = [
+    [0, "0001"],
+    [5, "0011"],
+  ];
+  const down = splitBus(signal({ width: 4, msb: 3, lsb: 0, wave }));
+  expect(down.map((bit) => bit.name)).toEqual([
+    "data[3]",
+    "data[2]",
+    "data[1]",
+    "data[0]",
+  ]);
+  expect(down[3].wave).toEqual([[0, "1"]]);
+  expect(down[2].wave).toEqual([
+    [0, "0"],
+    [5, "1"],
+  ]);
+
+  const up = splitBus(signal({ width: 4, msb: 0, lsb: 3, wave }));
+  expect(up.map((bit) => bit.name)).toEqual([
+    "data[0]",
+    "data[1]",
+    "data[2]",
+    "data[3]",
+  ]);
+  expect(up[3].wave).toEqual([[0, "1"]]);
+});
+
+test("bit-blasted nets collapse into an MSB-first virtual bus", () => {
+  const bits = [0, 2, 1].map((i) =>
+    signal({
+      name: `data[${i}]`,
+      path: `top.data[${i}]`,
+      id: `${i}`,
+      wave: i === 1 ? [[0, "0"], [4, "1"]] : [[0, i === 0 ? "1" : "0"]],
+    }),
+  );
+  const [bus] = findVirtualBuses([...bits, signal({ name: "clk" })]);
+  expect(bus).toMatchObject({
+    path: "top.data[2:0]",
+    width: 3,
+    msb: 2,
+    lsb: 0,
+    bits: ["top.data[2]", "top.data[1]", "top.data[0]"],
+  });
+
+  const members = (bus.bits as string[]).map(
+    (path) => bits.find((bit) => bit.path === path) as Signal,
+  );
+  expect(combineBits(members)).toEqual([
+    [0, "001"],
+    [4, "011"],
+  ]);
+});
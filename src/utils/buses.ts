@@ -0,0 +1,122 @@
+// utils/buses.ts
+import { Signal } from "./vcdParser";
+
+type Wave = [number, string][];
+
+// Declared bit indices of a vector in value-string order, i.e. MSB first.
+// `[7:0]` gives 7..0 and `[0:7]` gives 0..7.
+export const bitIndices = (signal: Signal): number[] => {
+  let msb = signal.width - 1;
+  let lsb = 0;
+  if (
+    signal.msb !== undefined &&
+    signal.lsb !== undefined &&
+    Math.abs(signal.msb - signal.lsb) + 1 === signal.width
+  ) {
+    msb = signal.msb;
+    lsb = signal.lsb;
+  }
+  const step = msb >= lsb ? -1 : 1;
+  const indices: number[] = [];
+  for (let i = 0, bit = msb; i < signal.width; i++, bit += step) {
+    indices.push(bit);
+  }
+  return indices;
+};
+
+// Single bit of a vector wave, keeping only the times that bit changed.
+const bitWave = (wave: Wave, position: number): Wave => {
+  const result: Wave = [];
+  let last: string | null = null;
+  for (const [time, value] of wave) {
+    const bit = value[position] ?? "x";
+    if (bit !== last) {
+      result.push([time, bit]);
+      last = bit;
+    }
+  }
+  return result;
+};
+
+// Expand a vector into one 1-bit signal per declared bit, MSB first.
+export const splitBus = (signal: Signal): Signal[] =>
+  bitIndices(signal).map((index, position) => ({
+    ...signal,
+    name: `${signal.name}[${index}]`,
+    path: `${signal.path}[${index}]`,
+    width: 1,
+    msb: index,
+    lsb: index,
+    wave: bitWave(signal.wave, position),
+  }));
+
+const BIT_SELECT = /^(.*)\[(-?\d+)\]$/;
+
+/**
+ * Group bit-blasted scalar nets (`data[0]` .. `data[7]` in one scope) into
+ * virtual buses. A bus's `bits` lists its members' paths MSB first; its wave
+ * is assembled with combineBits once the members are decoded.
+ */
+export const findVirtualBuses = (signals: Signal[]): Signal[] => {
+  const groups = new Map<string, { base: string; bits: [number, Signal][] }>();
+  signals.forEach((signal) => {
+    const match = signal.width === 1 && signal.name.match(BIT_SELECT);
+    if (!match) return;
+    const scope = (signal.hierarchy ?? []).join(".");
+    const key = `${scope}\u0000${match[1]}`;
+    if (!groups.has(key)) groups.set(key, { base: match[1], bits: [] });
+    groups.get(key)?.bits.push([parseInt(match[2]), signal]);
+  });
+
+  const buses: Signal[] = [];
+  groups.forEach(({ base, bits }) => {
+    if (bits.length < 2) return;
+    bits.sort((a, b) => b[0] - a[0]);
+    const msb = bits[0][0];
+    const lsb = bits[bits.length - 1][0];
+    const contiguous = msb - lsb + 1 === bits.length;
+    const first = bits[0][1];
+    const scope = first.hierarchy ?? [];
+    buses.push({
+      name: base,
+      path: [...scope, `${base}[${msb}:${lsb}]`].join("."),
+      id: "",
+      type: first.type,
+      width: bits.length,
+      msb: contiguous ? msb : undefined,
+      lsb: contiguous ? lsb : undefined,
+      hierarchy: scope,
+      wave: [],
+      bits: bits.map(([, signal]) => signal.path),
+    });
+  });
+  return buses;
+};
+
+// Merge 1-bit waves (MSB first) into a single vector wave.
+export const combineBits = (members: Signal[]): Wave => {
+  const times = new Set<number>();
+  members.forEach((member) => member.wave.forEach(([time]) => times.add(time)));
+  const sorted = Array.from(times).sort((a, b) => a - b);
+
+  const positions = members.map(() => -1);
+  const result: Wave = [];
+  let last: string | null = null;
+  for (const time of sorted) {
+    let value = "";
+    members.forEach((member, i) => {
+      while (
+        positions[i] + 1 < member.wave.length &&
+        member.wave[positions[i] + 1][0] <= time
+      ) {
+        positions[i]++;
+      }
+      value += positions[i] >= 0 ? member.wave[positions[i]][1] : "x";
+    });
+    if (value !== last) {
+      result.push([time, value]);
+      last = value;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,329 @@
+// utils/bzip2.ts
+
+// Streaming bzip2 decoder. bzip2 compresses in independent blocks of at
+// most 900 kB, so output is produced a block at a time and only one
+// compressed block needs to be buffered.
+
+// Comfortably more than the largest compressed block
+const MAX_BLOCK_BYTES = 5 << 19;
+const GROUP_SIZE = 50;
+const MAX_CODE_LENGTH = 20;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let j = 0; j < 8; j++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+const corrupt = () => new Error("Corrupt bzip2 data");
+
+class BitReader {
+  // Input not read through yet, kept as it arrived rather than copied
+  // together; the first chunk is read from `pos` on
+  private chunks: Uint8Array[] = [];
+  private pos = 0;
+  // Bytes in `chunks`, including those before `pos`
+  private buffered = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  append(chunk: Uint8Array) {
+    if (chunk.length === 0) return;
+    this.chunks.push(chunk);
+    this.buffered += chunk.length;
+  }
+
+  // Whole bytes not read yet
+  get remaining() {
+    return this.buffered - this.pos + (this.bitCount >> 3);
+  }
+
+  // Up to 24 bits, MSB first
+  bits(n: number) {
+    while (this.bitCount < n) {
+      let chunk = this.chunks[0];
+      if (chunk && this.pos >= chunk.length) {
+        this.chunks.shift();
+        this.buffered -= chunk.length;
+        this.pos = 0;
+        chunk = this.chunks[0];
+      }
+      if (!chunk) throw new Error("Unexpected end of bzip2 data");
+      this.bitBuffer = (this.bitBuffer << 8) | chunk[this.pos++];
+      this.bitCount += 8;
+    }
+    this.bitCount -= n;
+    const value = (this.bitBuffer >>> this.bitCount) & ((1 << n) - 1);
+    this.bitBuffer &= (1 << this.bitCount) - 1;
+    return value;
+  }
+
+  u32() {
+    return ((this.bits(16) << 16) | this.bits(16)) >>> 0;
+  }
+
+  alignToByte() {
+    this.bits(this.bitCount & 7);
+  }
+}
+
+interface HuffmanTable {
+  minLength: number;
+  maxLength: number;
+  // Largest code of each length, and the offset from a code to its symbol
+  limit: Int32Array;
+  base: Int32Array;
+  symbols: number[];
+}
+
+// Canonical codes: assigned in order of length, then of symbol
+const huffmanTable = (lengths: Uint8Array): HuffmanTable => {
+  const minLength = Math.min(...Array.from(lengths));
+  const maxLength = Math.max(...Array.from(lengths));
+  const limit = new Int32Array(maxLength + 1);
+  const base = new Int32Array(maxLength + 1);
+  const symbols: number[] = [];
+  let code = 0;
+  for (let length = minLength; length <= maxLength; length++) {
+    const first = symbols.length;
+    lengths.forEach((l, symbol) => {
+      if (l === length) symbols.push(symbol);
+    });
+    base[length] = first - code;
+    code += symbols.length - first;
+    limit[length] = code - 1;
+    code <<= 1;
+  }
+  return { minLength, maxLength, limit, base, symbols };
+};
+
+const decodeSymbol = (bits: BitReader, table: HuffmanTable) => {
+  let length = table.minLength;
+  let code = bits.bits(length);
+  while (code > table.limit[length]) {
+    if (++length > table.maxLength) throw corrupt();
+    code = (code << 1) | bits.bits(1);
+  }
+  return table.symbols[code + table.base[length]];
+};
+
+/**
+ * Decode one block, after its magic number. `tt` must hold `blockSize`
+ * entries; it's reused between blocks.
+ */
+const decodeBlock = (bits: BitReader, blockSize: number, tt: Uint32Array) => {
+  const expectedCrc = bits.u32();
+  if (bits.bits(1)) throw new Error("Randomized bzip2 blocks are unsupported");
+  const origin = bits.bits(24);
+
+  // Byte values that occur in the block, from a two-level bitmap
+  const used: number[] = [];
+  const ranges = bits.bits(16);
+  for (let i = 0; i < 16; i++) {
+    if (!(ranges & (0x8000 >> i))) continue;
+    const set = bits.bits(16);
+    for (let j = 0; j < 16; j++) {
+      if (set & (0x8000 >> j)) used.push(i * 16 + j);
+    }
+  }
+  if (used.length === 0) throw corrupt();
+  // Two run-length symbols plus end of block
+  const alphabetSize = used.length + 2;
+
+  const groupCount = bits.bits(3);
+  const selectorCount = bits.bits(15);
+  if (groupCount < 2 || groupCount > 6 || selectorCount === 0) {
+    throw corrupt();
+  }
+  // Which table each group of 50 symbols uses, move-to-front coded
+  const order = Array.from({ length: groupCount }, (_, i) => i);
+  const selectors = new Uint8Array(selectorCount);
+  for (let i = 0; i < selectorCount; i++) {
+    let j = 0;
+    while (bits.bits(1)) {
+      if (++j >= groupCount) throw corrupt();
+    }
+    const table = order[j];
+    order.splice(j, 1);
+    order.unshift(table);
+    selectors[i] = table;
+  }
+
+  // Code lengths, delta coded
+  const tables: HuffmanTable[] = [];
+  for (let t = 0; t < groupCount; t++) {
+    const lengths = new Uint8Array(alphabetSize);
+    let length = bits.bits(5);
+    for (let symbol = 0; symbol < alphabetSize; symbol++) {
+      while (true) {
+        if (length < 1 || length > MAX_CODE_LENGTH) throw corrupt();
+        if (!bits.bits(1)) break;
+        length += bits.bits(1) ? -1 : 1;
+      }
+      lengths[symbol] = length;
+    }
+    tables.push(huffmanTable(lengths));
+  }
+
+  // Undo the Huffman, run-length and move-to-front stages
+  const endOfBlock = alphabetSize - 1;
+  const mtf = Uint8Array.from(used);
+  const counts = new Uint32Array(256);
+  let count = 0;
+  let run = 0;
+  let runWeight = 1;
+  let group = -1;
+  let left = 0;
+  let table = tables[0];
+  while (true) {
+    if (left === 0) {
+      if (++group >= selectorCount) throw corrupt();
+      table = tables[selectors[group]];
+      left = GROUP_SIZE;
+    }
+    left--;
+    const symbol = decodeSymbol(bits, table);
+
+    // RUNA and RUNB spell the run length in bijective base 2
+    if (symbol <= 1) {
+      run += runWeight << symbol;
+      runWeight <<= 1;
+      if (run > blockSize) throw corrupt();
+      continue;
+    }
+    if (run > 0) {
+      if (count + run > blockSize) throw corrupt();
+      const value = mtf[0];
+      counts[value] += run;
+      for (; run > 0; run--) tt[count++] = value;
+      runWeight = 1;
+    }
+    if (symbol === endOfBlock) break;
+
+    if (count >= blockSize) throw corrupt();
+    const index = symbol - 1;
+    const value = mtf[index];
+    mtf.copyWithin(1, 0, index);
+    mtf[0] = value;
+    counts[value]++;
+    tt[count++] = value;
+  }
+  if (origin >= count) throw corrupt();
+
+  // Inverse Burrows-Wheeler transform: each entry keeps its byte in the
+  // low 8 bits and the index of the next entry above them
+  const starts = new Uint32Array(256);
+  for (let i = 0, sum = 0; i < 256; i++) {
+    starts[i] = sum;
+    sum += counts[i];
+  }
+  for (let i = 0; i < count; i++) tt[starts[tt[i] & 0xff]++] |= i << 8;
+
+  // Runs of four equal bytes are followed by a count of further repeats
+  let output = new Uint8Array(count);
+  let size = 0;
+  let crc = 0xffffffff;
+  const emit = (value: number) => {
+    if (size === output.length) {
+      const grown = new Uint8Array(output.length * 2);
+      grown.set(output);
+      output = grown;
+    }
+    output[size++] = value;
+    crc = (crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ value) & 0xff];
+  };
+  let pos = tt[origin] >>> 8;
+  let last = -1;
+  let repeats = 0;
+  for (let i = 0; i < count; i++) {
+    const entry = tt[pos];
+    const value = entry & 0xff;
+    pos = entry >>> 8;
+    if (repeats === 4) {
+      for (let r = 0; r < value; r++) emit(last);
+      last = -1;
+      repeats = 0;
+      continue;
+    }
+    repeats = value === last ? repeats + 1 : 1;
+    last = value;
+    emit(value);
+  }
+
+  if (~crc >>> 0 !== expectedCrc) throw new Error("bzip2 block CRC mismatch");
+  return output.subarray(0, size);
+};
+
+// Decompress a bzip2 stream; concatenated streams (as from pbzip2) are
+// decoded one after the other
+export const bunzip2Stream = (
+  input: ReadableStream<Uint8Array>,
+): ReadableStream<Uint8Array> => {
+  const reader = input.getReader();
+  const bits = new BitReader();
+  let inputDone = false;
+  let streams = 0;
+  // Zero between streams
+  let blockSize = 0;
+  let tt = new Uint32Array(0);
+
+  const fill = async () => {
+    while (!inputDone && bits.remaining < MAX_BLOCK_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) inputDone = true;
+      else bits.append(value);
+    }
+  };
+
+  // Enqueue the next block's output, or close after the last stream
+  const decodeNext = async (
+    controller: ReadableStreamDefaultController<Uint8Array>,
+  ) => {
+    while (true) {
+      await fill();
+      if (blockSize === 0) {
+        // Anything after the last stream is ignored
+        if (streams > 0 && bits.remaining < 4) return controller.close();
+        const magic = bits.bits(24);
+        const level = bits.bits(8) - 0x30;
+        if (magic !== 0x425a68 || level < 1 || level > 9) {
+          if (streams > 0) return controller.close();
+          throw corrupt();
+        }
+        streams++;
+        blockSize = level * 100000;
+        if (tt.length < blockSize) tt = new Uint32Array(blockSize);
+      }
+
+      const high = bits.bits(24);
+      const low = bits.bits(24);
+      if (high === 0x314159 && low === 0x265359) {
+        controller.enqueue(decodeBlock(bits, blockSize, tt));
+        return;
+      }
+      if (high !== 0x177245 || low !== 0x385090) throw corrupt();
+      // End of stream, with the CRC of all blocks combined
+      bits.u32();
+      bits.alignToByte();
+      blockSize = 0;
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        await decodeNext(controller);
+      } catch (error) {
+        reader.cancel().catch(() => {});
+        throw error;
+      }
+    },
+    cancel: (reason) => reader.cancel(reason),
+  });
+};
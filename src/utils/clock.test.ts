@@ -0,0 +1,24 @@
+import { clockEdges, cycleAt } from "./clock";
+
+test("counts cycles from rising edges of an irregular clock", () => {
+  // 10-unit period, then gated off from 30 to 70, then a 4-unit period
+  const edges = clockEdges([
+    [0, "x"],
+    [5, "0"],
+    [10, "1"],
+    [15, "0"],
+    [20, "1"],
+    [25, "0"],
+    [30, "1"],
+    [35, "0"],
+    [70, "1"],
+    [72, "0"],
+    [74, "1"],
+  ]);
+  expect(edges).toEqual([10, 20, 30, 70, 74]);
+  expect(cycleAt(edges, 10)).toBe(0);
+  expect(cycleAt(edges, 25)).toBe(1.5);
+  expect(cycleAt(edges, 50)).toBe(2.5);
+  expect(cycleAt(edges, 74)).toBe(4);
+  expect(cycleAt(edges, 5)).toBe(-0.5);
+});
@@ -0,0 +1,39 @@
+// utils/clock.ts
+
+// Times of the rising edges of a 1-bit clock wave. Only real edges count,
+// so gated or irregular clocks give unevenly spaced cycles.
+export const clockEdges = (wave: [number, string][]): number[] => {
+  const edges: number[] = [];
+  for (let i = 1; i < wave.length; i++) {
+    if (wave[i][1] === "1" && wave[i - 1][1] !== "1") edges.push(wave[i][0]);
+  }
+  return edges;
+};
+
+// Index of the last edge at or before `time`, -1 before the first edge.
+export const edgeIndexAt = (edges: number[], time: number): number => {
+  let low = 0;
+  let high = edges.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (edges[mid] <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * Cycle number at `time`, counting from 0 at the first rising edge and
+ * interpolating within each cycle's own period. Outside the recorded edges
+ * it extrapolates with the nearest period.
+ */
+export const cycleAt = (edges: number[], time: number): number => {
+  if (edges.length < 2) return edges.length === 1 && time < edges[0] ? -1 : 0;
+  const i = Math.min(Math.max(edgeIndexAt(edges, time), 0), edges.length - 2);
+  return i + (time - edges[i]) / (edges[i + 1] - edges[i]);
+};
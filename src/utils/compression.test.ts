@@ -0,0 +1,81 @@
+import { Blob as NodeBlob } from "buffer";
+import { ReadableStream, TransformStream } from "stream/web";
+import { TextDecoder, TextEncoder } from "util";
+import { gzipSync } from "fflate";
+import { bunzip2Stream } from "./bzip2";
+import { detectFormat, parseWaveform } from "./formats";
+import { parseVCD } from "./vcdParser";
+
+Object.assign(global, { ReadableStream, TextDecoder, TransformStream });
+
+const SAMPLE = `$timescale 1ns $end
+$comment ${"a".repeat(120)} $end
+$scope module top $end
+$var wire 1 ! clk $end
+$var wire 8 " data [7:0] $end
+$upscope $end
+$enddefinitions $end
+#0
+0!
+b0 "
+#5
+1!
+b10101010 "
+#10
+0!
+b11111111 "
+`;
+
+// SAMPLE compressed with bzip2, followed by a second, empty bzip2 stream
+const SAMPLE_BZ2 = Buffer.from(
+  "QlpoOTFBWSZTWXHIDpgAAB7bgAQQfABi0AAKPy/fgCAAkoapiek9JkeoADTR6gyE" +
+    "yp6h6Jmo09EZqCdYCFEPMdJl2EU4Hi9eNpHR+uMhcUwTMjMBCUBrIWYKfKOzwYcI" +
+    "8rLZIwXEa/QutDpGyi5LI/zfOjGtrMAejZKMURNFygqYSADncuJ5SaH1HAEIieXZ" +
+    "5Ir0yYqP4u5IpwoSDjkB0wBCWmg5F3JFOFCQAAAAAA==",
+  "base64",
+);
+
+const blob = (bytes: Uint8Array) => new NodeBlob([bytes]) as unknown as Blob;
+
+test("detects and inflates gzip- and bzip2-compressed dumps", async () => {
+  const expected = await parseVCD(SAMPLE);
+  const gzipped = blob(gzipSync(new TextEncoder().encode(SAMPLE)));
+
+  expect(await detectFormat(gzipped)).toMatchObject({
+    format: { name: "VCD" },
+    compression: "gzip",
+  });
+  expect(await parseWaveform(gzipped)).toEqual(expected);
+
+  const onProgress = jest.fn();
+  expect(await parseWaveform(blob(SAMPLE_BZ2), onProgress)).toEqual(expected);
+  expect(onProgress).toHaveBeenLastCalledWith({
+    bytesRead: SAMPLE_BZ2.length,
+    totalBytes: SAMPLE_BZ2.length,
+  });
+});
+
+test("decodes bzip2 input split across small chunks", async () => {
+  const input = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < SAMPLE_BZ2.length; i += 7) {
+        controller.enqueue(SAMPLE_BZ2.subarray(i, i + 7));
+      }
+      controller.close();
+    },
+  });
+  const output = bunzip2Stream(
+    input as unknown as globalThis.ReadableStream<Uint8Array>,
+  ).getReader();
+  let text = "";
+  for (let read = await output.read(); !read.done; read = await output.read()) {
+    text += new TextDecoder().decode(read.value);
+  }
+  expect(text).toBe(SAMPLE);
+});
+
+test("rejects corrupt bzip2 data", async () => {
+  const corrupt = Buffer.from(SAMPLE_BZ2);
+  corrupt[60] ^= 0xff;
+  await expect(parseWaveform(blob(corrupt))).rejects.toThrow(/bzip2/);
+});
@@ -0,0 +1,92 @@
+// utils/compression.ts
+import { Gunzip } from "fflate";
+import { bunzip2Stream } from "./bzip2";
+
+export type Compression = "gzip" | "bzip2";
+
+// For file inputs, next to the extensions of the formats themselves
+export const COMPRESSED_EXTENSIONS = [".gz", ".bz2"];
+
+export const detectCompression = (head: Uint8Array): Compression | null => {
+  if (head[0] === 0x1f && head[1] === 0x8b) return "gzip";
+  // "BZh" and the block size digit
+  if (
+    head[0] === 0x42 &&
+    head[1] === 0x5a &&
+    head[2] === 0x68 &&
+    head[3] >= 0x31 &&
+    head[3] <= 0x39
+  ) {
+    return "bzip2";
+  }
+  return null;
+};
+
+/**
+ * Decompress a stream as it is read, so the inflated data is never held in
+ * memory as a whole. Gzip uses the browser's DecompressionStream where
+ * there is one, and fflate otherwise.
+ */
+export const decompressStream = (
+  stream: ReadableStream<Uint8Array>,
+  compression: Compression,
+): ReadableStream<Uint8Array> => {
+  if (compression === "bzip2") return bunzip2Stream(stream);
+  if (typeof DecompressionStream !== "undefined") {
+    return stream.pipeThrough(new DecompressionStream("gzip"));
+  }
+
+  const gunzip = new Gunzip();
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      start(controller) {
+        gunzip.ondata = (chunk) => controller.enqueue(chunk);
+      },
+      transform(chunk) {
+        gunzip.push(chunk);
+      },
+      flush() {
+        gunzip.push(new Uint8Array(0), true);
+      },
+    }),
+  );
+};
+
+// Pass a stream through, telling how many bytes have been read from it
+export const countBytes = (
+  stream: ReadableStream<Uint8Array>,
+  onRead: (bytesRead: number) => void,
+): ReadableStream<Uint8Array> => {
+  let bytesRead = 0;
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytesRead += chunk.byteLength;
+        onRead(bytesRead);
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+};
+
+// Up to the first `length` bytes of a stream, which is cancelled after
+export const readHead = async (
+  stream: ReadableStream<Uint8Array>,
+  length: number,
+): Promise<Uint8Array> => {
+  const reader = stream.getReader();
+  const head = new Uint8Array(length);
+  let size = 0;
+  try {
+    while (size < length) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const part = value.subarray(0, length - size);
+      head.set(part, size);
+      size += part.length;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  return head.subarray(0, size);
+};
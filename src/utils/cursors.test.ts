@@ -0,0 +1,50 @@
+import {
+  findEdge,
+  nextChange,
+  nextMarkerName,
+  prevChange,
+  valueAt,
+} from "./cursors";
+
+test("looks up the value in effect at a time", () => {
+  const wave: [number, string][] = [
+    [0, "0"],
+    [10, "1"],
+    [20, "x"],
+  ];
+  expect(valueAt(wave, 0)).toBe("0");
+  expect(valueAt(wave, 15)).toBe("1");
+  expect(valueAt(wave, 20)).toBe("x");
+  expect(valueAt([[5, "1"]], 2)).toBeUndefined();
+});
+
+test("names markers after the first unused number", () => {
+  expect(nextMarkerName([])).toBe("M1");
+  expect(
+    nextMarkerName([
+      { id: 1, name: "M1", time: 0 },
+      { id: 2, name: "M3", time: 5 },
+    ]),
+  ).toBe("M2");
+});
+
+test("steps between changes and edges", () => {
+  const wave: [number, string][] = [
+    [0, "x"],
+    [5, "0"],
+    [10, "1"],
+    [20, "0"],
+    [30, "1"],
+  ];
+  expect(nextChange(wave, 10)).toBe(20);
+  expect(nextChange(wave, 30)).toBeNull();
+  expect(prevChange(wave, 10)).toBe(5);
+  expect(prevChange(wave, 12)).toBe(10);
+  expect(prevChange(wave, 0)).toBeNull();
+  expect(findEdge(wave, 0, "rising")).toBe(10);
+  expect(findEdge(wave, 10, "rising")).toBe(30);
+  expect(findEdge(wave, 30, "rising", true)).toBe(10);
+  expect(findEdge(wave, 25, "falling", true)).toBe(20);
+  // x -> 0 at time 5 counts as a falling edge
+  expect(findEdge(wave, 10, "falling", true)).toBe(5);
+});
@@ -0,0 +1,82 @@
+// utils/cursors.ts
+
+export interface Marker {
+  id: number;
+  name: string;
+  time: number;
+}
+
+// A cursor or marker that can be picked as one end of a delta measurement
+export interface TimePoint {
+  key: string;
+  label: string;
+  time: number;
+}
+
+type Wave = [number, string][];
+
+export type Edge = "rising" | "falling";
+
+// Index of the last change at or before `time`, -1 if the wave starts later.
+export const changeIndexAt = (wave: Wave, time: number): number => {
+  let low = 0;
+  let high = wave.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (wave[mid][0] <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+// Value of a wave at `time`: the last change at or before it.
+export const valueAt = (wave: Wave, time: number): string | undefined =>
+  wave[changeIndexAt(wave, time)]?.[1];
+
+// Time of the first change strictly after `time`, or null.
+export const nextChange = (wave: Wave, time: number): number | null =>
+  wave[changeIndexAt(wave, time) + 1]?.[0] ?? null;
+
+// Time of the last change strictly before `time`, or null.
+export const prevChange = (wave: Wave, time: number): number | null => {
+  const index = changeIndexAt(wave, time);
+  const before = index >= 0 && wave[index][0] === time ? index - 1 : index;
+  return wave[before]?.[0] ?? null;
+};
+
+// Nearest rising (to "1") or falling (to "0") edge of a 1-bit wave after
+// `time`, or before it when `backwards` is set.
+export const findEdge = (
+  wave: Wave,
+  time: number,
+  edge: Edge,
+  backwards = false,
+): number | null => {
+  const target = edge === "rising" ? "1" : "0";
+  const isEdge = (i: number) =>
+    i > 0 && wave[i][1] === target && wave[i - 1][1] !== target;
+  const index = changeIndexAt(wave, time);
+  if (backwards) {
+    for (let i = wave[index]?.[0] === time ? index - 1 : index; i > 0; i--) {
+      if (isEdge(i)) return wave[i][0];
+    }
+  } else {
+    for (let i = index + 1; i < wave.length; i++) {
+      if (isEdge(i)) return wave[i][0];
+    }
+  }
+  return null;
+};
+
+// Next free "M<n>" name for a new marker.
+export const nextMarkerName = (markers: Marker[]): string => {
+  const used = new Set(markers.map((marker) => marker.name));
+  let n = 1;
+  while (used.has(`M${n}`)) n++;
+  return `M${n}`;
+};
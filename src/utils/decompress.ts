@@ -0,0 +1,82 @@
+// utils/decompress.ts
+
+// Block formats FST compresses value changes with. Matches may overlap
+// their own output, so they're copied byte by byte.
+
+/** Decompress a raw LZ4 block (no frame header) of known output size. */
+export const lz4Block = (input: Uint8Array, size: number): Uint8Array => {
+  const output = new Uint8Array(size);
+  let ip = 0;
+  let op = 0;
+  const readLength = (length: number) => {
+    if (length !== 15) return length;
+    let byte;
+    do {
+      byte = input[ip++];
+      length += byte;
+    } while (byte === 255);
+    return length;
+  };
+
+  while (ip < input.length) {
+    const token = input[ip++];
+    const literals = readLength(token >> 4);
+    output.set(input.subarray(ip, ip + literals), op);
+    ip += literals;
+    op += literals;
+    // The last sequence is literals only
+    if (ip >= input.length) break;
+
+    const offset = input[ip] | (input[ip + 1] << 8);
+    ip += 2;
+    if (offset === 0) throw new Error("Corrupt LZ4 block");
+    const length = readLength(token & 15) + 4;
+    for (let i = 0; i < length; i++, op++) output[op] = output[op - offset];
+  }
+  if (op !== size) throw new Error("Corrupt LZ4 block");
+  return output;
+};
+
+const FASTLZ_MAX_L2_DISTANCE = 8191;
+
+/** Decompress a FastLZ block; the level is stored in its first byte. */
+export const fastlz = (input: Uint8Array, size: number): Uint8Array => {
+  const output = new Uint8Array(size);
+  const level2 = input[0] >> 5 === 1;
+  let ip = 0;
+  let op = 0;
+  let ctrl = input[ip++] & 31;
+
+  while (true) {
+    if (ctrl >= 32) {
+      let length = (ctrl >> 5) - 1;
+      let distance = (ctrl & 31) << 8;
+      if (length === 6) {
+        let byte;
+        do {
+          byte = input[ip++];
+          length += byte;
+        } while (level2 && byte === 255);
+      }
+      const code = input[ip++];
+      distance += code;
+      // Level 2 escapes distances beyond 13 bits
+      if (level2 && code === 255 && distance === (31 << 8) + 255) {
+        distance = ((input[ip] << 8) | input[ip + 1]) + FASTLZ_MAX_L2_DISTANCE;
+        ip += 2;
+      }
+      const from = op - distance - 1;
+      if (from < 0) throw new Error("Corrupt FastLZ block");
+      for (let i = 0; i < length + 3; i++, op++) output[op] = output[from + i];
+    } else {
+      const literals = ctrl + 1;
+      output.set(input.subarray(ip, ip + literals), op);
+      ip += literals;
+      op += literals;
+    }
+    if (ip >= input.length) break;
+    ctrl = input[ip++];
+  }
+  if (op !== size) throw new Error("Corrupt FastLZ block");
+  return output;
+};
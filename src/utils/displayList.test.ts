@@ -0,0 +1,75 @@
+import {
+  DisplayItem,
+  moveItems,
+  removeItems,
+  signalItem,
+  visibleItems,
+} from "./displayList";
+
+const group = (key: string, collapsed = false): DisplayItem => ({
+  kind: "group",
+  key,
+  label: key,
+  collapsed,
+});
+const member = (path: string, key: string): DisplayItem => ({
+  ...signalItem(path),
+  group: key,
+});
+const keys = (items: DisplayItem[]) => items.map((item) => item.key);
+
+const list = [
+  signalItem("a"),
+  group("g"),
+  member("b", "g"),
+  member("c", "g"),
+  signalItem("d"),
+];
+
+test("moves items into and out of groups", () => {
+  const into = moveItems(list, ["d"], "g");
+  expect(keys(into)).toEqual(["a", "g", "d", "b", "c"]);
+  expect(into[2]).toEqual(member("d", "g"));
+
+  const out = moveItems(list, ["b", "c"], null);
+  expect(keys(out)).toEqual(["b", "c", "a", "g", "d"]);
+  expect(out[0]).toEqual(signalItem("b"));
+});
+
+test("anchors below the closest item that stays put", () => {
+  expect(keys(moveItems(list, ["a", "d"], "a"))).toEqual([
+    "a",
+    "d",
+    "g",
+    "b",
+    "c",
+  ]);
+  expect(keys(moveItems(list, ["b", "c"], "c"))).toEqual(keys(list));
+});
+
+test("moves groups with their members and never nests them", () => {
+  expect(keys(moveItems(list, ["g"], "d"))).toEqual(["a", "d", "g", "b", "c"]);
+  const other = [...list, group("h"), member("e", "h")];
+  expect(keys(moveItems(other, ["h"], "b"))).toEqual([
+    "a",
+    "g",
+    "b",
+    "c",
+    "h",
+    "e",
+    "d",
+  ]);
+});
+
+test("drops onto a collapsed group land after its members", () => {
+  const collapsed = [signalItem("a"), ...list.slice(1)];
+  collapsed[1] = group("g", true);
+  expect(keys(visibleItems(collapsed))).toEqual(["a", "g", "d"]);
+  const moved = moveItems(collapsed, ["a"], "g");
+  expect(keys(moved)).toEqual(["g", "b", "c", "a", "d"]);
+  expect(moved[3]).toEqual(signalItem("a"));
+});
+
+test("removing a group removes its members", () => {
+  expect(keys(removeItems(list, ["g"]))).toEqual(["a", "d"]);
+});
@@ -0,0 +1,158 @@
+// utils/displayList.ts
+import { DecoderConfig } from "./protocols";
+
+/**
+ * One entry of the wave list. Group members follow their group header
+ * directly and name it in `group`; groups don't nest.
+ */
+export type DisplayItem =
+  | { kind: "signal"; key: string; path: string; group?: string }
+  // A labeled separator, or a blank row when the label is empty
+  | { kind: "separator"; key: string; label: string; group?: string }
+  // Annotations decoded from the signals named in `config`
+  | {
+      kind: "decoder";
+      key: string;
+      label: string;
+      config: DecoderConfig;
+      group?: string;
+    }
+  | { kind: "group"; key: string; label: string; collapsed: boolean };
+
+export const signalItem = (
+  path: string,
+): Extract<DisplayItem, { kind: "signal" }> => ({
+  kind: "signal",
+  key: path,
+  path,
+});
+
+let itemCount = 0;
+
+// Key for a new separator, group or decoder, unique within the page's
+// lifetime
+export const newItemKey = (kind: "separator" | "group" | "decoder") =>
+  `${kind}:${Date.now().toString(36)}-${++itemCount}`;
+
+const groupOf = (item: DisplayItem) =>
+  item.kind === "group" ? undefined : item.group;
+
+export const displayedPaths = (items: DisplayItem[]): string[] =>
+  items.flatMap((item) => (item.kind === "signal" ? [item.path] : []));
+
+// Signals decoder rows read, whether or not they are displayed themselves
+export const decoderPaths = (items: DisplayItem[]): string[] =>
+  items.flatMap((item) =>
+    item.kind === "decoder" ? Object.values(item.config.inputs) : [],
+  );
+
+// Move every group's members directly after its header, keeping their
+// relative order. Members of groups that no longer exist are ungrouped.
+export const normalizeItems = (items: DisplayItem[]): DisplayItem[] => {
+  const groups = new Set(
+    items.filter((item) => item.kind === "group").map((item) => item.key),
+  );
+  const members = new Map<string, DisplayItem[]>();
+  const top: DisplayItem[] = [];
+  items.forEach((item) => {
+    const group = groupOf(item);
+    if (group && groups.has(group)) {
+      members.set(group, [...(members.get(group) ?? []), item]);
+    } else {
+      top.push(
+        item.kind !== "group" && item.group
+          ? { ...item, group: undefined }
+          : item,
+      );
+    }
+  });
+  return top.flatMap((item) =>
+    item.kind === "group" ? [item, ...(members.get(item.key) ?? [])] : [item],
+  );
+};
+
+// Items as shown, without the members of collapsed groups
+export const visibleItems = (items: DisplayItem[]): DisplayItem[] => {
+  const collapsed = new Set(
+    items
+      .filter((item) => item.kind === "group" && item.collapsed)
+      .map((item) => item.key),
+  );
+  return items.filter((item) => !collapsed.has(groupOf(item) ?? ""));
+};
+
+// Remove items; removing a group removes its members too.
+export const removeItems = (
+  items: DisplayItem[],
+  keys: string[],
+): DisplayItem[] => {
+  const removed = new Set(keys);
+  return items.filter(
+    (item) => !removed.has(item.key) && !removed.has(groupOf(item) ?? ""),
+  );
+};
+
+/**
+ * Move the items with `keys` to just below `anchorKey` (null for the top),
+ * joining the anchor's group. If the anchor is moving too, the closest item
+ * above it that stays put is used. Groups carry their members along, and
+ * land after the anchor's group rather than inside it.
+ */
+export const moveItems = (
+  items: DisplayItem[],
+  keys: string[],
+  anchorKey: string | null,
+): DisplayItem[] => {
+  const moving = new Set(keys);
+  items.forEach((item) => {
+    const group = groupOf(item);
+    if (group && moving.has(group)) moving.add(item.key);
+  });
+  const moved = items.filter((item) => moving.has(item.key));
+  const rest = items.filter((item) => !moving.has(item.key));
+
+  let anchorIndex = items.findIndex((item) => item.key === anchorKey);
+  while (anchorIndex >= 0 && moving.has(items[anchorIndex].key)) {
+    anchorIndex--;
+  }
+  const anchor = items[anchorIndex] as DisplayItem | undefined;
+
+  let position = 0;
+  let group: string | undefined;
+  if (anchor) {
+    const header =
+      anchor.kind === "group"
+        ? anchor
+        : items.find((item) => item.key === groupOf(anchor));
+    if (header?.kind === "group" && header.collapsed) {
+      // Below a collapsed group means after its hidden members
+      position = rest.reduce(
+        (last, item, i) =>
+          item.key === header.key || groupOf(item) === header.key
+            ? i + 1
+            : last,
+        0,
+      );
+    } else {
+      position = rest.indexOf(anchor) + 1;
+      group = anchor.kind === "group" ? anchor.key : anchor.group;
+    }
+  }
+  if (group && moved.some((item) => item.kind === "group")) {
+    while (position < rest.length && groupOf(rest[position]) === group) {
+      position++;
+    }
+    group = undefined;
+  }
+
+  const placed = moved.map((item) =>
+    item.kind === "group" || moving.has(groupOf(item) ?? "")
+      ? item
+      : { ...item, group },
+  );
+  return normalizeItems([
+    ...rest.slice(0, position),
+    ...placed,
+    ...rest.slice(position),
+  ]);
+};
@@ -0,0 +1,73 @@
+import { toCSV, toVCD } from "./dumpExport";
+import { clockEdges } from "./clock";
+import { valueAt } from "./cursors";
+import { parseVCD } from "./vcdParser";
+
+const DUMP = `$date today $end
+$timescale 10ns $end
+$scope module top $end
+$var wire 1 ! clk $end
+$scope module core $end
+$var wire 8 " data [7:0] $end
+$var wire 1 # en $end
+$upscope $end
+$upscope $end
+$enddefinitions $end
+#0 0! b0 " 0#
+#5 1!
+#10 0! b101 "
+#15 1! 1#
+#20 0! b1100 "
+#25 1!
+#30 0! 0#
+`;
+
+test("writes one CSV row per change or per clock edge", async () => {
+  const data = await parseVCD(DUMP);
+  const [clk, bus, en] = data.signals;
+  const columns = [
+    { name: "top.core.data", wave: bus.wave, format: (v: string) => v },
+    { name: "en, enable", wave: en.wave, format: (v: string) => v },
+  ];
+  expect(toCSV(columns, 8, 25, { kind: "changes" }, -8)).toBe(
+    `time (10ns),top.core.data,"en, enable"
+8,00000000,0
+10,00000101,0
+15,00000101,1
+20,00001100,1
+`,
+  );
+  // Values are sampled just before each rising edge
+  expect(
+    toCSV(columns, 8, 30, { kind: "clock", edges: clockEdges(clk.wave) }, -8),
+  ).toBe(
+    `time (10ns),top.core.data,"en, enable"
+15,00000101,0
+25,00001100,1
+`,
+  );
+});
+
+test("writes a VCD of the window that parses back", async () => {
+  const data = await parseVCD(DUMP);
+  const [clk, bus, en] = data.signals;
+  const text = toVCD([bus, en, clk], 12, 25, data);
+  expect(text).toContain("$timescale 10ns $end");
+  expect(text).toContain('$var wire 8 " data [7:0] $end');
+
+  const trimmed = await parseVCD(text);
+  expect(trimmed.timeExponent).toBe(-8);
+  expect(trimmed.signals.map((signal) => signal.path)).toEqual(
+    data.signals.map((signal) => signal.path).sort(),
+  );
+  const byPath = (path: string) =>
+    trimmed.signals.find((signal) => signal.path === path)!.wave;
+  // Initial values at the window start, then the changes inside it
+  expect(valueAt(byPath(bus.path), 12)).toBe("00000101");
+  expect(valueAt(byPath(bus.path), 20)).toBe("00001100");
+  expect(valueAt(byPath(en.path), 14)).toBe("0");
+  expect(valueAt(byPath(en.path), 15)).toBe("1");
+  expect(byPath(clk.path)).toContainEqual([12, "0"]);
+  expect(byPath(clk.path).some(([time]) => time > 25)).toBe(false);
+  expect(trimmed.endTime ?? trimmed.maxCycles).toBe(25);
+});
@@ -0,0 +1,190 @@
+// utils/dumpExport.ts
+import { changeIndexAt, valueAt } from "./cursors";
+import { TIME_UNITS } from "./timeUnits";
+import { Signal, VCDData } from "./vcdParser";
+
+type Wave = [number, string][];
+
+export interface CSVColumn {
+  name: string;
+  wave: Wave;
+  // Text of a value in the CSV, e.g. as the viewer shows it
+  format: (value: string) => string;
+}
+
+// One CSV row per change of any column, or per rising edge of a clock
+export type CSVSampling =
+  { kind: "changes" } | { kind: "clock"; edges: number[] };
+
+// One dump unit as written in `$timescale`, e.g. "10ns" for 10^-8 s
+const timescaleText = (exponent: number) => {
+  const unit =
+    [...TIME_UNITS].reverse().find((entry) => entry.exponent <= exponent) ??
+    TIME_UNITS[0];
+  return `${Math.pow(10, exponent - unit.exponent)}${unit.unit}`;
+};
+
+const csvField = (text: string) =>
+  /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+// Value just before `time`, as a flip-flop clocked at `time` samples it
+const valueBefore = (wave: Wave, time: number) => {
+  const index = changeIndexAt(wave, time);
+  return wave[index >= 0 && wave[index][0] === time ? index - 1 : index]?.[1];
+};
+
+/**
+ * CSV of the columns' values from `start` to `end`, times in dump units.
+ * Per change, the first row holds the values at `start`; per clock edge,
+ * each row holds the values sampled at that edge.
+ */
+export const toCSV = (
+  columns: CSVColumn[],
+  start: number,
+  end: number,
+  sampling: CSVSampling,
+  timeExponent: number,
+): string => {
+  let times: number[];
+  let sample: (wave: Wave, time: number) => string | undefined;
+  if (sampling.kind === "clock") {
+    times = sampling.edges.filter((time) => time >= start && time <= end);
+    sample = valueBefore;
+  } else {
+    const changed = new Set<number>([start]);
+    columns.forEach(({ wave }) => {
+      for (let i = changeIndexAt(wave, start) + 1; i < wave.length; i++) {
+        if (wave[i][0] > end) break;
+        changed.add(wave[i][0]);
+      }
+    });
+    times = Array.from(changed).sort((a, b) => a - b);
+    sample = valueAt;
+  }
+
+  const lines = [
+    [`time (${timescaleText(timeExponent)})`, ...columns.map((c) => c.name)]
+      .map(csvField)
+      .join(","),
+  ];
+  times.forEach((time) => {
+    const values = columns.map(({ wave, format }) => {
+      const value = sample(wave, time);
+      return value === undefined ? "" : csvField(format(value));
+    });
+    lines.push([String(time), ...values].join(","));
+  });
+  return lines.join("\n") + "\n";
+};
+
+const isReal = (signal: Signal) =>
+  signal.type === "real" ||
+  signal.type === "realtime" ||
+  signal.type === "shortreal";
+
+const vcdValue = (signal: Signal, value: string) => {
+  if (isReal(signal)) return `r${value} ${signal.id}`;
+  if (signal.width === 1 && value.length === 1) return `${value}${signal.id}`;
+  return `b${value} ${signal.id}`;
+};
+
+interface Scope {
+  name: string;
+  signals: Signal[];
+  children: Scope[];
+}
+
+const declare = (scope: Scope, lines: string[]) => {
+  lines.push(`$scope module ${scope.name} $end`);
+  scope.signals.forEach((signal) => {
+    const range =
+      signal.msb === undefined
+        ? ""
+        : signal.msb === signal.lsb
+          ? ` [${signal.msb}]`
+          : ` [${signal.msb}:${signal.lsb}]`;
+    lines.push(
+      `$var ${signal.type} ${signal.width} ${signal.id} ${signal.name}${range} $end`,
+    );
+  });
+  scope.children.forEach((child) => declare(child, lines));
+  lines.push("$upscope $end");
+};
+
+/**
+ * A self-contained VCD of the signals between `start` and `end`, keeping
+ * their scopes, identifier codes and the dump's timescale. Times stay as in
+ * the original dump; the values at `start` are written as `$dumpvars`.
+ * Signals must come from the dump itself, not be virtual or derived.
+ */
+export const toVCD = (
+  signals: Signal[],
+  start: number,
+  end: number,
+  data: Pick<VCDData, "timeExponent" | "date" | "version">,
+): string => {
+  const lines: string[] = [];
+  if (data.date) lines.push("$date", `  ${data.date}`, "$end");
+  if (data.version) lines.push("$version", `  ${data.version}`, "$end");
+  lines.push("$comment", `  Window from ${start} to ${end}`, "$end");
+  if (data.timeExponent !== undefined) {
+    lines.push(`$timescale ${timescaleText(data.timeExponent)} $end`);
+  }
+
+  // Scopes in order of first appearance
+  const root: Scope = { name: "", signals: [], children: [] };
+  signals.forEach((signal) => {
+    let scope = root;
+    (signal.hierarchy ?? []).forEach((name) => {
+      let child = scope.children.find((entry) => entry.name === name);
+      if (!child) {
+        child = { name, signals: [], children: [] };
+        scope.children.push(child);
+      }
+      scope = child;
+    });
+    scope.signals.push(signal);
+  });
+  // Signals outside any scope get one, since VCD requires it
+  if (root.signals.length > 0) {
+    root.children.unshift({ name: "top", signals: root.signals, children: [] });
+  }
+  root.children.forEach((scope) => declare(scope, lines));
+  lines.push("$enddefinitions $end");
+
+  // Aliases share an identifier code and so their changes
+  const seen = new Set<string>();
+  const unique = signals.filter((signal) => {
+    if (seen.has(signal.id)) return false;
+    seen.add(signal.id);
+    return true;
+  });
+
+  lines.push(`#${start}`, "$dumpvars");
+  unique.forEach((signal) => {
+    const value = valueAt(signal.wave, start);
+    if (value !== undefined) {
+      lines.push(vcdValue(signal, value));
+    } else if (!isReal(signal)) {
+      lines.push(vcdValue(signal, "x"));
+    }
+  });
+  lines.push("$end");
+
+  const changes: [number, string][] = [];
+  unique.forEach((signal) => {
+    const { wave } = signal;
+    for (let i = changeIndexAt(wave, start) + 1; i < wave.length; i++) {
+      if (wave[i][0] > end) break;
+      changes.push([wave[i][0], vcdValue(signal, wave[i][1])]);
+    }
+  });
+  changes.sort((a, b) => a[0] - b[0]);
+  let time = start;
+  changes.forEach(([at, line]) => {
+    if (at !== time) lines.push(`#${(time = at)}`);
+    lines.push(line);
+  });
+  if (end !== time) lines.push(`#${end}`);
+  return lines.join("\n") + "\n";
+};
@@ -0,0 +1,98 @@
+import {
+  compileExpression,
+  evaluateExpression,
+  ExpressionError,
+  signalResolver,
+} from "./expression";
+import { Signal } from "./vcdParser";
+
+const signal = (
+  name: string,
+  width: number,
+  wave: [number, string][],
+  overrides: Partial<Signal> = {},
+): Signal => ({
+  name,
+  path: `top.${name}`,
+  id: name,
+  type: "wire",
+  width,
+  wave,
+  hierarchy: ["top"],
+  ...overrides,
+});
+
+const signals = [
+  signal("a", 1, [
+    [0, "0"],
+    [10, "1"],
+    [30, "x"],
+  ]),
+  signal("b", 1, [
+    [0, "1"],
+    [20, "0"],
+  ]),
+  signal(
+    "addr",
+    16,
+    [
+      [0, "0001001000110100"],
+      [10, "1111111100000000"],
+    ],
+    { msb: 15, lsb: 0 },
+  ),
+  signal("cnt", 4, [
+    [0, "1110"],
+    [15, "xx11"],
+  ]),
+];
+
+const evaluate = (text: string) =>
+  evaluateExpression(
+    compileExpression(text, signalResolver(signals)),
+    (input) => input.wave,
+  );
+
+test("evaluates bitwise logic with four-state values", () => {
+  expect(evaluate("a & ~b")).toEqual([
+    [0, "0"],
+    [20, "1"],
+    [30, "x"],
+  ]);
+  // b is 0 when a goes x at 30, and 0 dominates AND
+  expect(evaluate("top.a & b")).toEqual([
+    [0, "0"],
+    [10, "1"],
+    [20, "0"],
+  ]);
+});
+
+test("slices, concatenates and compares", () => {
+  expect(evaluate("addr[15:8]")).toEqual([
+    [0, "00010010"],
+    [10, "11111111"],
+  ]);
+  expect(evaluate("{a, b}")[0]).toEqual([0, "01"]);
+  expect(evaluate("addr[15:8] == 8'hFF")).toEqual([
+    [0, "0"],
+    [10, "1"],
+  ]);
+  expect(evaluate("&addr[15:8]")).toEqual([
+    [0, "0"],
+    [10, "1"],
+  ]);
+});
+
+test("does arithmetic at operand width", () => {
+  expect(evaluate("cnt + 1")).toEqual([
+    [0, "1111"],
+    [15, "xxxx"],
+  ]);
+  expect(evaluate("cnt + 2")[0]).toEqual([0, "0000"]);
+});
+
+test("reports unknown signals and syntax errors", () => {
+  expect(() => evaluate("a & nope")).toThrow(ExpressionError);
+  expect(() => evaluate("a &")).toThrow("Unexpected end");
+  expect(() => evaluate("addr[20:0]")).toThrow("Bad range");
+});
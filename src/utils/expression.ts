@@ -0,0 +1,429 @@
+// utils/expression.ts
+import { Signal } from "./vcdParser";
+import { bitIndices } from "./buses";
+import { parseSearchValue } from "./valueSearch";
+
+type Wave = [number, string][];
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpressionError";
+  }
+}
+
+type Node = { width: number } & (
+  | { kind: "signal"; signal: Signal }
+  | { kind: "const"; bits: string }
+  | { kind: "slice"; signal: Signal; from: number; to: number }
+  | { kind: "unary"; op: string; operand: Node }
+  | { kind: "binary"; op: string; left: Node; right: Node }
+  | { kind: "concat"; parts: Node[] }
+  | { kind: "ternary"; condition: Node; then: Node; otherwise: Node }
+);
+
+export interface CompiledExpression {
+  width: number;
+  // Signals the expression reads, each listed once
+  inputs: Signal[];
+  root: Node;
+}
+
+// Binary operators by precedence, loosest first (Verilog order)
+const PRECEDENCE: Record<string, number> = {
+  "||": 1,
+  "&&": 2,
+  "|": 3,
+  "^": 4,
+  "^~": 4,
+  "~^": 4,
+  "&": 5,
+  "==": 6,
+  "!=": 6,
+  "<": 7,
+  "<=": 7,
+  ">": 7,
+  ">=": 7,
+  "<<": 8,
+  ">>": 8,
+  "+": 9,
+  "-": 9,
+  "*": 10,
+};
+
+const UNARY = new Set(["~", "!", "&", "|", "^", "~&", "~|", "~^", "-"]);
+
+const TOKEN =
+  /\s*(?:(\d*'s?[bodh][0-9a-f_xz]+)|(\d+)|([a-z_$][\w$]*(?:\.[a-z_$][\w$]*)*)|(<<|>>|<=|>=|==|!=|&&|\|\||~&|~\||~\^|\^~|[~!&|^+\-*<>?:(){}[\],]))/iy;
+
+const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < text.length) {
+    if (/^\s*$/.test(text.substring(TOKEN.lastIndex))) break;
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(text);
+    if (!match) {
+      throw new ExpressionError(
+        `Unexpected "${text.substring(start).trim()[0]}" at ${start + 1}`,
+      );
+    }
+    tokens.push(match[0].trim());
+  }
+  return tokens;
+};
+
+/**
+ * Look signals up by full path, or by any dotted suffix of their path when
+ * that is unambiguous (`addr` or `cpu.addr` for `top.cpu.addr`).
+ */
+export const signalResolver = (signals: Signal[]) => {
+  const byPath = new Map(signals.map((signal) => [signal.path, signal]));
+  return (name: string): Signal | undefined => {
+    const exact = byPath.get(name);
+    if (exact) return exact;
+    const matches = signals.filter((signal) =>
+      signal.path.endsWith(`.${name}`),
+    );
+    if (matches.length > 1) {
+      throw new ExpressionError(`"${name}" is ambiguous; use its full path`);
+    }
+    return matches[0];
+  };
+};
+
+const DIGIT_BITS: Record<string, number> = { b: 1, o: 3, h: 4 };
+
+// Sized literals keep their width; unsized ones get as many bits as they
+// need, so `cnt + 1` stays as wide as `cnt`.
+const literal = (token: string): Node => {
+  const sized = token.match(/^(\d*)'s?([bodh])(.+)$/i);
+  const digits = (sized ? sized[3] : token).replace(/_/g, "");
+  const base = sized ? sized[2].toLowerCase() : "d";
+  let width = 0;
+  if (sized?.[1]) {
+    width = parseInt(sized[1]);
+  } else if (base !== "d") {
+    width = digits.length * DIGIT_BITS[base];
+  } else if (/^\d+$/.test(digits)) {
+    width = Math.max(1, BigInt(digits).toString(2).length);
+  }
+  const bits = width > 0 ? parseSearchValue(token, width) : null;
+  if (!bits) throw new ExpressionError(`Bad literal "${token}"`);
+  return { kind: "const", width, bits };
+};
+
+/**
+ * Parse an expression such as `a & ~b`, `addr[15:8]`, `{hi, lo}`,
+ * `cnt + 1` or `data == 8'hFF` against the signals `resolve` knows.
+ */
+export const compileExpression = (
+  text: string,
+  resolve: (name: string) => Signal | undefined,
+): CompiledExpression => {
+  const tokens = tokenize(text);
+  const inputs = new Map<string, Signal>();
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const expect = (token: string) => {
+    if (tokens[position] !== token) {
+      throw new ExpressionError(
+        `Expected "${token}"${peek() ? ` before "${peek()}"` : ""}`,
+      );
+    }
+    position++;
+  };
+  const number = () => {
+    const token = tokens[position++];
+    if (!/^\d+$/.test(token ?? "")) {
+      throw new ExpressionError("Expected a bit index");
+    }
+    return parseInt(token);
+  };
+
+  const readSignal = (signal: Signal) => {
+    if (["real", "realtime", "shortreal"].includes(signal.type)) {
+      throw new ExpressionError(`Real signal "${signal.name}" can't be used`);
+    }
+    inputs.set(signal.path, signal);
+    return signal;
+  };
+
+  const identifier = (name: string): Node => {
+    if (peek() !== "[") {
+      const signal = resolve(name);
+      if (!signal) throw new ExpressionError(`Unknown signal "${name}"`);
+      return {
+        kind: "signal",
+        width: signal.width,
+        signal: readSignal(signal),
+      };
+    }
+    position++;
+    const msb = number();
+    // Bit-blasted nets are named like `data[3]`
+    if (peek() === "]") {
+      const bit = resolve(`${name}[${msb}]`);
+      if (bit && !resolve(name)) {
+        position++;
+        return { kind: "signal", width: 1, signal: readSignal(bit) };
+      }
+    }
+    const lsb = peek() === ":" ? (position++, number()) : msb;
+    expect("]");
+    const signal = resolve(name);
+    if (!signal) throw new ExpressionError(`Unknown signal "${name}"`);
+    const indices = bitIndices(signal);
+    const from = indices.indexOf(msb);
+    const to = indices.indexOf(lsb);
+    if (from < 0 || to < 0 || from > to) {
+      throw new ExpressionError(`Bad range [${msb}:${lsb}] for "${name}"`);
+    }
+    return {
+      kind: "slice",
+      width: to - from + 1,
+      signal: readSignal(signal),
+      from,
+      to,
+    };
+  };
+
+  const primary = (): Node => {
+    const token = tokens[position++];
+    if (token === undefined) throw new ExpressionError("Unexpected end");
+    if (token === "(") {
+      const node = expression();
+      expect(")");
+      return node;
+    }
+    if (token === "{") {
+      const parts = [expression()];
+      while (peek() === ",") {
+        position++;
+        parts.push(expression());
+      }
+      expect("}");
+      const width = parts.reduce((sum, part) => sum + part.width, 0);
+      return { kind: "concat", width, parts };
+    }
+    if (UNARY.has(token)) {
+      const operand = primary();
+      const width = token === "~" || token === "-" ? operand.width : 1;
+      return { kind: "unary", op: token, width, operand };
+    }
+    if (/^\d/.test(token) || token.startsWith("'")) return literal(token);
+    if (/^[a-z_$]/i.test(token)) return identifier(token);
+    throw new ExpressionError(`Unexpected "${token}"`);
+  };
+
+  const binary = (minPrecedence: number): Node => {
+    let left = primary();
+    for (;;) {
+      const op = peek();
+      const precedence = PRECEDENCE[op];
+      if (!precedence || precedence < minPrecedence) return left;
+      position++;
+      const right = binary(precedence + 1);
+      const width =
+        precedence <= 2 || (precedence >= 6 && precedence <= 7)
+          ? 1
+          : op === "<<" || op === ">>"
+            ? left.width
+            : Math.max(left.width, right.width);
+      left = { kind: "binary", op, width, left, right };
+    }
+  };
+
+  const expression = (): Node => {
+    const condition = binary(1);
+    if (peek() !== "?") return condition;
+    position++;
+    const then = expression();
+    expect(":");
+    const otherwise = expression();
+    const width = Math.max(then.width, otherwise.width);
+    return { kind: "ternary", width, condition, then, otherwise };
+  };
+
+  const root = expression();
+  if (position < tokens.length) {
+    throw new ExpressionError(`Unexpected "${tokens[position]}"`);
+  }
+  return { width: root.width, inputs: Array.from(inputs.values()), root };
+};
+
+const isKnown = (bits: string) => /^[01]*$/.test(bits);
+const pad = (bits: string, width: number) =>
+  bits.length >= width
+    ? bits.substring(bits.length - width)
+    : "0".repeat(width - bits.length) + bits;
+const unknown = (width: number) => "x".repeat(width);
+const toBigInt = (bits: string) => BigInt(`0b${bits || "0"}`);
+const fromBigInt = (value: bigint, width: number) =>
+  BigInt.asUintN(width, value).toString(2).padStart(width, "0");
+
+// 1, 0, or x when the truth of a value depends on unknown bits
+const truth = (bits: string) =>
+  bits.includes("1") ? "1" : isKnown(bits) ? "0" : "x";
+
+const bitwise = (op: string, a: string, b: string): string => {
+  const bit = (x: string, y: string) => {
+    switch (op) {
+      case "&":
+        if (x === "0" || y === "0") return "0";
+        return x === "1" && y === "1" ? "1" : "x";
+      case "|":
+        if (x === "1" || y === "1") return "1";
+        return x === "0" && y === "0" ? "0" : "x";
+      default: {
+        if (!isKnown(x + y)) return "x";
+        const same = x === y;
+        return op === "^" ? (same ? "0" : "1") : same ? "1" : "0";
+      }
+    }
+  };
+  let result = "";
+  for (let i = 0; i < a.length; i++) result += bit(a[i], b[i]);
+  return result;
+};
+
+const invert = (bits: string) =>
+  bits.replace(/[01xz]/g, (bit) =>
+    bit === "0" ? "1" : bit === "1" ? "0" : "x",
+  );
+
+const reduce = (op: string, bits: string): string => {
+  const base = op.replace("~", "") || "^";
+  let result = bits[0] === "z" ? "x" : bits[0];
+  for (let i = 1; i < bits.length; i++) {
+    result = bitwise(base, result, bits[i]);
+  }
+  return op.startsWith("~") ? invert(result) : result;
+};
+
+const evaluateNode = (node: Node, values: Map<string, string>): string => {
+  switch (node.kind) {
+    case "const":
+      return node.bits;
+    case "signal":
+      return pad(values.get(node.signal.path) ?? "", node.width);
+    case "slice": {
+      const value = pad(values.get(node.signal.path) ?? "", node.signal.width);
+      return value.substring(node.from, node.to + 1);
+    }
+    case "concat":
+      return node.parts.map((part) => evaluateNode(part, values)).join("");
+    case "ternary": {
+      const condition = truth(evaluateNode(node.condition, values));
+      const then = pad(evaluateNode(node.then, values), node.width);
+      const otherwise = pad(evaluateNode(node.otherwise, values), node.width);
+      if (condition === "1") return then;
+      if (condition === "0") return otherwise;
+      // Unknown condition: keep the bits both branches agree on
+      let result = "";
+      for (let i = 0; i < node.width; i++) {
+        result += then[i] === otherwise[i] && then[i] !== "z" ? then[i] : "x";
+      }
+      return result;
+    }
+    case "unary": {
+      const operand = evaluateNode(node.operand, values);
+      switch (node.op) {
+        case "~":
+          return invert(operand);
+        case "!": {
+          const value = truth(operand);
+          return value === "x" ? "x" : value === "1" ? "0" : "1";
+        }
+        case "-":
+          return isKnown(operand)
+            ? fromBigInt(-toBigInt(operand), node.width)
+            : unknown(node.width);
+        default:
+          return reduce(node.op, operand);
+      }
+    }
+    case "binary": {
+      const left = evaluateNode(node.left, values);
+      const right = evaluateNode(node.right, values);
+      const { op } = node;
+      if (op === "&&" || op === "||") {
+        return bitwise(op[0], truth(left), truth(right));
+      }
+      const width = Math.max(left.length, right.length);
+      const a = pad(left, width);
+      const b = pad(right, width);
+      if (["&", "|", "^", "^~", "~^"].includes(op)) {
+        return bitwise(op === "~^" ? "^~" : op, a, b);
+      }
+      if (!isKnown(a + b)) return unknown(node.width);
+      const x = toBigInt(a);
+      const y = toBigInt(b);
+      switch (op) {
+        case "==":
+          return x === y ? "1" : "0";
+        case "!=":
+          return x !== y ? "1" : "0";
+        case "<":
+          return x < y ? "1" : "0";
+        case "<=":
+          return x <= y ? "1" : "0";
+        case ">":
+          return x > y ? "1" : "0";
+        case ">=":
+          return x >= y ? "1" : "0";
+        case "<<":
+        case ">>":
+          if (y >= BigInt(node.width)) return "0".repeat(node.width);
+          return fromBigInt(
+            op === "<<" ? toBigInt(left) << y : toBigInt(left) >> y,
+            node.width,
+          );
+        case "+":
+          return fromBigInt(x + y, node.width);
+        case "-":
+          return fromBigInt(x - y, node.width);
+        default:
+          return fromBigInt(x * y, node.width);
+      }
+    }
+  }
+};
+
+/**
+ * Evaluate a compiled expression at every change of its inputs. `waveOf`
+ * supplies each input's wave; inputs read as x before their first change.
+ */
+export const evaluateExpression = (
+  compiled: CompiledExpression,
+  waveOf: (signal: Signal) => Wave,
+): Wave => {
+  const waves = compiled.inputs.map(waveOf);
+  const times = new Set<number>();
+  waves.forEach((wave) => wave.forEach(([time]) => times.add(time)));
+  if (compiled.inputs.length === 0) times.add(0);
+  const sorted = Array.from(times).sort((a, b) => a - b);
+
+  const values = new Map<string, string>();
+  compiled.inputs.forEach((input) =>
+    values.set(input.path, unknown(input.width)),
+  );
+  const positions = waves.map(() => 0);
+  const result: Wave = [];
+  let last: string | null = null;
+  for (const time of sorted) {
+    waves.forEach((wave, i) => {
+      while (positions[i] < wave.length && wave[positions[i]][0] <= time) {
+        values.set(compiled.inputs[i].path, wave[positions[i]][1]);
+        positions[i]++;
+      }
+    });
+    const value = evaluateNode(compiled.root, values);
+    if (value !== last) {
+      result.push([time, value]);
+      last = value;
+    }
+  }
+  return result;
+};
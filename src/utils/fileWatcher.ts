@@ -0,0 +1,61 @@
+// utils/fileWatcher.ts
+
+export const WATCH_INTERVAL = 1000;
+
+// Bytes compared to tell a rewritten file from one that was appended to;
+// a new simulation run changes at least the $date in the header.
+const HEAD_BYTES = 4096;
+
+export type FileChange =
+  // Text added to the end of the file since the last poll
+  | { type: "appended"; text: string; file: File }
+  // The file was rewritten, e.g. by a new simulation run
+  | { type: "replaced"; file: File };
+
+/**
+ * Poll a file handle for changes to `known`, the version of the file that
+ * was last read. Returns a function that stops watching.
+ */
+export const watchFile = (
+  handle: FileSystemFileHandle,
+  known: File,
+  onChange: (change: FileChange) => void,
+  interval = WATCH_INTERVAL,
+): (() => void) => {
+  let last = known;
+  let lastHead: Promise<string> = known.slice(0, HEAD_BYTES).text();
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout>;
+
+  const poll = async () => {
+    try {
+      const file = await handle.getFile();
+      if (
+        !stopped &&
+        (file.size !== last.size || file.lastModified !== last.lastModified)
+      ) {
+        const head = file.slice(0, HEAD_BYTES).text();
+        const appended =
+          file.size > last.size && (await head).startsWith(await lastHead);
+        if (appended) {
+          const text = await file.slice(last.size).text();
+          if (!stopped) onChange({ type: "appended", text, file });
+        } else if (!stopped) {
+          onChange({ type: "replaced", file });
+        }
+        last = file;
+        lastHead = head;
+      }
+    } catch (error) {
+      // The file may be mid-write or briefly missing while it's replaced
+      console.warn("Could not read watched file:", error);
+    }
+    if (!stopped) timer = setTimeout(poll, interval);
+  };
+
+  timer = setTimeout(poll, interval);
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+};
@@ -0,0 +1,109 @@
+// utils/formats.ts
+import {
+  COMPRESSED_EXTENSIONS,
+  Compression,
+  countBytes,
+  decompressStream,
+  detectCompression,
+  readHead,
+} from "./compression";
+import { parseFST, isFST } from "./fstReader";
+import { ParseProgress, parseVCDStream, VCDData } from "./vcdParser";
+
+/**
+ * A waveform file format the viewer can load. Every format is read into
+ * the VCD model, so the viewer doesn't need to know where data came from.
+ */
+export interface WaveformFormat {
+  name: string;
+  extensions: string[];
+  // Recognize the format from the first HEAD_BYTES of the file
+  detect: (head: Uint8Array) => boolean;
+  // `totalBytes` is the size of the stream, for progress
+  parse: (
+    stream: ReadableStream<Uint8Array>,
+    totalBytes: number,
+    onProgress?: (progress: ParseProgress) => void,
+  ) => Promise<VCDData>;
+  // Read by VCDParser, which can also index large files for on-demand
+  // decoding (openVCD) and follow changes appended to the file
+  vcd: boolean;
+}
+
+export const HEAD_BYTES = 4096;
+
+const VCD: WaveformFormat = {
+  name: "VCD",
+  // EVCD and text converted from other formats share the VCD syntax
+  extensions: [".vcd", ".evcd"],
+  // Every VCD starts with a declaration keyword such as $date
+  detect: (head) => {
+    let i = 0;
+    while (i < head.length && /\s/.test(String.fromCharCode(head[i]))) i++;
+    return head[i] === 0x24;
+  },
+  parse: parseVCDStream,
+  vcd: true,
+};
+
+const FST: WaveformFormat = {
+  name: "FST",
+  extensions: [".fst"],
+  detect: isFST,
+  parse: (stream, _, onProgress) => parseFST(stream, onProgress),
+  vcd: false,
+};
+
+// Checked in order; binary formats come before the text ones
+export const FORMATS: WaveformFormat[] = [FST, VCD];
+
+// For file inputs and pickers, e.g. ".fst,.vcd,.evcd,.gz,.bz2"
+export const ACCEPTED_EXTENSIONS = [
+  ...FORMATS.flatMap((format) => format.extensions),
+  ...COMPRESSED_EXTENSIONS,
+];
+
+export interface DetectedFormat {
+  format: WaveformFormat;
+  // Set when the file is a compressed dump in `format`
+  compression: Compression | null;
+}
+
+export const detectFormat = async (
+  file: Blob,
+): Promise<DetectedFormat | null> => {
+  let head = new Uint8Array(await file.slice(0, HEAD_BYTES).arrayBuffer());
+  const compression = detectCompression(head);
+  if (compression) {
+    head = await readHead(
+      decompressStream(file.stream(), compression),
+      HEAD_BYTES,
+    );
+  }
+  const format = FORMATS.find((format) => format.detect(head));
+  return format ? { format, compression } : null;
+};
+
+// Parse a file in whichever supported format it is in, decompressing it on
+// the way if necessary
+export const parseWaveform = async (
+  file: Blob,
+  onProgress?: (progress: ParseProgress) => void,
+): Promise<VCDData> => {
+  const detected = await detectFormat(file);
+  if (!detected) throw new Error("Unrecognized waveform file format");
+  const { format, compression } = detected;
+  if (!compression) return format.parse(file.stream(), file.size, onProgress);
+
+  // Progress is measured in compressed bytes; the inflated size is unknown
+  let bytesRead = 0;
+  const stream = decompressStream(
+    countBytes(file.stream(), (read) => (bytesRead = read)),
+    compression,
+  );
+  return format.parse(
+    stream,
+    file.size,
+    onProgress && (() => onProgress({ bytesRead, totalBytes: file.size })),
+  );
+};
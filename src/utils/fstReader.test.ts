@@ -0,0 +1,157 @@
+import { gzipSync } from "fflate";
+import { fastlz, lz4Block } from "./decompress";
+import { isFST, readFST } from "./fstReader";
+
+const u64 = (value: number) => {
+  const bytes = [];
+  for (let i = 7; i >= 0; i--) {
+    bytes.push(Math.floor(value / 2 ** (8 * i)) & 255);
+  }
+  return bytes;
+};
+const varint = (value: number) => {
+  const bytes = [];
+  while (value >= 128) {
+    bytes.push((value & 127) | 128);
+    value >>>= 7;
+  }
+  return [...bytes, value];
+};
+const text = (value: string) => Array.from(value, (c) => c.charCodeAt(0));
+const padded = (value: string, length: number) => [
+  ...text(value),
+  ...new Array(length - value.length).fill(0),
+];
+const double = (value: number) =>
+  Array.from(new Uint8Array(new Float64Array([value]).buffer));
+const block = (type: number, body: number[]) => [
+  type,
+  ...u64(body.length + 8),
+  ...body,
+];
+
+// top.clk, top.data [3:0], top.sub.clk (an alias of top.clk) and top.mag
+const buildFST = () => {
+  const header = block(0, [
+    ...u64(0),
+    ...u64(20),
+    ...double(2.718281828459045),
+    ...u64(0),
+    ...u64(2),
+    ...u64(4),
+    ...u64(3),
+    ...u64(1),
+    -9 & 255,
+    ...padded("Icarus Verilog", 128),
+    ...padded("Mon Jan  1 00:00:00 2024", 119),
+    0,
+    ...u64(0),
+  ]);
+
+  const hierarchy = new Uint8Array([
+    ...[254, 0, ...text("top\0top\0")],
+    ...[16, 0, ...text("clk\0"), ...varint(1), ...varint(0)],
+    ...[16, 0, ...text("data [3:0]\0"), ...varint(4), ...varint(0)],
+    ...[254, 0, ...text("sub\0sub\0")],
+    ...[16, 0, ...text("clk\0"), ...varint(1), ...varint(1)],
+    255,
+    ...[3, 0, ...text("mag\0"), ...varint(8), ...varint(0)],
+    255,
+  ]);
+  const geometry = [1, 4, 0];
+
+  // Times 0, 5, 10 and 20; changes refer to them by index
+  const clk = [0, (1 << 2) | 2, 1 << 2, (1 << 4) | (1 << 1) | 1];
+  const data = [0, 0, 0b01010000, (2 << 1) | 1, ...text("x1x0")];
+  const mag = [0, 1 << 1, ...double(1.25)];
+  const chain = [(1 << 1) | 1, (clk.length << 1) | 1, (data.length << 1) | 1];
+  const frame = [...text("0xxxx"), ...double(0.5)];
+  const times = [0, 5, 5, 10];
+  const values = block(8, [
+    ...u64(0),
+    ...u64(20),
+    ...u64(0),
+    ...varint(frame.length),
+    ...varint(frame.length),
+    ...varint(3),
+    ...frame,
+    ...varint(3),
+    ...text("Z"),
+    ...clk,
+    ...data,
+    ...mag,
+    ...chain,
+    ...u64(chain.length),
+    ...times,
+    ...u64(times.length),
+    ...u64(times.length),
+    ...u64(times.length),
+  ]);
+
+  return new Uint8Array([
+    ...header,
+    ...values,
+    ...block(3, [...u64(geometry.length), ...u64(3), ...geometry]),
+    ...block(4, [
+      ...u64(hierarchy.length),
+      ...Array.from<number>(gzipSync(hierarchy)),
+    ]),
+  ]);
+};
+
+test("reads declarations and value changes from an FST file", () => {
+  const bytes = buildFST();
+  expect(isFST(bytes)).toBe(true);
+  expect(isFST(new Uint8Array(text("$date today $end")))).toBe(false);
+
+  const data = readFST(bytes);
+  expect(data.timeExponent).toBe(-9);
+  expect(data.endTime).toBe(20);
+  expect(data.version).toBe("Icarus Verilog");
+  expect(
+    data.signals.map(({ path, id, type, width, msb, lsb }) => ({
+      path,
+      id,
+      type,
+      width,
+      msb,
+      lsb,
+    })),
+  ).toEqual([
+    { path: "top.clk", id: "1", type: "wire", width: 1 },
+    { path: "top.data", id: "2", type: "wire", width: 4, msb: 3, lsb: 0 },
+    { path: "top.sub.clk", id: "1", type: "wire", width: 1 },
+    { path: "top.mag", id: "3", type: "real", width: 64 },
+  ]);
+
+  const [clk, bus, alias, mag] = data.signals;
+  expect(clk.wave).toEqual([
+    [0, "0"],
+    [5, "1"],
+    [10, "0"],
+    [20, "z"],
+  ]);
+  expect(alias.wave).toBe(clk.wave);
+  expect(bus.wave).toEqual([
+    [0, "0101"],
+    [10, "x1x0"],
+  ]);
+  expect(mag.wave).toEqual([
+    [0, "0.5"],
+    [5, "1.25"],
+  ]);
+});
+
+test("decompresses LZ4 and FastLZ blocks with overlapping matches", () => {
+  const expected = "abcabcabcd";
+  const decode = (bytes: Uint8Array) =>
+    String.fromCharCode(...Array.from(bytes));
+  const lz4 = new Uint8Array([0x32, ...text("abc"), 3, 0, 0x10, ...text("d")]);
+  expect(decode(lz4Block(lz4, 10))).toBe(expected);
+  // Literal run, match of 6 from distance 3, literal run
+  const level1 = [2, ...text("abc"), 0x80, 2, 0, ...text("d")];
+  expect(decode(fastlz(new Uint8Array(level1), 10))).toBe(expected);
+  const level2 = [0x22, ...level1.slice(1)];
+  expect(decode(fastlz(new Uint8Array(level2), 10))).toBe(expected);
+  expect(() => lz4Block(lz4, 12)).toThrow("Corrupt LZ4 block");
+});
@@ -0,0 +1,574 @@
+// utils/fstReader.ts
+import { gunzipSync, unzlibSync } from "fflate";
+import { fastlz, lz4Block } from "./decompress";
+import {
+  finishWave,
+  ParseProgress,
+  Signal,
+  splitRange,
+  uniquePath,
+  VCDData,
+} from "./vcdParser";
+
+// FST (GTKWave's "Fast Signal Trace") is a sequence of blocks, each a type
+// byte followed by a big-endian 64-bit length that counts itself.
+const BLOCK_HEADER = 0;
+const BLOCK_VALUES = 1;
+const BLOCK_GEOMETRY = 3;
+const BLOCK_HIERARCHY = 4;
+const BLOCK_VALUES_ALIAS = 5;
+const BLOCK_HIERARCHY_LZ4 = 6;
+const BLOCK_HIERARCHY_LZ4_DUO = 7;
+const BLOCK_VALUES_ALIAS2 = 8;
+// The whole file gzipped, as written by fstWriterSetPackType's wrapper mode
+const BLOCK_WRAPPER = 254;
+
+const HEADER_LENGTH = 329;
+
+// Hierarchy entries; any other tag is a variable of that var type
+const TAG_ATTR_BEGIN = 252;
+const TAG_ATTR_END = 253;
+const TAG_SCOPE = 254;
+const TAG_UPSCOPE = 255;
+
+const VAR_TYPES = [
+  "event",
+  "integer",
+  "parameter",
+  "real",
+  "real",
+  "reg",
+  "supply0",
+  "supply1",
+  "time",
+  "tri",
+  "triand",
+  "trior",
+  "trireg",
+  "tri0",
+  "tri1",
+  "wand",
+  "wire",
+  "wor",
+  "port",
+  "sparray",
+  "realtime",
+  "string",
+  "bit",
+  "logic",
+  "int",
+  "shortint",
+  "longint",
+  "byte",
+  "enum",
+  "shortreal",
+];
+
+// Scalar value codes other than 0 and 1
+const SCALAR_CODES = "xzhuwl-?";
+
+// Written natively by the simulator, so it tells the byte order of reals
+const ENDIAN_TEST = 2.718281828459045;
+
+export const isFST = (head: Uint8Array): boolean => {
+  if (head.length < 9) return false;
+  if (head[0] === BLOCK_WRAPPER) return true;
+  return head[0] === BLOCK_HEADER && readLength(head, 1) === HEADER_LENGTH;
+};
+
+const readLength = (bytes: Uint8Array, pos: number) => {
+  let value = 0;
+  for (let i = 0; i < 8; i++) value = value * 256 + bytes[pos + i];
+  return value;
+};
+
+class ByteReader {
+  constructor(
+    private bytes: Uint8Array,
+    public pos = 0,
+  ) {}
+
+  u8() {
+    return this.bytes[this.pos++];
+  }
+
+  u64() {
+    const value = readLength(this.bytes, this.pos);
+    this.pos += 8;
+    return value;
+  }
+
+  varint() {
+    let value = 0;
+    let scale = 1;
+    let byte;
+    do {
+      byte = this.bytes[this.pos++];
+      value += (byte & 0x7f) * scale;
+      scale *= 128;
+    } while (byte & 0x80);
+    return value;
+  }
+
+  signedVarint() {
+    let value = 0;
+    let scale = 1;
+    let byte;
+    do {
+      byte = this.bytes[this.pos++];
+      value += (byte & 0x7f) * scale;
+      scale *= 128;
+    } while (byte & 0x80);
+    return byte & 0x40 ? value - scale : value;
+  }
+
+  string() {
+    let end = this.pos;
+    while (end < this.bytes.length && this.bytes[end] !== 0) end++;
+    const text = latin1(this.bytes.subarray(this.pos, end));
+    this.pos = end + 1;
+    return text;
+  }
+
+  take(length: number) {
+    const bytes = this.bytes.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return bytes;
+  }
+}
+
+const latin1 = (bytes: Uint8Array) => {
+  let text = "";
+  for (let i = 0; i < bytes.length; i++) text += String.fromCharCode(bytes[i]);
+  return text;
+};
+
+// Zlib-compressed sections are stored as is when that is no smaller
+const inflate = (bytes: Uint8Array, size: number) =>
+  bytes.length === size ? bytes : unzlibSync(bytes);
+
+interface Header {
+  startTime: number;
+  endTime: number;
+  littleEndian: boolean;
+  exponent: number;
+  version: string;
+  date: string;
+}
+
+const readHeader = (bytes: Uint8Array, pos: number): Header => {
+  const reader = new ByteReader(bytes, pos + 8);
+  const startTime = reader.u64();
+  const endTime = reader.u64();
+  const view = new DataView(bytes.buffer, bytes.byteOffset + reader.pos, 8);
+  const littleEndian = view.getFloat64(0, true) === ENDIAN_TEST;
+  // Memory used by the writer, scope, var and handle counts, block count
+  reader.pos += 8 * 6;
+  const exponent = (reader.u8() << 24) >> 24;
+  const text = (length: number) =>
+    latin1(reader.take(length)).replace(/\0.*$/, "").trim();
+  const version = text(128);
+  const date = text(119);
+  return { startTime, endTime, littleEndian, exponent, version, date };
+};
+
+// Length of each handle's values in the frame: reals are 8-byte doubles
+const readGeometry = (bytes: Uint8Array, pos: number) => {
+  const reader = new ByteReader(bytes, pos);
+  const sectionLength = reader.u64();
+  const size = reader.u64();
+  const count = reader.u64();
+  const data = inflate(reader.take(sectionLength - 24), size);
+  const values = new ByteReader(data);
+  const lengths: number[] = [];
+  const reals: boolean[] = [];
+  for (let i = 0; i < count; i++) {
+    const length = values.varint();
+    reals.push(length === 0);
+    lengths.push(length === 0 ? 8 : length === 0xffffffff ? 0 : length);
+  }
+  return { lengths, reals };
+};
+
+const readHierarchy = (bytes: Uint8Array, pos: number, type: number) => {
+  const reader = new ByteReader(bytes, pos);
+  const sectionLength = reader.u64();
+  const size = reader.u64();
+  let data: Uint8Array;
+  if (type === BLOCK_HIERARCHY) {
+    data = gunzipSync(reader.take(sectionLength - 16));
+  } else if (type === BLOCK_HIERARCHY_LZ4) {
+    data = lz4Block(reader.take(sectionLength - 16), size);
+  } else {
+    // Compressed twice, with the intermediate size in between
+    const intermediate = reader.varint();
+    const rest = sectionLength - (reader.pos - pos);
+    data = lz4Block(lz4Block(reader.take(rest), intermediate), size);
+  }
+
+  const vars: {
+    name: string;
+    hierarchy: string[];
+    type: string;
+    length: number;
+    handle: number;
+  }[] = [];
+  const scope: string[] = [];
+  const entries = new ByteReader(data);
+  let handles = 0;
+  while (entries.pos < data.length) {
+    const tag = entries.u8();
+    if (tag === TAG_SCOPE) {
+      entries.u8();
+      scope.push(entries.string());
+      // Component (module) name
+      entries.string();
+    } else if (tag === TAG_UPSCOPE) {
+      scope.pop();
+    } else if (tag === TAG_ATTR_BEGIN) {
+      entries.u8();
+      entries.u8();
+      entries.string();
+      entries.varint();
+    } else if (tag !== TAG_ATTR_END) {
+      // Direction
+      entries.u8();
+      const name = entries.string();
+      const length = entries.varint();
+      const alias = entries.varint();
+      vars.push({
+        name,
+        hierarchy: [...scope],
+        type: VAR_TYPES[tag] ?? "wire",
+        length,
+        handle: alias || ++handles,
+      });
+    }
+  }
+  return vars;
+};
+
+/**
+ * Offsets of each handle's changes relative to the start of the block's
+ * value data, with their lengths. Handles without changes get offset 0;
+ * aliases share the data of an earlier handle.
+ */
+const readChain = (
+  chain: Uint8Array,
+  count: number,
+  dataLength: number,
+  signed: boolean,
+) => {
+  const offsets: number[] = [];
+  const lengths: number[] = [];
+  const reader = new ByteReader(chain);
+  let previous = -1;
+  let offset = 0;
+  let alias = 0;
+  const addOffset = (delta: number) => {
+    offset += delta;
+    if (previous >= 0) lengths[previous] = offset - offsets[previous];
+    previous = offsets.length;
+    offsets.push(offset);
+    lengths.push(0);
+  };
+  const addAlias = (handle: number) => {
+    offsets.push(0);
+    lengths.push(-handle);
+  };
+  const skip = (n: number) => {
+    for (let i = 0; i < n; i++) {
+      offsets.push(0);
+      lengths.push(0);
+    }
+  };
+
+  while (reader.pos < chain.length) {
+    if (signed) {
+      if (chain[reader.pos] & 1) {
+        const value = Math.floor(reader.signedVarint() / 2);
+        if (value > 0) {
+          addOffset(value);
+        } else {
+          // Zero repeats the previous alias
+          if (value < 0) alias = -value;
+          addAlias(alias);
+        }
+      } else {
+        skip(Math.floor(reader.varint() / 2));
+      }
+    } else {
+      const value = reader.varint();
+      if (value === 0) {
+        addAlias(reader.varint());
+      } else if (value & 1) {
+        addOffset(Math.floor(value / 2));
+      } else {
+        skip(value / 2);
+      }
+    }
+  }
+  if (previous >= 0) lengths[previous] = dataLength - offsets[previous];
+
+  for (let i = 0; i < offsets.length && i < count; i++) {
+    if (offsets[i] === 0 && lengths[i] < 0) {
+      const target = -lengths[i] - 1;
+      if (target < i) {
+        offsets[i] = offsets[target];
+        lengths[i] = lengths[target];
+      }
+    }
+  }
+  return { offsets, lengths };
+};
+
+interface Traces {
+  lengths: number[];
+  reals: boolean[];
+  waves: ([number, string][] | undefined)[];
+  littleEndian: boolean;
+}
+
+// A change at the same time as the previous one replaces it
+const setValue = (wave: [number, string][], time: number, value: string) => {
+  const last = wave[wave.length - 1];
+  if (last && last[0] === time) last[1] = value;
+  else wave.push([time, value]);
+};
+
+const readDouble = (bytes: Uint8Array, pos: number, littleEndian: boolean) =>
+  String(
+    new DataView(bytes.buffer, bytes.byteOffset + pos, 8).getFloat64(
+      0,
+      littleEndian,
+    ),
+  );
+
+const readValueBlock = (
+  bytes: Uint8Array,
+  pos: number,
+  type: number,
+  traces: Traces,
+) => {
+  const { lengths, reals, waves, littleEndian } = traces;
+  const reader = new ByteReader(bytes, pos);
+  const sectionLength = reader.u64();
+  const startTime = reader.u64();
+  reader.u64();
+  // Memory needed to traverse the block
+  reader.u64();
+
+  // Time table at the very end of the block
+  const tail = new ByteReader(bytes, pos + sectionLength - 24);
+  const timeSize = tail.u64();
+  const timeLength = tail.u64();
+  const timeCount = tail.u64();
+  const timeStart = pos + sectionLength - 24 - timeLength;
+  const timeData = new ByteReader(
+    inflate(bytes.subarray(timeStart, timeStart + timeLength), timeSize),
+  );
+  const times: number[] = [];
+  let time = 0;
+  for (let i = 0; i < timeCount; i++) {
+    time += timeData.varint();
+    times.push(time);
+  }
+
+  // Values of every handle at the start of the block
+  const frameSize = reader.varint();
+  const frameLength = reader.varint();
+  const frameCount = reader.varint();
+  const frame = inflate(reader.take(frameLength), frameSize);
+  let offset = 0;
+  for (let i = 0; i < frameCount; i++) {
+    const length = lengths[i] ?? 0;
+    const wave = waves[i];
+    if (wave && length > 0) {
+      const value = reals[i]
+        ? readDouble(frame, offset, littleEndian)
+        : latin1(frame.subarray(offset, offset + length));
+      const last = wave[wave.length - 1];
+      if (!last || last[1] !== value) setValue(wave, startTime, value);
+    }
+    offset += length;
+  }
+
+  const count = reader.varint();
+  const dataStart = reader.pos;
+  const packType = String.fromCharCode(bytes[dataStart]);
+  const chainEnd = timeStart - 8;
+  const chainLength = readLength(bytes, chainEnd);
+  const chainStart = chainEnd - chainLength;
+  const chain = readChain(
+    bytes.subarray(chainStart, chainEnd),
+    count,
+    chainStart - dataStart,
+    type === BLOCK_VALUES_ALIAS2,
+  );
+
+  for (let i = 0; i < count; i++) {
+    const wave = waves[i];
+    const length = lengths[i] ?? 0;
+    const start = dataStart + chain.offsets[i];
+    if (!wave || length === 0 || chain.offsets[i] === 0) continue;
+
+    const entry = new ByteReader(bytes, start);
+    const size = entry.varint();
+    const packed = bytes.subarray(entry.pos, start + chain.lengths[i]);
+    // A zero size means the changes are stored uncompressed
+    const data =
+      size === 0
+        ? packed
+        : packType === "4"
+          ? lz4Block(packed, size)
+          : packType === "F"
+            ? fastlz(packed, size)
+            : unzlibSync(packed);
+
+    const changes = new ByteReader(data);
+    let index = 0;
+    while (changes.pos < data.length) {
+      const code = changes.varint();
+      let value: string;
+      if (length === 1 && !reals[i]) {
+        // Scalars pack the value into the time delta
+        index += code & 1 ? Math.floor(code / 16) : Math.floor(code / 4);
+        value =
+          code & 1 ? SCALAR_CODES[(code >> 1) & 7] : String((code >> 1) & 1);
+      } else {
+        index += Math.floor(code / 2);
+        if (reals[i]) {
+          value = readDouble(data, changes.pos, littleEndian);
+          changes.pos += 8;
+        } else if (code & 1) {
+          value = latin1(changes.take(length));
+        } else {
+          // Two-state vectors are bit-packed, MSB first
+          const packedBits = changes.take((length + 7) >> 3);
+          value = "";
+          for (let bit = 0; bit < length; bit++) {
+            value += (packedBits[bit >> 3] >> (7 - (bit & 7))) & 1;
+          }
+        }
+      }
+      setValue(wave, times[index], value);
+    }
+  }
+};
+
+/**
+ * Read an FST file into the same model the VCD parser produces. Blocks are
+ * decoded in memory, so the whole stream is read up front.
+ */
+export const parseFST = async (
+  stream: ReadableStream<Uint8Array>,
+  onProgress?: (progress: ParseProgress) => void,
+): Promise<VCDData> => {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  const bytes = new Uint8Array(size);
+  chunks.reduce((offset, chunk) => {
+    bytes.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return readFST(bytes, onProgress);
+};
+
+export const readFST = (
+  bytes: Uint8Array,
+  onProgress?: (progress: ParseProgress) => void,
+): VCDData => {
+  if (bytes[0] === BLOCK_WRAPPER) {
+    return readFST(gunzipSync(bytes.subarray(17)), onProgress);
+  }
+
+  // The hierarchy usually comes last, so locate all blocks first
+  const blocks: { type: number; pos: number }[] = [];
+  for (let pos = 0; pos + 9 <= bytes.length;) {
+    const length = readLength(bytes, pos + 1);
+    if (length < 8 || pos + 1 + length > bytes.length) break;
+    blocks.push({ type: bytes[pos], pos: pos + 1 });
+    pos += 1 + length;
+  }
+  const find = (types: number[]) =>
+    blocks.find((block) => types.includes(block.type));
+
+  const headerBlock = find([BLOCK_HEADER]);
+  const geometryBlock = find([BLOCK_GEOMETRY]);
+  const hierarchyBlock = find([
+    BLOCK_HIERARCHY,
+    BLOCK_HIERARCHY_LZ4,
+    BLOCK_HIERARCHY_LZ4_DUO,
+  ]);
+  if (!headerBlock || !geometryBlock || !hierarchyBlock) {
+    throw new Error("Incomplete FST file");
+  }
+
+  const header = readHeader(bytes, headerBlock.pos);
+  const { lengths, reals } = readGeometry(bytes, geometryBlock.pos);
+  const vars = readHierarchy(bytes, hierarchyBlock.pos, hierarchyBlock.type);
+
+  const waves: ([number, string][] | undefined)[] = [];
+  const paths = new Set<string>();
+  const signals: Signal[] = [];
+  vars.forEach((v) => {
+    const index = v.handle - 1;
+    // Variable-length strings aren't supported
+    if (!lengths[index]) return;
+    const wave = waves[index] ?? (waves[index] = []);
+    // Names carry their range after a space, e.g. "data [7:0]"
+    const [reference, ...range] = v.name.split(" ");
+    const { name, msb, lsb } = splitRange(reference, range.join(""));
+    signals.push({
+      name,
+      path: uniquePath(paths, [...v.hierarchy, name].join(".")),
+      id: String(v.handle),
+      type: v.type,
+      width: reals[index] ? 64 : lengths[index],
+      msb,
+      lsb,
+      wave,
+      hierarchy: v.hierarchy,
+    });
+  });
+
+  const traces = { lengths, reals, waves, littleEndian: header.littleEndian };
+  blocks.forEach(({ type, pos }) => {
+    if (
+      type === BLOCK_VALUES ||
+      type === BLOCK_VALUES_ALIAS ||
+      type === BLOCK_VALUES_ALIAS2
+    ) {
+      readValueBlock(bytes, pos, type, traces);
+      onProgress?.({ bytesRead: pos, totalBytes: bytes.length });
+    }
+  });
+  onProgress?.({ bytesRead: bytes.length, totalBytes: bytes.length });
+
+  signals.forEach((signal) => {
+    if (waves[Number(signal.id) - 1] === signal.wave) {
+      finishWave(signal);
+      // Each shared wave is finished once
+      waves[Number(signal.id) - 1] = undefined;
+    }
+  });
+
+  const timescale = Math.pow(10, -header.exponent);
+  return {
+    signals,
+    timescale,
+    timeExponent: header.exponent,
+    maxCycles: Math.ceil(header.endTime / timescale),
+    endTime: header.endTime,
+    date: header.date || undefined,
+    version: header.version || undefined,
+    comments: [],
+  };
+};
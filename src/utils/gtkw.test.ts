@@ -0,0 +1,75 @@
+import { importGtkw } from "./gtkw";
+import { parseSession } from "./session";
+import { Signal } from "./vcdParser";
+import { signalItem } from "./displayList";
+
+const signal = (path: string, width: number): Signal => ({
+  name: path.split(".").pop() as string,
+  path,
+  id: path,
+  type: "wire",
+  width,
+  wave: [],
+});
+
+const GTKW = `[*]
+[*] GTKWave Analyzer v3.3.104 (w)1999-2020 BSI
+[*]
+[dumpfile] "/tmp/sim.vcd"
+[timestart] 0
+[size] 1000 600
+*-19.000000 250 -1 1200 -1 -1 -1 -1 -1 -1 -1 -1 -1 -1 -1 -1 -1 -1 -1 -1 -1 -1 -1 -1 -1 -1 -1
+[treeopen] top.
+@28
+top.clk
+@22
+[color] 3
+top.cpu.pc[31:0]
+@8024
+top.cpu.acc[7:0]
+@200
+-Control
+@800200
+-CPU
+@28
+top.cpu.clk
+@1000200
+-CPU
+top.gone
+`;
+
+test("imports traces, formats, colors and markers from a .gtkw file", () => {
+  const { session, missing } = importGtkw(GTKW, [
+    signal("top.clk", 1),
+    signal("top.cpu.pc", 32),
+    signal("top.cpu.acc", 8),
+    signal("top.cpu.clk", 1),
+  ]);
+  const group = session.displayed[4].key;
+  expect(session.displayed).toEqual([
+    signalItem("top.clk"),
+    signalItem("top.cpu.pc"),
+    signalItem("top.cpu.acc"),
+    { kind: "separator", key: expect.any(String), label: "Control" },
+    { kind: "group", key: group, label: "CPU", collapsed: false },
+    { ...signalItem("top.cpu.clk"), group },
+  ]);
+  expect(session.formats["top.cpu.pc"]).toBeUndefined();
+  expect(session.colors["top.cpu.pc"]).toBe("#fdd835");
+  expect(session.formats["top.cpu.acc"]).toEqual({ radix: "unsigned" });
+  expect(session.analog["top.cpu.acc"]).toEqual({
+    style: "step",
+    signed: false,
+  });
+  expect(session.primaryCursor).toBe(250);
+  expect(session.markers).toEqual([{ id: 2, name: "B", time: 1200 }]);
+  expect(missing).toEqual(["top.gone"]);
+});
+
+test("fills defaults into partial session files", () => {
+  const session = parseSession('{"displayed": ["top.clk"], "zoom": 4}');
+  expect(session.displayed).toEqual([signalItem("top.clk")]);
+  expect(session.zoom).toBe(4);
+  expect(session.markers).toEqual([]);
+  expect(() => parseSession("{}")).toThrow("Not a waveform session file");
+});
@@ -0,0 +1,136 @@
+// utils/gtkw.ts
+import { Signal } from "./vcdParser";
+import { ValueFormat } from "./radix";
+import { emptySession, SIGNAL_COLORS, ViewSession } from "./session";
+import { newItemKey } from "./displayList";
+
+// Trace flags GTKWave writes on `@<hex>` lines (see its analyzer.h)
+const TR_HEX = 0x2;
+const TR_DEC = 0x4;
+const TR_BIN = 0x8;
+const TR_OCT = 0x10;
+const TR_SIGNED = 0x400;
+const TR_ASCII = 0x800;
+const TR_ANALOG_STEP = 0x8000;
+const TR_ANALOG_INTERPOLATED = 0x10000;
+const TR_CLOSED = 0x400000;
+const TR_GRP_BEGIN = 0x800000;
+const TR_GRP_END = 0x1000000;
+
+const formatFromFlags = (flags: number): ValueFormat => {
+  if (flags & TR_BIN) return { radix: "binary" };
+  if (flags & TR_OCT) return { radix: "octal" };
+  if (flags & TR_ASCII) return { radix: "ascii" };
+  if (flags & TR_DEC) {
+    return { radix: flags & TR_SIGNED ? "signed" : "unsigned" };
+  }
+  return { radix: "hex" };
+};
+
+/**
+ * Best-effort import of a GTKWave `.gtkw` save file: the traces it lists
+ * (matched to `signals` by path), their radix, analog mode and color, and
+ * comment traces and groups, and the primary cursor and named markers.
+ * Nested groups are flattened. Anything unrecognised is skipped;
+ * `missing` lists trace names that didn't match a signal.
+ */
+export const importGtkw = (
+  text: string,
+  signals: Signal[],
+): { session: ViewSession; missing: string[] } => {
+  const session = emptySession();
+  const missing: string[] = [];
+  const byPath = new Map(signals.map((signal) => [signal.path, signal]));
+  let flags = TR_HEX;
+  let color: string | undefined;
+  let group: string | undefined;
+
+  const resolve = (name: string) =>
+    byPath.get(name) ?? byPath.get(name.replace(/\[[^\]]*\]$/, ""));
+
+  text.split(/\r?\n/).forEach((raw) => {
+    const line = raw.trim();
+    // "[*]" lines are comments
+    if (!line || line.startsWith("[*]")) return;
+
+    // *<zoom> <cursor> <marker A> ... <marker Z>; -1 means unset
+    if (line.startsWith("*")) {
+      const [, cursor, ...named] = line.substring(1).split(/\s+/).map(Number);
+      if (cursor >= 0) session.primaryCursor = cursor;
+      named.slice(0, 26).forEach((time, i) => {
+        if (time >= 0) {
+          session.markers.push({
+            id: i + 1,
+            name: String.fromCharCode(65 + i),
+            time,
+          });
+        }
+      });
+      return;
+    }
+    if (line.startsWith("@")) {
+      flags = parseInt(line.substring(1), 16) || 0;
+      return;
+    }
+    const directive = line.match(/^\[(\w+)\]\s*(.*)$/);
+    if (directive) {
+      const [, name, value] = directive;
+      if (name === "color") {
+        const index = parseInt(value);
+        color = index > 0 ? SIGNAL_COLORS[index - 1] : undefined;
+      }
+      return;
+    }
+    // "-<label>" is a comment trace, or a group's start or end
+    if (line.startsWith("-")) {
+      const label = line.substring(1);
+      if (flags & TR_GRP_BEGIN) {
+        group = newItemKey("group");
+        session.displayed.push({
+          kind: "group",
+          key: group,
+          label,
+          collapsed: !!(flags & TR_CLOSED),
+        });
+      } else if (flags & TR_GRP_END) {
+        group = undefined;
+      } else {
+        session.displayed.push({
+          kind: "separator",
+          key: newItemKey("separator"),
+          label,
+          group,
+        });
+      }
+      return;
+    }
+    // Concatenated vectors aren't supported
+    if (line.startsWith("#")) return;
+
+    const signal = resolve(line);
+    if (!signal) {
+      missing.push(line);
+      return;
+    }
+    if (session.displayed.some((item) => item.key === signal.path)) return;
+    session.displayed.push({
+      kind: "signal",
+      key: signal.path,
+      path: signal.path,
+      group,
+    });
+    const format = formatFromFlags(flags);
+    if (format.radix !== "hex") session.formats[signal.path] = format;
+    if (flags & (TR_ANALOG_STEP | TR_ANALOG_INTERPOLATED)) {
+      session.analog[signal.path] = {
+        style: flags & TR_ANALOG_INTERPOLATED ? "linear" : "step",
+        signed: !!(flags & TR_SIGNED),
+      };
+    }
+    // A [color] line only applies to the trace right after it
+    if (color) session.colors[signal.path] = color;
+    color = undefined;
+  });
+
+  return { session, missing };
+};
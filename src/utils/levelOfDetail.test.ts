@@ -0,0 +1,105 @@
+import {
+  analogSegments,
+  HIGH,
+  LOW,
+  rangeExtent,
+  rangeFlags,
+  UNKNOWN,
+  waveSegments,
+} from "./levelOfDetail";
+
+test("merges changes closer than a pixel into dense blocks", () => {
+  const wave: [number, string][] = [[0, "0"]];
+  // A burst of toggles every time unit from 100 to 199
+  for (let t = 100; t < 200; t++) wave.push([t, t % 2 ? "1" : "0"]);
+  wave.push([200, "x"], [300, "1"]);
+
+  expect(waveSegments(wave, 0, 400, 4)).toEqual([
+    { start: 0, end: 100, value: "0" },
+    { start: 100, end: 200, flags: LOW | HIGH },
+    { start: 200, end: 300, value: "x" },
+    { start: 300, end: Infinity, value: "1" },
+  ]);
+  // Zoomed in, every change is drawn, starting with the one in effect
+  const segments = waveSegments(wave, 150.5, 153, 0.1);
+  expect(segments.map((segment) => segment.start)).toEqual([
+    150, 151, 152, 153,
+  ]);
+  // Zoomed far out, one block covers everything up to the last value
+  expect(waveSegments(wave, 0, 400, 500)).toEqual([
+    { start: 0, end: 300, flags: LOW | HIGH | UNKNOWN },
+    { start: 300, end: Infinity, value: "1" },
+  ]);
+});
+
+test("summarizes long ranges in few steps", () => {
+  const wave: [number, string][] = [];
+  for (let t = 0; t < 100000; t++) wave.push([t, t === 54321 ? "x" : "1"]);
+  expect(rangeFlags(wave, 0, wave.length)).toBe(HIGH | UNKNOWN);
+  expect(rangeFlags(wave, 54322, 99999)).toBe(HIGH);
+  expect(rangeFlags(wave, 17, 54322)).toBe(HIGH | UNKNOWN);
+  expect(rangeFlags(wave, 54321, 54322)).toBe(UNKNOWN);
+
+  // Appended changes are picked up
+  wave.push([100000, "0"]);
+  expect(rangeFlags(wave, 99999, 100001)).toBe(HIGH | LOW);
+});
+
+test("keeps the extent of changes merged into a pixel column", () => {
+  const toNumber = (value: string) =>
+    /^[01]+$/.test(value) ? parseInt(value, 2) : null;
+  const wave: [number, string][] = [[0, "0000"]];
+  // A ramp from 0 to 15 with one change per time unit, from 100 to 115
+  for (let t = 100; t < 116; t++) wave.push([t, (t - 100).toString(2)]);
+  wave.push([116, "xxxx"], [120, "0011"], [200, "0001"]);
+
+  expect(analogSegments(wave, 0, 150, 4, "binary", toNumber)).toEqual([
+    { start: 0, end: 100, value: 0 },
+    { start: 100, end: 104, min: 0, max: 3, unknown: false },
+    { start: 104, end: 108, min: 4, max: 7, unknown: false },
+    { start: 108, end: 112, min: 8, max: 11, unknown: false },
+    { start: 112, end: 116, min: 12, max: 15, unknown: false },
+    { start: 116, end: 120, value: null },
+    { start: 120, end: 200, value: 3 },
+    // The next change, for lines interpolated to the edge
+    { start: 200, end: Infinity, value: 1 },
+  ]);
+  // Unknown values are flagged, not part of the extent
+  expect(analogSegments(wave, 110, 130, 8, "binary", toNumber)).toEqual([
+    { start: 110, end: 116, min: 10, max: 15, unknown: false },
+    { start: 116, end: 120, min: Infinity, max: -Infinity, unknown: true },
+    { start: 120, end: 200, value: 3 },
+    { start: 200, end: Infinity, value: 1 },
+  ]);
+});
+
+test("summarizes the extent of long ranges in few steps", () => {
+  const wave: [number, string][] = [];
+  for (let t = 0; t < 100000; t++) {
+    wave.push([t, t === 54321 ? "x" : String(Math.round(100 * Math.sin(t)))]);
+  }
+  const toNumber = (value: string) =>
+    value === "x" ? null : parseFloat(value);
+  expect(rangeExtent(wave, 0, wave.length, "real", toNumber)).toEqual({
+    min: -100,
+    max: 100,
+    unknown: true,
+  });
+  expect(rangeExtent(wave, 54322, 99999, "real", toNumber).unknown).toBe(false);
+  expect(rangeExtent(wave, 54321, 54322, "real", toNumber)).toEqual({
+    min: Infinity,
+    max: -Infinity,
+    unknown: true,
+  });
+
+  // Appended changes are picked up, and another conversion rebuilds
+  wave.push([100000, "1000"]);
+  expect(rangeExtent(wave, 99999, 100001, "real", toNumber).max).toBe(1000);
+  const halved = (value: string) =>
+    value === "x" ? null : parseFloat(value) / 2;
+  expect(rangeExtent(wave, 0, wave.length, "halved", halved)).toEqual({
+    min: -50,
+    max: 500,
+    unknown: true,
+  });
+});
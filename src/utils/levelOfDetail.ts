@@ -0,0 +1,246 @@
+// utils/levelOfDetail.ts
+import { changeIndexAt } from "./cursors";
+
+type Wave = [number, string][];
+
+// What the values of a run of changes were, OR-ed together
+export const LOW = 1;
+export const HIGH = 2;
+export const UNKNOWN = 4;
+
+// Each summary level holds one entry per FANOUT entries of the level below
+const FANOUT = 16;
+
+interface Summary {
+  // Wave length the summary was built for; watched files append changes
+  length: number;
+  levels: Uint8Array[];
+}
+
+const summaries = new WeakMap<Wave, Summary>();
+
+const valueFlags = (value: string) =>
+  /^[xz]+$/i.test(value) ? UNKNOWN : /^0+$/.test(value) ? LOW : HIGH;
+
+// Per-change flags and coarser levels above them, built once per wave
+const summaryOf = (wave: Wave): Summary => {
+  const cached = summaries.get(wave);
+  if (cached && cached.length === wave.length) return cached;
+
+  const base = new Uint8Array(wave.length);
+  wave.forEach(([, value], i) => (base[i] = valueFlags(value)));
+  const levels = [base];
+  let below = base;
+  while (below.length > FANOUT) {
+    const level = new Uint8Array(Math.ceil(below.length / FANOUT));
+    below.forEach((flags, i) => (level[(i / FANOUT) | 0] |= flags));
+    levels.push(level);
+    below = level;
+  }
+  const summary = { length: wave.length, levels };
+  summaries.set(wave, summary);
+  return summary;
+};
+
+// Visit the entries of `levels` that together cover the changes with
+// indices in [from, to), O(log n) of them
+const coverRange = (
+  levels: number,
+  from: number,
+  to: number,
+  visit: (level: number, i: number) => void,
+) => {
+  for (let level = 0; from < to; level++) {
+    if (level === levels - 1 || to - from <= 2 * FANOUT) {
+      for (let i = from; i < to; i++) visit(level, i);
+      break;
+    }
+    for (; from % FANOUT !== 0; from++) visit(level, from);
+    for (; to % FANOUT !== 0; to--) visit(level, to - 1);
+    from /= FANOUT;
+    to /= FANOUT;
+  }
+};
+
+// Flags of the changes with indices in [from, to), in O(log n)
+export const rangeFlags = (wave: Wave, from: number, to: number): number => {
+  const { levels } = summaryOf(wave);
+  let flags = 0;
+  coverRange(levels.length, from, to, (level, i) => {
+    flags |= levels[level][i];
+  });
+  return flags;
+};
+
+// Number a value plots as on an analog row; null when it has x or z bits
+export type ToNumber = (value: string) => number | null;
+
+interface Envelope {
+  length: number;
+  // Names the conversion to numbers the envelope was built with
+  key: string;
+  // Per level, the least and greatest known value of each run of changes,
+  // and whether any was unknown
+  mins: Float64Array[];
+  maxs: Float64Array[];
+  unknown: Uint8Array[];
+}
+
+const envelopes = new WeakMap<Wave, Envelope>();
+
+const envelopeOf = (wave: Wave, key: string, toNumber: ToNumber) => {
+  const cached = envelopes.get(wave);
+  if (cached && cached.length === wave.length && cached.key === key) {
+    return cached;
+  }
+
+  let mins = new Float64Array(wave.length);
+  let maxs = new Float64Array(wave.length);
+  let unknown = new Uint8Array(wave.length);
+  wave.forEach(([, value], i) => {
+    const number = toNumber(value);
+    mins[i] = number ?? Infinity;
+    maxs[i] = number ?? -Infinity;
+    unknown[i] = number === null ? 1 : 0;
+  });
+  const envelope = {
+    length: wave.length,
+    key,
+    mins: [mins],
+    maxs: [maxs],
+    unknown: [unknown],
+  };
+  while (mins.length > FANOUT) {
+    const size = Math.ceil(mins.length / FANOUT);
+    const levelMins = new Float64Array(size).fill(Infinity);
+    const levelMaxs = new Float64Array(size).fill(-Infinity);
+    const levelUnknown = new Uint8Array(size);
+    for (let i = 0; i < mins.length; i++) {
+      const entry = (i / FANOUT) | 0;
+      levelMins[entry] = Math.min(levelMins[entry], mins[i]);
+      levelMaxs[entry] = Math.max(levelMaxs[entry], maxs[i]);
+      levelUnknown[entry] |= unknown[i];
+    }
+    envelope.mins.push((mins = levelMins));
+    envelope.maxs.push((maxs = levelMaxs));
+    envelope.unknown.push((unknown = levelUnknown));
+  }
+  envelopes.set(wave, envelope);
+  return envelope;
+};
+
+/**
+ * Least and greatest known value of the changes with indices in
+ * [from, to), in O(log n). `key` names the conversion, e.g. the row's
+ * format, so the envelope is rebuilt when it changes. With no known value,
+ * min is Infinity and max -Infinity.
+ */
+export const rangeExtent = (
+  wave: Wave,
+  from: number,
+  to: number,
+  key: string,
+  toNumber: ToNumber,
+): { min: number; max: number; unknown: boolean } => {
+  const { mins, maxs, unknown } = envelopeOf(wave, key, toNumber);
+  let min = Infinity;
+  let max = -Infinity;
+  let anyUnknown = 0;
+  coverRange(mins.length, from, to, (level, i) => {
+    min = Math.min(min, mins[level][i]);
+    max = Math.max(max, maxs[level][i]);
+    anyUnknown |= unknown[level][i];
+  });
+  return { min, max, unknown: anyUnknown === 1 };
+};
+
+// A value held from `start` until `end`, or several changes too close
+// together to tell apart, with their flags
+export type WaveSegment =
+  | { start: number; end: number; value: string }
+  | { start: number; end: number; flags: number };
+
+/**
+ * The segments of a wave that show between `from` and `to` when one pixel
+ * spans `pixel` time units. Values lasting less than a pixel merge into
+ * dense blocks, so the work depends on the width in pixels rather than on
+ * the number of changes. The last segment ends at Infinity.
+ */
+export const waveSegments = (
+  wave: Wave,
+  from: number,
+  to: number,
+  pixel: number,
+): WaveSegment[] => {
+  const segments: WaveSegment[] = [];
+  let i = Math.max(0, changeIndexAt(wave, from));
+  while (i < wave.length && wave[i][0] <= to) {
+    const start = wave[i][0];
+    const end = wave[i + 1]?.[0] ?? Infinity;
+    if (end - start >= pixel) {
+      segments.push({ start, end, value: wave[i][1] });
+      i++;
+      continue;
+    }
+    // Skip a pixel at a time until a value lasts longer than one. Every
+    // two steps advance by at least a pixel.
+    let j = i + 1;
+    while (j < wave.length && wave[j][0] <= to) {
+      const next = changeIndexAt(wave, wave[j][0] + pixel);
+      if (next === j) break;
+      j = next;
+    }
+    segments.push({
+      start,
+      end: wave[j]?.[0] ?? Infinity,
+      flags: rangeFlags(wave, i, j),
+    });
+    i = j;
+  }
+  return segments;
+};
+
+// A value held from `start` until `end`, or the range of values taken by
+// changes within one pixel column
+export type AnalogSegment =
+  | { start: number; end: number; value: number | null }
+  | { start: number; end: number; min: number; max: number; unknown: boolean };
+
+/**
+ * The segments of an analog row between `from` and `to`, like
+ * `waveSegments`. Changes closer together than a pixel merge into one
+ * min-max range per pixel column, which keeps the outline of a dense
+ * wave. Ends with the first change after `to`, which interpolated lines
+ * head for.
+ */
+export const analogSegments = (
+  wave: Wave,
+  from: number,
+  to: number,
+  pixel: number,
+  key: string,
+  toNumber: ToNumber,
+): AnalogSegment[] => {
+  const segments: AnalogSegment[] = [];
+  let i = Math.max(0, changeIndexAt(wave, from));
+  while (i < wave.length) {
+    const start = wave[i][0];
+    const end = wave[i + 1]?.[0] ?? Infinity;
+    if (end - start >= pixel || start > to) {
+      segments.push({ start, end, value: toNumber(wave[i][1]) });
+      if (start > to) break;
+      i++;
+      continue;
+    }
+    // Up to the last change within a pixel of this one. The next segment
+    // then lasts past that pixel, so every two advance by at least one.
+    const j = changeIndexAt(wave, start + pixel);
+    segments.push({
+      start,
+      end: wave[j][0],
+      ...rangeExtent(wave, i, j, key, toNumber),
+    });
+    i = j;
+  }
+  return segments;
+};
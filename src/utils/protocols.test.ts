@@ -0,0 +1,200 @@
+import { DecoderConfig, decodeProtocol } from "./protocols";
+import { parseVCD } from "./vcdParser";
+
+const decode = async (
+  vcd: string,
+  protocol: string,
+  inputs: Record<string, string>,
+  options: Record<string, number> = {},
+) => {
+  const data = await parseVCD(vcd);
+  const config: DecoderConfig = { protocol, inputs, options };
+  return decodeProtocol(
+    config,
+    (path) => data.signals.find((signal) => signal.path === path)?.wave,
+    Math.pow(10, data.timeExponent ?? 0),
+  );
+};
+
+test("decodes UART frames and flags framing errors", async () => {
+  // 100 kBd, so one bit lasts 10 us: 'A', then 0x00 with a low stop bit
+  const vcd = `$timescale 1us $end
+$scope module top $end
+$var wire 1 ! tx $end
+$upscope $end
+$enddefinitions $end
+#0 1!
+#100 0!
+#110 1!
+#120 0!
+#170 1!
+#180 0!
+#190 1!
+#300 0!
+#400 1!
+`;
+  expect(await decode(vcd, "uart", { line: "top.tx" }, { baud: 1e5 })).toEqual([
+    { start: 100, end: 200, label: "0x41 'A'", error: false },
+    { start: 300, end: 400, label: "0x00", error: true },
+  ]);
+  expect(await decode(vcd, "uart", {})).toBeNull();
+});
+
+test("decodes SPI words per chip-select frame", async () => {
+  // Mode 0, 4-bit words: MOSI sends A 5, MISO answers 3 C, then a frame
+  // cut off after two bits
+  const vcd = `$timescale 1ns $end
+$scope module top $end
+$var wire 1 ! sclk $end
+$var wire 1 " mosi $end
+$var wire 1 $ miso $end
+$var wire 1 # cs_n $end
+$upscope $end
+$enddefinitions $end
+#0 0! 0" 0$ 1#
+#5 0# 1"
+#10 1!
+#15 0! 0"
+#20 1!
+#25 0! 1" 1$
+#30 1!
+#35 0! 0"
+#40 1!
+#45 0!
+#50 1!
+#55 0! 1"
+#60 1!
+#65 0! 0" 0$
+#70 1!
+#75 0! 1"
+#80 1!
+#85 0!
+#90 1#
+#100 0#
+#110 1!
+#115 0!
+#120 1!
+#125 0!
+#130 1#
+`;
+  const inputs = {
+    sclk: "top.sclk",
+    mosi: "top.mosi",
+    miso: "top.miso",
+    cs: "top.cs_n",
+  };
+  expect(await decode(vcd, "spi", inputs, { bits: 4 })).toEqual([
+    { start: 5, end: 45, label: "MOSI 0xA MISO 0x3", error: false },
+    { start: 45, end: 85, label: "MOSI 0x5 MISO 0xC", error: false },
+    { start: 100, end: 125, label: "2 bits", error: true },
+  ]);
+});
+
+test("decodes I2C conditions, addresses and data bytes", async () => {
+  // Write of 0xA5 to device 0x50, both acknowledged
+  const vcd = `$timescale 1us $end
+$scope module top $end
+$var wire 1 ! scl $end
+$var wire 1 " sda $end
+$upscope $end
+$enddefinitions $end
+#0 1! 1"
+#10 0"
+#15 0!
+#22 1"
+#25 1!
+#30 0!
+#32 0"
+#35 1!
+#40 0!
+#42 1"
+#45 1!
+#50 0!
+#52 0"
+#55 1!
+#60 0!
+#65 1!
+#70 0!
+#75 1!
+#80 0!
+#85 1!
+#90 0!
+#95 1!
+#100 0!
+#105 1!
+#110 0!
+#112 1"
+#115 1!
+#120 0!
+#122 0"
+#125 1!
+#130 0!
+#132 1"
+#135 1!
+#140 0!
+#142 0"
+#145 1!
+#150 0!
+#155 1!
+#160 0!
+#162 1"
+#165 1!
+#170 0!
+#172 0"
+#175 1!
+#180 0!
+#182 1"
+#185 1!
+#190 0!
+#192 0"
+#195 1!
+#200 0!
+#210 1!
+#215 1"
+`;
+  expect(await decode(vcd, "i2c", { scl: "top.scl", sda: "top.sda" })).toEqual([
+    { start: 10, end: 10, label: "S" },
+    { start: 15, end: 110, label: "0x50 W ACK", error: false },
+    { start: 110, end: 200, label: "0xA5 ACK", error: false },
+    { start: 215, end: 215, label: "P" },
+  ]);
+});
+
+test("decodes valid/ready transfers, skipping stalled cycles", async () => {
+  const vcd = `$timescale 1ns $end
+$scope module top $end
+$var wire 1 ! clk $end
+$var wire 1 " valid $end
+$var wire 1 # ready $end
+$var wire 1 % last $end
+$var wire 8 $ data [7:0] $end
+$upscope $end
+$enddefinitions $end
+#0 0! 0" 1# 0% b0 $
+#5 1!
+#8 1" b00010010 $
+#10 0!
+#15 1!
+#18 0# 1% b00110100 $
+#20 0!
+#25 1!
+#28 1#
+#30 0!
+#35 1!
+#38 0" 0%
+#40 0!
+#45 1!
+#50 0!
+`;
+  const inputs = {
+    clk: "top.clk",
+    valid: "top.valid",
+    ready: "top.ready",
+    data: "top.data",
+    last: "top.last",
+  };
+  expect(await decode(vcd, "handshake", inputs)).toEqual([
+    { start: 15, end: 25, label: "0x12", error: false },
+    { start: 35, end: 45, label: "0x34 last", error: false },
+  ]);
+});
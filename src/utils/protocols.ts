@@ -0,0 +1,424 @@
+// utils/protocols.ts
+import { clockEdges } from "./clock";
+import { formatValue } from "./radix";
+
+type Wave = [number, string][];
+
+// A decoded byte or transfer. Instants (I2C start and stop conditions)
+// have `start === end`.
+export interface Annotation {
+  start: number;
+  end: number;
+  label: string;
+  // Framing or parity errors, unknown bits and cut-off words
+  error?: boolean;
+}
+
+export interface ProtocolInput {
+  role: string;
+  label: string;
+  optional?: boolean;
+}
+
+export interface ProtocolOption {
+  name: string;
+  label: string;
+  default: number;
+  // Offered as a list instead of a number field
+  choices?: { value: number; label: string }[];
+}
+
+export interface Protocol {
+  id: string;
+  name: string;
+  inputs: ProtocolInput[];
+  options: ProtocolOption[];
+  /**
+   * Decode the waves of the inputs, keyed by role; optional inputs may be
+   * missing. `unitSeconds` is the length of one time unit, for protocols
+   * timed in seconds rather than by a clock.
+   */
+  decode: (
+    waves: Record<string, Wave>,
+    options: Record<string, number>,
+    unitSeconds: number,
+  ) => Annotation[];
+}
+
+// What a decoder row decodes, as saved with the view
+export interface DecoderConfig {
+  protocol: string;
+  // Signal path of each input role
+  inputs: Record<string, string>;
+  // Options left out take their defaults
+  options: Record<string, number>;
+}
+
+const isHigh = (value?: string) => value === "1" || value === "h";
+const isLow = (value?: string) => value === "0" || value === "l";
+
+// Index of the change in effect at `time`, counting a change at `time`
+// unless `before` is set; -1 before the first change
+const indexAt = (wave: Wave, time: number, before = false) => {
+  let low = 0;
+  let high = wave.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (before ? wave[mid][0] < time : wave[mid][0] <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+// Value at `time`. With `before`, what a flip-flop clocked at `time` would
+// sample, ignoring changes made by that same edge.
+const valueAt = (wave: Wave, time: number, before = false) => {
+  const index = indexAt(wave, time, before);
+  return index < 0 ? undefined : wave[index][1].toLowerCase();
+};
+
+// Times where a 1-bit wave goes from high to low, or low to high
+const edges = (wave: Wave, rising: boolean) => {
+  const times: number[] = [];
+  let last: string | undefined;
+  wave.forEach(([time, raw]) => {
+    const value = raw.toLowerCase();
+    if (rising ? isHigh(value) && isLow(last) : isLow(value) && isHigh(last)) {
+      times.push(time);
+    }
+    last = value;
+  });
+  return times;
+};
+
+// "0x41" for 8 bits; null if any bit is unknown
+const hex = (bits: (boolean | null)[]) => {
+  if (bits.some((bit) => bit === null)) return null;
+  const value = bits.reduce((sum, bit) => sum * 2 + (bit ? 1 : 0), 0);
+  return `0x${value
+    .toString(16)
+    .toUpperCase()
+    .padStart(Math.ceil(bits.length / 4), "0")}`;
+};
+
+const sampleBit = (value?: string) =>
+  isHigh(value) ? true : isLow(value) ? false : null;
+
+const UART: Protocol = {
+  id: "uart",
+  name: "UART",
+  inputs: [{ role: "line", label: "RX/TX line" }],
+  options: [
+    { name: "baud", label: "Baud rate", default: 115200 },
+    { name: "dataBits", label: "Data bits", default: 8 },
+    {
+      name: "parity",
+      label: "Parity",
+      default: 0,
+      choices: [
+        { value: 0, label: "None" },
+        { value: 1, label: "Odd" },
+        { value: 2, label: "Even" },
+      ],
+    },
+    { name: "stopBits", label: "Stop bits", default: 1 },
+  ],
+  decode: ({ line }, { baud, dataBits, parity, stopBits }, unitSeconds) => {
+    const bitTime = 1 / (baud * unitSeconds);
+    const parityBits = parity ? 1 : 0;
+    const at = (start: number, bit: number) =>
+      valueAt(line, start + (bit + 0.5) * bitTime);
+
+    const annotations: Annotation[] = [];
+    let ready = -Infinity;
+    edges(line, false).forEach((start) => {
+      // Falling edges inside a frame are data bits; a glitch that isn't
+      // still low mid-bit isn't a start bit
+      if (start < ready || !isLow(at(start, 0))) return;
+
+      // LSB first
+      const bits: (boolean | null)[] = [];
+      for (let i = 0; i < dataBits; i++) {
+        bits.unshift(sampleBit(at(start, i + 1)));
+      }
+      const value = hex(bits);
+      const stop = 1 + dataBits + parityBits;
+      let error = value === null || !isHigh(at(start, stop));
+      if (parityBits) {
+        const ones = bits.filter((bit) => bit).length;
+        const parityBit = sampleBit(at(start, 1 + dataBits));
+        error =
+          error || parityBit === null || (ones + +parityBit) % 2 !== parity % 2;
+      }
+
+      let label = value ?? "?";
+      const code = value === null ? 0 : parseInt(value, 16);
+      if (code >= 0x20 && code < 0x7f) {
+        label += ` '${String.fromCharCode(code)}'`;
+      }
+      annotations.push({
+        start,
+        end: start + (stop + stopBits) * bitTime,
+        label,
+        error,
+      });
+      // The next start bit can follow right after the first stop bit
+      ready = start + (stop + 0.5) * bitTime;
+    });
+    return annotations;
+  },
+};
+
+const SPI: Protocol = {
+  id: "spi",
+  name: "SPI",
+  inputs: [
+    { role: "sclk", label: "SCLK" },
+    { role: "mosi", label: "MOSI", optional: true },
+    { role: "miso", label: "MISO", optional: true },
+    { role: "cs", label: "CS (active low)", optional: true },
+  ],
+  options: [
+    {
+      name: "cpol",
+      label: "Clock polarity",
+      default: 0,
+      choices: [
+        { value: 0, label: "CPOL=0 (idle low)" },
+        { value: 1, label: "CPOL=1 (idle high)" },
+      ],
+    },
+    {
+      name: "cpha",
+      label: "Clock phase",
+      default: 0,
+      choices: [
+        { value: 0, label: "CPHA=0 (sample on leading edge)" },
+        { value: 1, label: "CPHA=1 (sample on trailing edge)" },
+      ],
+    },
+    { name: "bits", label: "Bits per word", default: 8 },
+    {
+      name: "lsbFirst",
+      label: "Bit order",
+      default: 0,
+      choices: [
+        { value: 0, label: "MSB first" },
+        { value: 1, label: "LSB first" },
+      ],
+    },
+  ],
+  decode: ({ sclk, mosi, miso, cs }, { cpol, cpha, bits, lsbFirst }) => {
+    // Modes 0 and 3 sample on the rising edge, 1 and 2 on the falling one
+    const samples = edges(sclk, cpol === cpha);
+
+    // Words restart whenever chip select is asserted
+    const selected: [number, number][] = [];
+    if (cs) {
+      const deasserted = edges(cs, true);
+      const asserted = edges(cs, false);
+      if (cs.length > 0 && isLow(cs[0][1].toLowerCase())) {
+        asserted.unshift(cs[0][0]);
+      }
+      let end = 0;
+      asserted.forEach((start) => {
+        while (end < deasserted.length && deasserted[end] <= start) end++;
+        selected.push([start, deasserted[end] ?? Infinity]);
+      });
+    } else {
+      selected.push([-Infinity, Infinity]);
+    }
+
+    const annotations: Annotation[] = [];
+    let next = 0;
+    selected.forEach(([from, to]) => {
+      while (next < samples.length && samples[next] <= from) next++;
+      const times: number[] = [];
+      while (next < samples.length && samples[next] <= to) {
+        times.push(samples[next++]);
+      }
+      for (let i = 0; i < times.length; i += bits) {
+        const word = times.slice(i, i + bits);
+        const read = (wave: Wave) => {
+          const sampled = word.map((time) =>
+            sampleBit(valueAt(wave, time, true)),
+          );
+          return hex(lsbFirst ? sampled.reverse() : sampled);
+        };
+        const values = [
+          mosi && `MOSI ${read(mosi) ?? "?"}`,
+          miso && `MISO ${read(miso) ?? "?"}`,
+        ].filter((label): label is string => !!label);
+        const complete = word.length === bits;
+
+        // From the edge that shifted the first bit out (or chip select)
+        // to the one after the last sample
+        const first = word[0];
+        const last = word[word.length - 1];
+        const launch = indexAt(sclk, first, true);
+        const after = sclk[indexAt(sclk, last) + 1];
+        annotations.push({
+          start: Math.max(launch >= 0 ? sclk[launch][0] : first, from),
+          end: Math.min(after ? after[0] : last, to),
+          label: complete
+            ? values.join(" ") || `${bits} bits`
+            : `${word.length} bits`,
+          error: !complete || values.some((value) => value.endsWith("?")),
+        });
+      }
+    });
+    return annotations;
+  },
+};
+
+const I2C: Protocol = {
+  id: "i2c",
+  name: "I2C",
+  inputs: [
+    { role: "scl", label: "SCL" },
+    { role: "sda", label: "SDA" },
+  ],
+  options: [],
+  decode: ({ scl, sda }) => {
+    const times = Array.from(
+      new Set([...scl, ...sda].map(([time]) => time)),
+    ).sort((a, b) => a - b);
+
+    const annotations: Annotation[] = [];
+    let active = false;
+    let address = false;
+    let bits: (boolean | null)[] = [];
+    let byteStart = 0;
+    let lastFall = -Infinity;
+    // Byte waiting for the SCL fall that ends its acknowledge bit
+    let open: Annotation | null = null;
+
+    times.forEach((time) => {
+      const sclBefore = valueAt(scl, time, true);
+      const sclNow = valueAt(scl, time);
+      const sdaBefore = valueAt(sda, time, true);
+      const sdaNow = valueAt(sda, time);
+
+      if (isHigh(sclBefore) && isLow(sclNow)) {
+        lastFall = time;
+        if (open) open.end = time;
+        open = null;
+      } else if (isLow(sclBefore) && isHigh(sclNow)) {
+        if (!active) return;
+        if (bits.length === 0) byteStart = Math.max(lastFall, byteStart);
+        bits.push(sampleBit(sdaBefore));
+        if (bits.length < 9) return;
+
+        const data = bits.slice(0, 8);
+        const ack = bits[8] === false ? "ACK" : "NAK";
+        const value = hex(data);
+        let label = `${value ?? "?"} ${ack}`;
+        if (address && value !== null) {
+          const byte = parseInt(value, 16);
+          label = `${hex(data.slice(0, 7))} ${byte & 1 ? "R" : "W"} ${ack}`;
+        }
+        open = { start: byteStart, end: time, label, error: value === null };
+        annotations.push(open);
+        address = false;
+        bits = [];
+      } else if (isHigh(sclNow) && isHigh(sclBefore)) {
+        // SDA changing while SCL is high is a start or stop condition
+        if (isHigh(sdaBefore) && isLow(sdaNow)) {
+          annotations.push({
+            start: time,
+            end: time,
+            label: active ? "Sr" : "S",
+          });
+          active = true;
+        } else if (isLow(sdaBefore) && isHigh(sdaNow) && active) {
+          annotations.push({ start: time, end: time, label: "P" });
+          active = false;
+        } else {
+          return;
+        }
+        address = true;
+        bits = [];
+        byteStart = time;
+      }
+    });
+    return annotations;
+  },
+};
+
+const HANDSHAKE: Protocol = {
+  id: "handshake",
+  name: "Valid/ready",
+  inputs: [
+    { role: "clk", label: "Clock" },
+    { role: "valid", label: "Valid" },
+    { role: "ready", label: "Ready", optional: true },
+    { role: "data", label: "Data", optional: true },
+    { role: "last", label: "Last", optional: true },
+  ],
+  options: [],
+  // A transfer happens on each rising clock edge where valid and ready
+  // are both high; without a ready input, valid alone is enough
+  decode: ({ clk, valid, ready, data, last }) => {
+    const rising = clockEdges(clk);
+    const annotations: Annotation[] = [];
+    rising.forEach((time, i) => {
+      if (!isHigh(valueAt(valid, time, true))) return;
+      if (ready && !isHigh(valueAt(ready, time, true))) return;
+      const value = data && valueAt(data, time, true);
+      let label = value === undefined ? "xfer" : `0x${formatValue(value)}`;
+      if (last && isHigh(valueAt(last, time, true))) label += " last";
+      const period = i > 0 ? time - rising[i - 1] : rising[i + 1] - time;
+      annotations.push({
+        start: time,
+        end: rising[i + 1] ?? time + (period || 1),
+        label,
+        error: !!value && /[xz]/i.test(value),
+      });
+    });
+    return annotations;
+  },
+};
+
+export const PROTOCOLS: Protocol[] = [UART, SPI, I2C, HANDSHAKE];
+
+// Options with defaults filled in
+export const protocolOptions = (
+  protocol: Protocol,
+  options: Record<string, number>,
+): Record<string, number> =>
+  Object.fromEntries(
+    protocol.options.map((option) => [
+      option.name,
+      options[option.name] ?? option.default,
+    ]),
+  );
+
+/**
+ * Run a decoder over the waves `waveOf` returns for its input paths. Null
+ * when the protocol is unknown or a required input isn't available (yet).
+ */
+export const decodeProtocol = (
+  config: DecoderConfig,
+  waveOf: (path: string) => Wave | undefined,
+  unitSeconds: number,
+): Annotation[] | null => {
+  const protocol = PROTOCOLS.find(({ id }) => id === config.protocol);
+  if (!protocol) return null;
+  const waves: Record<string, Wave> = {};
+  for (const { role, optional } of protocol.inputs) {
+    const path = config.inputs[role];
+    const wave = path ? waveOf(path) : undefined;
+    if (wave) waves[role] = wave;
+    else if (!optional) return null;
+  }
+  return protocol.decode(
+    waves,
+    protocolOptions(protocol, config.options),
+    unitSeconds,
+  );
+};
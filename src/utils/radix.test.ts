@@ -0,0 +1,43 @@
+import { formatValue } from "./radix";
+
+test("groups bits into hex and octal digits", () => {
+  expect(formatValue("00011010", { radix: "hex" })).toBe("1a");
+  expect(formatValue("101", { radix: "hex" })).toBe("5");
+  expect(formatValue("111000", { radix: "octal" })).toBe("70");
+});
+
+test("unknown nibbles show x/z, mixed ones X/Z", () => {
+  expect(formatValue("xxxx0001", { radix: "hex" })).toBe("x1");
+  expect(formatValue("zzzz", { radix: "hex" })).toBe("z");
+  expect(formatValue("x0010001", { radix: "hex" })).toBe("X1");
+  expect(formatValue("z1", { radix: "hex" })).toBe("Z");
+  expect(formatValue("0z01", { radix: "octal" })).toBe("0Z");
+});
+
+test("decimal radixes use two's complement and reject unknown bits", () => {
+  expect(formatValue("11111110", { radix: "unsigned" })).toBe("254");
+  expect(formatValue("11111110", { radix: "signed" })).toBe("-2");
+  expect(formatValue("0".repeat(63) + "1", { radix: "signed" })).toBe("1");
+  expect(formatValue("1" + "0".repeat(63), { radix: "unsigned" })).toBe(
+    "9223372036854775808",
+  );
+  expect(formatValue("01x0", { radix: "unsigned" })).toBe("x");
+  expect(formatValue("zzzz", { radix: "signed" })).toBe("z");
+});
+
+test("formats ASCII and fixed point", () => {
+  expect(formatValue("000000000100100001101001", { radix: "ascii" })).toBe(
+    "Hi",
+  );
+  expect(formatValue("00000001", { radix: "ascii" })).toBe(".");
+  expect(
+    formatValue("00011000", { radix: "fixed", fractionBits: 4 }),
+  ).toBe("1.5");
+  expect(
+    formatValue("11111000", { radix: "fixed", fractionBits: 4, signed: true }),
+  ).toBe("-0.5");
+});
+
+test("real values pass through untouched", () => {
+  expect(formatValue("3.25", { radix: "hex" }, "real")).toBe("3.25");
+});
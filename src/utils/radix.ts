@@ -0,0 +1,165 @@
+// utils/radix.ts
+
+export type Radix =
+  "binary" | "hex" | "octal" | "unsigned" | "signed" | "ascii" | "fixed";
+
+export interface ValueFormat {
+  radix: Radix;
+  // Fixed-point only: number of bits to the right of the binary point
+  fractionBits?: number;
+  // Fixed-point only: interpret the bits as two's complement
+  signed?: boolean;
+}
+
+export const RADIX_LABELS: Record<Radix, string> = {
+  binary: "Binary",
+  hex: "Hexadecimal",
+  octal: "Octal",
+  unsigned: "Unsigned decimal",
+  signed: "Signed decimal",
+  ascii: "ASCII",
+  fixed: "Fixed point",
+};
+
+export const DEFAULT_FORMAT: ValueFormat = { radix: "hex" };
+
+// Whether a format reads values as two's complement
+export const isSignedFormat = (format: ValueFormat) =>
+  format.radix === "signed" || (format.radix === "fixed" && !!format.signed);
+
+const isKnown = (bits: string) => /^[01]*$/.test(bits);
+
+// Collapse a group of bits to one digit. Unknown groups show x or z when
+// every bit is, and X or Z when they are mixed with known bits.
+const groupDigit = (bits: string, base: number): string => {
+  if (isKnown(bits)) return parseInt(bits, 2).toString(base);
+  if (/^x+$/.test(bits)) return "x";
+  if (/^z+$/.test(bits)) return "z";
+  return bits.includes("x") ? "X" : "Z";
+};
+
+const groupBits = (value: string, size: number, base: number): string => {
+  const padding = (size - (value.length % size)) % size;
+  const lead = value[0] === "x" || value[0] === "z" ? value[0] : "0";
+  const padded = lead.repeat(padding) + value;
+  let result = "";
+  for (let i = 0; i < padded.length; i += size) {
+    result += groupDigit(padded.substring(i, i + size), base);
+  }
+  return result;
+};
+
+// Whole-value placeholder for numeric radixes when some bits are unknown.
+const unknownValue = (value: string) =>
+  /^z+$/.test(value) ? "z" : value.includes("x") ? "x" : "z";
+
+const toBigInt = (bits: string, signed: boolean): bigint => {
+  const raw = BigInt(`0b${bits || "0"}`);
+  if (signed && bits[0] === "1") {
+    return raw - (BigInt(1) << BigInt(bits.length));
+  }
+  return raw;
+};
+
+const toAscii = (value: string): string => {
+  let result = "";
+  const padding = (8 - (value.length % 8)) % 8;
+  const padded = "0".repeat(padding) + value;
+  for (let i = 0; i < padded.length; i += 8) {
+    const byte = padded.substring(i, i + 8);
+    if (!isKnown(byte)) {
+      result += "?";
+      continue;
+    }
+    const code = parseInt(byte, 2);
+    if (code === 0 && result === "") continue; // skip leading NULs
+    result += code >= 0x20 && code < 0x7f ? String.fromCharCode(code) : ".";
+  }
+  return result;
+};
+
+const toFixed = (value: string, fractionBits: number, signed: boolean) => {
+  const integer = Number(toBigInt(value, signed));
+  const scaled = integer / Math.pow(2, fractionBits);
+  return String(Number(scaled.toPrecision(12)));
+};
+
+/**
+ * Render a VCD value string (MSB first, 4-state bits) in the given format.
+ * Real-valued signals are passed through unchanged.
+ */
+export const formatValue = (
+  value: string,
+  format: ValueFormat = DEFAULT_FORMAT,
+  type?: string,
+): string => {
+  if (type === "real" || type === "realtime" || type === "shortreal") {
+    return value;
+  }
+  switch (format.radix) {
+    case "binary":
+      return value;
+    case "hex":
+      return groupBits(value, 4, 16);
+    case "octal":
+      return groupBits(value, 3, 8);
+    case "unsigned":
+      return isKnown(value)
+        ? toBigInt(value, false).toString()
+        : unknownValue(value);
+    case "signed":
+      return isKnown(value)
+        ? toBigInt(value, true).toString()
+        : unknownValue(value);
+    case "ascii":
+      return toAscii(value);
+    case "fixed":
+      return isKnown(value)
+        ? toFixed(value, format.fractionBits ?? 0, !!format.signed)
+        : unknownValue(value);
+  }
+};
+
+/**
+ * Numeric value of a VCD value, for plotting. Fixed-point formats are
+ * scaled by their binary point; null when any bit is x or z.
+ */
+export const toNumber = (
+  value: string,
+  format: ValueFormat,
+  type?: string,
+  signed = false,
+): number | null => {
+  if (type === "real" || type === "realtime" || type === "shortreal") {
+    const real = parseFloat(value);
+    return isNaN(real) ? null : real;
+  }
+  if (!isKnown(value)) return null;
+  if (format.radix === "fixed") {
+    return (
+      Number(toBigInt(value, !!format.signed)) /
+      Math.pow(2, format.fractionBits ?? 0)
+    );
+  }
+  return Number(toBigInt(value, signed || format.radix === "signed"));
+};
+
+// Short suffix shown next to a signal name for non-default formats.
+export const formatLabel = (format: ValueFormat): string => {
+  switch (format.radix) {
+    case "fixed":
+      return `${format.signed ? "s" : "u"}Q${format.fractionBits ?? 0}`;
+    case "binary":
+      return "bin";
+    case "octal":
+      return "oct";
+    case "unsigned":
+      return "dec";
+    case "signed":
+      return "sdec";
+    case "ascii":
+      return "ascii";
+    default:
+      return "hex";
+  }
+};
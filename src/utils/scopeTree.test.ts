@@ -0,0 +1,90 @@
+import { buildScopeTree, ScopeNode } from "./scopeTree";
+import { Signal } from "./vcdParser";
+
+const signal = (hierarchy: string[], name: string, path?: string): Signal => ({
+  name,
+  path: path ?? [...hierarchy, name].join("."),
+  id: name,
+  type: "wire",
+  width: 1,
+  wave: [],
+  hierarchy,
+});
+
+// Scope names, each followed by its children, and signal names
+const outline = (node: ScopeNode): unknown => ({
+  [node.name]: [
+    ...node.children.map(outline),
+    ...node.signals.map((entry) => entry.name),
+  ],
+});
+
+test("nests scopes as declared", () => {
+  const root = buildScopeTree([
+    signal(["top"], "clk"),
+    signal(["top", "cpu"], "pc"),
+    signal(["top", "cpu", "alu"], "op"),
+    signal(["top", "mem"], "addr"),
+  ]);
+  expect(outline(root)).toEqual({
+    "": [{ top: [{ cpu: [{ alu: ["op"] }, "pc"] }, { mem: ["addr"] }, "clk"] }],
+  });
+  const cpu = root.children[0].children[0];
+  expect(cpu.path).toBe("top.cpu");
+  expect(cpu.children[0].path).toBe("top.cpu.alu");
+});
+
+test("keeps signals outside any scope at the root", () => {
+  const root = buildScopeTree([
+    signal([], "reset"),
+    { ...signal([], "clk"), hierarchy: undefined },
+    signal(["top"], "data"),
+  ]);
+  expect(root.path).toBe("");
+  expect(root.signals.map((entry) => entry.name)).toEqual(["reset", "clk"]);
+  expect(root.children.map((child) => child.path)).toEqual(["top"]);
+});
+
+test("keeps escaped names with dots apart from nested scopes", () => {
+  const root = buildScopeTree([
+    signal(["top.u0"], "q"),
+    signal(["top", "u0"], "q"),
+  ]);
+  expect(outline(root)).toEqual({
+    "": [{ "top.u0": ["q"] }, { top: [{ u0: ["q"] }] }],
+  });
+  // Same dotted path, but keys that tell the two apart
+  const escaped = root.children[0];
+  const nested = root.children[1].children[0];
+  expect(escaped.path).toBe(nested.path);
+  expect(escaped.key).not.toBe(nested.key);
+});
+
+test("merges scopes declared again and keeps duplicate signal names", () => {
+  const root = buildScopeTree([
+    signal(["top", "a"], "x"),
+    signal(["top", "b"], "y"),
+    signal(["top", "a"], "x", "top.a.x#1"),
+  ]);
+  const a = root.children[0].children[0];
+  expect(root.children[0].children.map((child) => child.name)).toEqual([
+    "a",
+    "b",
+  ]);
+  expect(a.signals.map((entry) => entry.path)).toEqual([
+    "top.a.x",
+    "top.a.x#1",
+  ]);
+});
+
+test("orders scopes by first appearance and signals as declared", () => {
+  const root = buildScopeTree([
+    signal(["top", "z"], "b"),
+    signal(["top", "a"], "c"),
+    signal(["top", "z"], "a"),
+    signal(["top"], "z"),
+  ]);
+  expect(outline(root)).toEqual({
+    "": [{ top: [{ z: ["b", "a"] }, { a: ["c"] }, "z"] }],
+  });
+});
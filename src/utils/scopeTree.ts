@@ -0,0 +1,48 @@
+// utils/scopeTree.ts
+import { Signal } from "./vcdParser";
+
+export interface ScopeNode {
+  name: string;
+  // Dotted path of the scope, "" for the root
+  path: string;
+  // The names joined with a space, which can't occur in a VCD identifier.
+  // Unlike the path it tells apart escaped names that contain dots.
+  key: string;
+  children: ScopeNode[];
+  signals: Signal[];
+}
+
+// Build the module/scope hierarchy recorded by `$scope`/`$upscope`.
+export const buildScopeTree = (signals: Signal[]): ScopeNode => {
+  const root: ScopeNode = {
+    name: "",
+    path: "",
+    key: "",
+    children: [],
+    signals: [],
+  };
+  const scopes = new Map<string, ScopeNode>([["", root]]);
+
+  const scopeFor = (hierarchy: string[]): ScopeNode => {
+    const key = hierarchy.join(" ");
+    let node = scopes.get(key);
+    if (!node) {
+      const parent = scopeFor(hierarchy.slice(0, -1));
+      node = {
+        name: hierarchy[hierarchy.length - 1],
+        path: hierarchy.join("."),
+        key,
+        children: [],
+        signals: [],
+      };
+      parent.children.push(node);
+      scopes.set(key, node);
+    }
+    return node;
+  };
+
+  signals.forEach((signal) => {
+    scopeFor(signal.hierarchy ?? []).signals.push(signal);
+  });
+  return root;
+};
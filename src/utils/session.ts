@@ -0,0 +1,117 @@
+// utils/session.ts
+import { ValueFormat } from "./radix";
+import { AnalogSettings } from "./analog";
+import { Marker } from "./cursors";
+import { DisplayUnit } from "./timeUnits";
+import { DisplayItem, signalItem } from "./displayList";
+
+// Version 2 stores the wave list as items; version 1 had plain paths
+export const SESSION_VERSION = 2;
+
+// Palette offered for signal colors, in GTKWave's color order (1..7)
+export const SIGNAL_COLORS = [
+  "#e53935",
+  "#fb8c00",
+  "#fdd835",
+  "#43a047",
+  "#1e88e5",
+  "#3949ab",
+  "#8e24aa",
+];
+
+/**
+ * Everything needed to rebuild a WaveformViewer layout for a dump. Signals
+ * are referred to by path, so a session survives re-running the simulation.
+ */
+export interface ViewSession {
+  version: number;
+  displayed: DisplayItem[];
+  expandedBuses: string[];
+  formats: Record<string, ValueFormat>;
+  analog: Record<string, AnalogSettings>;
+  colors: Record<string, string>;
+  rowHeights: Record<string, number>;
+  derived: { name: string; expression: string }[];
+  zoom: number;
+  offsetX: number;
+  primaryCursor: number | null;
+  secondaryCursor: number | null;
+  markers: Marker[];
+  clockPath: string | null;
+  axisMode: "time" | "cycles";
+  displayUnit: DisplayUnit;
+}
+
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionError";
+  }
+}
+
+export const emptySession = (): ViewSession => ({
+  version: SESSION_VERSION,
+  displayed: [],
+  expandedBuses: [],
+  formats: {},
+  analog: {},
+  colors: {},
+  rowHeights: {},
+  derived: [],
+  zoom: 1,
+  offsetX: 0,
+  primaryCursor: null,
+  secondaryCursor: null,
+  markers: [],
+  clockPath: null,
+  axisMode: "time",
+  displayUnit: "auto",
+});
+
+// Read a session file. Missing fields fall back to their defaults so older
+// or hand-written files still load.
+export const parseSession = (text: string): ViewSession => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new SessionError("Session file is not valid JSON");
+  }
+  if (
+    typeof parsed !== "object" ||
+    parsed === null ||
+    !Array.isArray((parsed as ViewSession).displayed)
+  ) {
+    throw new SessionError("Not a waveform session file");
+  }
+  const session = { ...emptySession(), ...(parsed as Partial<ViewSession>) };
+  if (session.version > SESSION_VERSION) {
+    throw new SessionError(
+      `Session version ${session.version} is newer than this viewer supports`,
+    );
+  }
+  session.displayed = (session.displayed as (DisplayItem | string)[]).map(
+    (entry) => (typeof entry === "string" ? signalItem(entry) : entry),
+  );
+  return session;
+};
+
+const storageKey = (fileName: string) => `vcd-viewer.session.${fileName}`;
+
+// Auto-saved sessions are best effort: storage may be full or disabled.
+export const saveSession = (fileName: string, session: ViewSession) => {
+  try {
+    localStorage.setItem(storageKey(fileName), JSON.stringify(session));
+  } catch (error) {
+    console.warn("Could not auto-save session:", error);
+  }
+};
+
+export const loadSavedSession = (fileName: string): ViewSession | null => {
+  try {
+    const text = localStorage.getItem(storageKey(fileName));
+    return text ? parseSession(text) : null;
+  } catch {
+    return null;
+  }
+};
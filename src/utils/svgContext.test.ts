@@ -0,0 +1,31 @@
+import { SvgContext } from "./svgContext";
+
+test("records strokes, text and nested clips as SVG", () => {
+  const svg = new SvgContext(100, 50, {} as CanvasRenderingContext2D);
+  svg.fillStyle = "#fff";
+  svg.fillRect(0, 0, 100, 50);
+  svg.save();
+  svg.beginPath();
+  svg.rect(10, 0, 90, 50);
+  svg.clip();
+  svg.strokeStyle = "red";
+  svg.setLineDash([4, 3]);
+  svg.beginPath();
+  svg.moveTo(10, 25);
+  svg.lineTo(90, 25);
+  svg.stroke();
+  svg.restore();
+  svg.textAlign = "center";
+  svg.textBaseline = "middle";
+  svg.fillText("a < b", 50, 10);
+
+  const output = svg.toSVG();
+  expect(output).toContain('<clipPath id="clip1"><path d="M10 0h90v50h-90Z"/>');
+  expect(output).toContain(
+    '<path d="M10 25L90 25" fill="none" stroke="red" stroke-width="1" ' +
+      'stroke-dasharray="4 3"/>\n</g>',
+  );
+  expect(output).toContain('text-anchor="middle" dominant-baseline="middle"');
+  expect(output).toContain(">a &lt; b</text>");
+  expect(output.match(/<g /g)).toHaveLength(1);
+});
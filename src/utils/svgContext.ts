@@ -0,0 +1,188 @@
+// utils/svgContext.ts
+
+const escapeXML = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const TEXT_ANCHORS: Record<string, string> = {
+  left: "start",
+  start: "start",
+  center: "middle",
+  right: "end",
+  end: "end",
+};
+
+const BASELINES: Record<string, string> = {
+  top: "hanging",
+  hanging: "hanging",
+  middle: "middle",
+  bottom: "text-after-edge",
+  ideographic: "ideographic",
+  alphabetic: "alphabetic",
+};
+
+interface DrawState {
+  fillStyle: string;
+  strokeStyle: string;
+  lineWidth: number;
+  font: string;
+  textAlign: string;
+  textBaseline: string;
+  lineDash: number[];
+  // Clip groups opened since the matching save()
+  openGroups: number;
+}
+
+/**
+ * Records the subset of the 2D canvas API the waveform renderer uses and
+ * turns it into an SVG document, so a view can be exported as vector
+ * graphics. Text is measured with a real canvas context.
+ */
+export class SvgContext {
+  fillStyle = "#000000";
+  strokeStyle = "#000000";
+  lineWidth = 1;
+  font = "10px sans-serif";
+  textAlign = "start";
+  textBaseline = "alphabetic";
+
+  private lineDash: number[] = [];
+  private openGroups = 0;
+  private stack: DrawState[] = [];
+  private path = "";
+  private clips = 0;
+  private defs: string[] = [];
+  private body: string[] = [];
+
+  constructor(
+    private width: number,
+    private height: number,
+    private measure: CanvasRenderingContext2D,
+  ) {}
+
+  save() {
+    this.stack.push({
+      fillStyle: this.fillStyle,
+      strokeStyle: this.strokeStyle,
+      lineWidth: this.lineWidth,
+      font: this.font,
+      textAlign: this.textAlign,
+      textBaseline: this.textBaseline,
+      lineDash: this.lineDash,
+      openGroups: this.openGroups,
+    });
+    this.openGroups = 0;
+  }
+
+  restore() {
+    const state = this.stack.pop();
+    if (!state) return;
+    for (; this.openGroups > 0; this.openGroups--) this.body.push("</g>");
+    Object.assign(this, state);
+  }
+
+  setLineDash(segments: number[]) {
+    this.lineDash = [...segments];
+  }
+
+  getLineDash() {
+    return [...this.lineDash];
+  }
+
+  beginPath() {
+    this.path = "";
+  }
+
+  moveTo(x: number, y: number) {
+    this.path += `M${x} ${y}`;
+  }
+
+  lineTo(x: number, y: number) {
+    this.path += `L${x} ${y}`;
+  }
+
+  closePath() {
+    this.path += "Z";
+  }
+
+  rect(x: number, y: number, width: number, height: number) {
+    this.path += `M${x} ${y}h${width}v${height}h${-width}Z`;
+  }
+
+  // Everything drawn until the matching restore() is clipped
+  clip() {
+    const id = `clip${++this.clips}`;
+    this.defs.push(`<clipPath id="${id}"><path d="${this.path}"/></clipPath>`);
+    this.body.push(`<g clip-path="url(#${id})">`);
+    this.openGroups++;
+  }
+
+  stroke() {
+    if (!this.path) return;
+    const dash =
+      this.lineDash.length > 0
+        ? ` stroke-dasharray="${this.lineDash.join(" ")}"`
+        : "";
+    this.body.push(
+      `<path d="${this.path}" fill="none" stroke="${escapeXML(
+        this.strokeStyle,
+      )}" stroke-width="${this.lineWidth}"${dash}/>`,
+    );
+  }
+
+  fill() {
+    if (!this.path) return;
+    this.body.push(
+      `<path d="${this.path}" fill="${escapeXML(this.fillStyle)}"/>`,
+    );
+  }
+
+  fillRect(x: number, y: number, width: number, height: number) {
+    this.body.push(
+      `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${escapeXML(
+        this.fillStyle,
+      )}"/>`,
+    );
+  }
+
+  // The document starts out transparent, so there's nothing to clear
+  clearRect() {}
+
+  fillText(text: string, x: number, y: number) {
+    this.body.push(
+      `<text x="${x}" y="${y}" fill="${escapeXML(
+        this.fillStyle,
+      )}" style="font: ${escapeXML(this.font)}" text-anchor="${
+        TEXT_ANCHORS[this.textAlign] ?? "start"
+      }" dominant-baseline="${
+        BASELINES[this.textBaseline] ?? "alphabetic"
+      }" xml:space="preserve">${escapeXML(text)}</text>`,
+    );
+  }
+
+  measureText(text: string): TextMetrics {
+    this.measure.save();
+    this.measure.font = this.font;
+    const metrics = this.measure.measureText(text);
+    this.measure.restore();
+    return metrics;
+  }
+
+  toSVG(): string {
+    const groups = "</g>".repeat(
+      this.openGroups +
+        this.stack.reduce((sum, state) => sum + state.openGroups, 0),
+    );
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.width}" height="${this.height}" viewBox="0 0 ${this.width} ${this.height}">`,
+      `<defs>${this.defs.join("")}</defs>`,
+      ...this.body,
+      groups,
+      "</svg>",
+      "",
+    ].join("\n");
+  }
+}
@@ -0,0 +1,18 @@
+import { formatTime, niceTickStep } from "./timeUnits";
+
+test("formats times in engineering units", () => {
+  expect(formatTime(1500, -12)).toBe("1.5 ns");
+  expect(formatTime(999, -12)).toBe("999 ps");
+  expect(formatTime(3, -8)).toBe("30 ns");
+  expect(formatTime(0, -9)).toBe("0 ns");
+  expect(formatTime(2500000, -9, "us")).toBe("2500 us");
+  // Axis labels share the unit of the step between them
+  expect(formatTime(0, -9, "auto", 1000)).toBe("0 us");
+});
+
+test("picks 1/2/5 tick steps", () => {
+  expect(niceTickStep(1000, 10)).toBe(100);
+  expect(niceTickStep(1000, 4)).toBe(200);
+  expect(niceTickStep(1000, 2)).toBe(500);
+  expect(niceTickStep(3, 10)).toBe(1);
+});
@@ -0,0 +1,63 @@
+// utils/timeUnits.ts
+
+export type TimeUnit = "fs" | "ps" | "ns" | "us" | "ms" | "s";
+
+// Display unit chosen by the user, or "auto" to pick one per value
+export type DisplayUnit = TimeUnit | "auto";
+
+export const TIME_UNITS: { unit: TimeUnit; exponent: number }[] = [
+  { unit: "fs", exponent: -15 },
+  { unit: "ps", exponent: -12 },
+  { unit: "ns", exponent: -9 },
+  { unit: "us", exponent: -6 },
+  { unit: "ms", exponent: -3 },
+  { unit: "s", exponent: 0 },
+];
+
+// Dumps without a `$timescale` keep the picosecond labels the viewer has
+// always shown for them.
+export const DEFAULT_TIME_EXPONENT = -12;
+
+const unitFor = (seconds: number): { unit: TimeUnit; exponent: number } => {
+  const magnitude = Math.abs(seconds);
+  for (let i = TIME_UNITS.length - 1; i > 0; i--) {
+    // Small tolerance so 1000 ps reads as 1 ns despite rounding
+    if (magnitude >= Math.pow(10, TIME_UNITS[i].exponent) * (1 - 1e-9)) {
+      return TIME_UNITS[i];
+    }
+  }
+  return TIME_UNITS[0];
+};
+
+/**
+ * Format a time in dump units (each 10^timeExponent s) as an engineering
+ * value like "1.25 ns". With `unit` "auto" the largest unit keeping the
+ * number at or above 1 is used; `reference` picks that unit from another
+ * value instead, so every label on an axis shares one unit.
+ */
+export const formatTime = (
+  time: number,
+  timeExponent: number = DEFAULT_TIME_EXPONENT,
+  unit: DisplayUnit = "auto",
+  reference?: number,
+): string => {
+  // Zero has no magnitude of its own; show it in the dump's unit
+  const basis = reference || time || 1;
+  const target =
+    unit === "auto"
+      ? unitFor(basis * Math.pow(10, timeExponent))
+      : TIME_UNITS.find((entry) => entry.unit === unit) ?? TIME_UNITS[0];
+  const value = time * Math.pow(10, timeExponent - target.exponent);
+  return `${Number(value.toPrecision(6))} ${target.unit}`;
+};
+
+// A 1, 2 or 5 x 10^n step (in dump units, at least 1) giving roughly
+// `count` ticks across `range`.
+export const niceTickStep = (range: number, count: number): number => {
+  const rough = range / Math.max(1, count);
+  if (!(rough > 1)) return 1;
+  const power = Math.pow(10, Math.floor(Math.log10(rough)));
+  const scaled = rough / power;
+  const factor = scaled < 1.5 ? 1 : scaled < 3.5 ? 2 : scaled < 7.5 ? 5 : 10;
+  return factor * power;
+};
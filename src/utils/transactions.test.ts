@@ -0,0 +1,49 @@
+import {
+  filterTransactions,
+  sortTransactions,
+  transactionAt,
+  waveTransactions,
+} from "./transactions";
+
+test("lists value changes with their previous value and duration", () => {
+  const changes = waveTransactions(
+    "top.state",
+    [
+      [0, "00"],
+      [10, "01"],
+      [15, "01"],
+      [30, "10"],
+    ],
+    (value) => `0x${parseInt(value, 2)}`,
+    50,
+  );
+  expect(changes).toEqual([
+    {
+      time: 0,
+      source: "top.state",
+      oldValue: "",
+      newValue: "0x0",
+      duration: 10,
+    },
+    {
+      time: 10,
+      source: "top.state",
+      oldValue: "0x0",
+      newValue: "0x1",
+      duration: 20,
+    },
+    {
+      time: 30,
+      source: "top.state",
+      oldValue: "0x1",
+      newValue: "0x2",
+      duration: 20,
+    },
+  ]);
+
+  const byDuration = sortTransactions(changes, "duration", true);
+  expect(byDuration.map(({ time }) => time)).toEqual([10, 30, 0]);
+  expect(filterTransactions(changes, "STATE 0x1")).toHaveLength(2);
+  expect(transactionAt(byDuration, 25)).toBe(0);
+  expect(transactionAt(byDuration, -1)).toBe(-1);
+});
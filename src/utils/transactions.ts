@@ -0,0 +1,122 @@
+// utils/transactions.ts
+import { Annotation } from "./protocols";
+import { SearchMatch } from "./valueSearch";
+
+// One line of the transaction table
+export interface Transaction {
+  time: number;
+  // Signal, decoder row or search the event came from
+  source: string;
+  // Empty for a wave's first value and for decoded or found events
+  oldValue: string;
+  newValue: string;
+  // Until the next change, or the end of the dump
+  duration: number;
+}
+
+export type TransactionColumn = keyof Transaction;
+
+// Value changes of a wave; repeated values aren't changes
+export const waveTransactions = (
+  source: string,
+  wave: [number, string][],
+  format: (value: string) => string,
+  endTime: number,
+): Transaction[] => {
+  const result: Transaction[] = [];
+  let last: string | undefined;
+  wave.forEach(([time, value]) => {
+    if (value === last) return;
+    const previous = result[result.length - 1];
+    if (previous) previous.duration = time - previous.time;
+    result.push({
+      time,
+      source,
+      oldValue: previous ? previous.newValue : "",
+      newValue: format(value),
+      duration: Math.max(0, endTime - time),
+    });
+    last = value;
+  });
+  return result;
+};
+
+export const annotationTransactions = (
+  source: string,
+  annotations: Annotation[],
+): Transaction[] =>
+  annotations.map(({ start, end, label }) => ({
+    time: start,
+    source,
+    oldValue: "",
+    newValue: label,
+    duration: end - start,
+  }));
+
+// Search matches, with the condition they matched as their value
+export const matchTransactions = (
+  source: string,
+  condition: string,
+  matches: SearchMatch[],
+): Transaction[] =>
+  matches.map(({ start, end }) => ({
+    time: start,
+    source,
+    oldValue: "",
+    newValue: condition,
+    duration: end - start,
+  }));
+
+const compareText = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true });
+
+// Sorted by one column, ties in time order
+export const sortTransactions = (
+  transactions: Transaction[],
+  column: TransactionColumn,
+  descending: boolean,
+): Transaction[] => {
+  const sign = descending ? -1 : 1;
+  return [...transactions].sort((a, b) => {
+    const first = a[column];
+    const second = b[column];
+    const order =
+      typeof first === "number" && typeof second === "number"
+        ? first - second
+        : compareText(String(first), String(second));
+    return sign * order || a.time - b.time;
+  });
+};
+
+// Transactions containing every word of `text` in their source or values
+export const filterTransactions = (
+  transactions: Transaction[],
+  text: string,
+): Transaction[] => {
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return transactions;
+  return transactions.filter(({ source, oldValue, newValue }) => {
+    const haystack = `${source}\n${oldValue}\n${newValue}`.toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+};
+
+/**
+ * Index of the transaction in effect at `time`: the latest one starting at
+ * or before it, whatever order the list is in. -1 when all start later.
+ */
+export const transactionAt = (
+  transactions: Transaction[],
+  time: number,
+): number => {
+  let found = -1;
+  transactions.forEach((transaction, i) => {
+    if (
+      transaction.time <= time &&
+      (found < 0 || transaction.time > transactions[found].time)
+    ) {
+      found = i;
+    }
+  });
+  return found;
+};
@@ -0,0 +1,90 @@
+import { isSignedFormat, ValueFormat } from "./radix";
+import { parseSearchValue, searchWave } from "./valueSearch";
+
+test("parses values in any radix", () => {
+  expect(parseSearchValue("0x1A", 8)).toBe("00011010");
+  expect(parseSearchValue("8'h1a", 8)).toBe("00011010");
+  expect(parseSearchValue("'b1x", 4)).toBe("001x");
+  expect(parseSearchValue("26", 8)).toBe("00011010");
+  expect(parseSearchValue("-1", 4)).toBe("1111");
+  expect(parseSearchValue("0xg", 8)).toBeNull();
+});
+
+test("rejects values wider than the signal", () => {
+  expect(parseSearchValue("0x1FF", 8)).toBeNull();
+  expect(parseSearchValue("9'h100", 8)).toBeNull();
+  expect(parseSearchValue("0b101", 2)).toBeNull();
+  expect(parseSearchValue("256", 8)).toBeNull();
+  // Leading zeros and x or z extension carry nothing that gets lost
+  expect(parseSearchValue("0x0FF", 8)).toBe("11111111");
+  expect(parseSearchValue("'hx", 2)).toBe("xx");
+  expect(parseSearchValue("255", 8)).toBe("11111111");
+
+  // Negative decimals must fit as two's complement
+  expect(parseSearchValue("-128", 8)).toBe("10000000");
+  expect(parseSearchValue("-129", 8)).toBeNull();
+  expect(parseSearchValue("-1", 1)).toBe("1");
+  expect(parseSearchValue("-2", 1)).toBeNull();
+});
+
+test("finds intervals and edges", async () => {
+  const wave: [number, string][] = [
+    [0, "0000"],
+    [10, "1010"],
+    [20, "0011"],
+    [30, "1010"],
+    [40, "xxxx"],
+  ];
+  const equal = searchWave(
+    wave,
+    { operator: "==", value: "1010", signed: false },
+    50,
+  );
+  expect(await equal.promise).toEqual([
+    { start: 10, end: 20 },
+    { start: 30, end: 40 },
+  ]);
+
+  const less = searchWave(
+    wave,
+    { operator: "<", value: "0000", signed: true },
+    50,
+  );
+  expect(await less.promise).toEqual([
+    { start: 10, end: 20 },
+    { start: 30, end: 40 },
+  ]);
+
+  const rising = searchWave(
+    wave,
+    { operator: "rising", value: "", signed: false },
+    50,
+  );
+  expect(await rising.promise).toEqual([
+    { start: 10, end: 10 },
+    { start: 30, end: 30 },
+  ]);
+});
+
+test("compares as signed when the row's format is", async () => {
+  const wave: [number, string][] = [
+    [0, "00000001"],
+    [10, "11111111"],
+    [20, "00000000"],
+  ];
+  const below = (format: ValueFormat) =>
+    searchWave(
+      wave,
+      {
+        operator: "<",
+        value: parseSearchValue("0", 8) ?? "",
+        signed: isSignedFormat(format),
+      },
+      30,
+    ).promise;
+  expect(await below({ radix: "signed" })).toEqual([{ start: 10, end: 20 }]);
+  expect(await below({ radix: "fixed", signed: true })).toEqual([
+    { start: 10, end: 20 },
+  ]);
+  expect(await below({ radix: "hex" })).toEqual([]);
+});
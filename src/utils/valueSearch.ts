@@ -0,0 +1,171 @@
+// utils/valueSearch.ts
+import { extendVector } from "./vcdParser";
+import { LoadCancelledError, LoadJob } from "./vcdLoader";
+
+export type SearchOperator = "==" | "!=" | "<" | ">" | "rising" | "falling";
+
+export const SEARCH_OPERATORS: SearchOperator[] = [
+  "==",
+  "!=",
+  "<",
+  ">",
+  "rising",
+  "falling",
+];
+
+// A time interval where the condition held; edges are single points.
+export interface SearchMatch {
+  start: number;
+  end: number;
+}
+
+export interface SearchQuery {
+  operator: SearchOperator;
+  // Bits to compare against, MSB first; unused by edge operators
+  value: string;
+  // Compare as two's complement, as the signal's display format reads it
+  signed: boolean;
+}
+
+// Changes scanned between yields to the event loop
+const CHUNK_SIZE = 50000;
+
+const DIGIT_BITS: Record<string, number> = { b: 1, o: 3, h: 4 };
+
+/**
+ * Parse a search value into a bit string of `width` bits. Accepts Verilog
+ * literals (`8'hFF`, `'b10x1`), C-style prefixes (`0x1A`, `0b101`, `0o17`)
+ * and signed decimals, negative ones in two's complement. Returns null for
+ * anything unparseable, and for values that don't fit in `width` bits.
+ */
+export const parseSearchValue = (
+  text: string,
+  width: number,
+): string | null => {
+  let literal = text.trim().toLowerCase().replace(/_/g, "");
+  let base = "d";
+  const verilog = literal.match(/^\d*'s?([bodh])(.+)$/);
+  const prefixed = literal.match(/^0([xbo])(.+)$/);
+  if (verilog) {
+    [, base, literal] = verilog;
+  } else if (prefixed) {
+    base = prefixed[1] === "x" ? "h" : prefixed[1];
+    literal = prefixed[2];
+  }
+
+  if (base === "d") {
+    if (!/^-?\d+$/.test(literal)) return null;
+    const value = BigInt(literal);
+    // Negative values must fit as signed, others as unsigned
+    const least = -(BigInt(1) << BigInt(Math.max(0, width - 1)));
+    if (value < least || value >= BigInt(1) << BigInt(width)) return null;
+    return BigInt.asUintN(width, value).toString(2).padStart(width, "0");
+  }
+
+  const size = DIGIT_BITS[base];
+  let bits = "";
+  for (const digit of literal) {
+    if (digit === "x" || digit === "z") {
+      bits += digit.repeat(size);
+      continue;
+    }
+    const value = parseInt(digit, 1 << size);
+    if (isNaN(value)) return null;
+    bits += value.toString(2).padStart(size, "0");
+  }
+  bits = extendVector(bits, width);
+  // Leading bits may only be dropped where extending would add them back
+  const kept = bits.substring(bits.length - width);
+  return extendVector(kept, bits.length) === bits ? kept : null;
+};
+
+const toBigInt = (bits: string, signed: boolean): bigint | null => {
+  if (!/^[01]+$/.test(bits)) return null;
+  const value = BigInt(`0b${bits}`);
+  return signed ? BigInt.asIntN(bits.length, value) : value;
+};
+
+// Whether a level operator holds for one value
+const holds = (value: string, query: SearchQuery): boolean => {
+  const bits = extendVector(value, query.value.length);
+  switch (query.operator) {
+    case "==":
+      return bits === query.value;
+    case "!=":
+      return bits !== query.value;
+    default: {
+      const left = toBigInt(bits, query.signed);
+      const right = toBigInt(query.value, query.signed);
+      if (left === null || right === null) return false;
+      return query.operator === "<" ? left < right : left > right;
+    }
+  }
+};
+
+// Rising/falling are 0->1/1->0 on a single bit, and an increase/decrease of
+// the value on a vector.
+const isEdge = (previous: string, value: string, query: SearchQuery) => {
+  if (value.length === 1 && previous.length === 1) {
+    const target = query.operator === "rising" ? "1" : "0";
+    return value === target && previous !== target;
+  }
+  const before = toBigInt(previous, query.signed);
+  const after = toBigInt(value, query.signed);
+  if (before === null || after === null) return false;
+  return query.operator === "rising" ? after > before : after < before;
+};
+
+/**
+ * Scan a wave for the times `query` matches, yielding to the event loop
+ * between chunks so long dumps don't block the page. Intervals still open at
+ * the last change run to `endTime`.
+ */
+export const searchWave = (
+  wave: [number, string][],
+  query: SearchQuery,
+  endTime: number,
+): LoadJob<SearchMatch[]> => {
+  const edges = query.operator === "rising" || query.operator === "falling";
+  const matches: SearchMatch[] = [];
+  let openStart: number | null = null;
+  let cancelled = false;
+  let rejectJob: (error: Error) => void = () => {};
+
+  const promise = new Promise<SearchMatch[]>((resolve, reject) => {
+    rejectJob = reject;
+    const processChunk = (start: number) => {
+      if (cancelled) return;
+      const end = Math.min(start + CHUNK_SIZE, wave.length);
+      for (let i = start; i < end; i++) {
+        const [time, value] = wave[i];
+        if (edges) {
+          if (i > 0 && isEdge(wave[i - 1][1], value, query)) {
+            matches.push({ start: time, end: time });
+          }
+        } else if (holds(value, query)) {
+          if (openStart === null) openStart = time;
+        } else if (openStart !== null) {
+          matches.push({ start: openStart, end: time });
+          openStart = null;
+        }
+      }
+      if (end < wave.length) {
+        setTimeout(() => processChunk(end), 0);
+        return;
+      }
+      if (openStart !== null) {
+        matches.push({ start: openStart, end: Math.max(openStart, endTime) });
+      }
+      resolve(matches);
+    };
+    processChunk(0);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      cancelled = true;
+      rejectJob(new LoadCancelledError());
+    },
+  };
+};
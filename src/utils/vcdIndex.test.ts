@@ -0,0 +1,117 @@
+import { Blob as NodeBlob } from "buffer";
+import { TextDecoder } from "util";
+import { createSignalDecoder, indexVCD } from "./vcdIndex";
+import { parseVCD } from "./vcdParser";
+
+Object.assign(global, { TextDecoder });
+
+// A counter, its aliased clock and a bus changing at times of growing length
+const dump = () => {
+  const lines = [
+    "$timescale 1ns $end",
+    "$scope module top $end",
+    "$var wire 1 ! clk $end",
+    '$var wire 8 " count [7:0] $end',
+    "$scope module u0 $end",
+    "$var wire 1 ! clk $end",
+    "$upscope $end",
+    "$upscope $end",
+    "$enddefinitions $end",
+    "$dumpvars",
+    "0!",
+    'b0 "',
+    "$end",
+  ];
+  for (let i = 1; i <= 300; i++) {
+    lines.push(`#${i * 37}`, `${i % 2}!`);
+    if (i % 3 === 0) lines.push(`b${(i & 0xff).toString(2)} "`);
+  }
+  return lines.join("\n") + "\n";
+};
+
+const blobOf = (text: string) => new NodeBlob([text]) as unknown as Blob;
+
+// Records the bytes read through slice() so passes over the file show
+const countingBlob = (text: string) => {
+  const blob = blobOf(text);
+  const counter = { bytes: 0, file: blob };
+  counter.file = {
+    size: blob.size,
+    slice: (start: number, end: number) => {
+      counter.bytes += end - start;
+      return blob.slice(start, end);
+    },
+  } as unknown as Blob;
+  return counter;
+};
+
+test("indexes the value changes at #time lines", async () => {
+  const text = dump();
+  const index = await indexVCD(blobOf(text), undefined, { minSpacing: 200 });
+
+  expect(index.valueStart).toBe(
+    text.indexOf("$enddefinitions $end") + "$enddefinitions $end".length,
+  );
+  expect(index.checkpoints[0]).toEqual({ time: 0, offset: index.valueStart });
+  expect(index.checkpoints.length).toBeGreaterThan(10);
+  index.checkpoints.slice(1).forEach(({ time, offset }, i) => {
+    expect(text.substring(offset).split("\n")[0]).toBe(`#${time}`);
+    expect(offset).toBeGreaterThan(index.checkpoints[i].offset);
+  });
+  expect(index.header.endTime).toBe(300 * 37);
+});
+
+test("ignores times a probe cut short", async () => {
+  const text = dump();
+  // Small probes end inside time tokens, and start inside all kinds
+  for (let probeSize = 3; probeSize < 12; probeSize++) {
+    const { checkpoints } = await indexVCD(blobOf(text), undefined, {
+      minSpacing: 97,
+      probeSize,
+    });
+    checkpoints.slice(1).forEach(({ time, offset }) => {
+      expect(text.substring(offset).split("\n")[0]).toBe(`#${time}`);
+    });
+  }
+});
+
+test("decodes signals segment by segment, aliases included", async () => {
+  const text = dump();
+  const expected = await parseVCD(text);
+  const file = blobOf(text);
+  const index = await indexVCD(file, undefined, { minSpacing: 200 });
+  const decoder = createSignalDecoder(file, index);
+
+  const waves = await decoder.decode(["!", "!", "missing"]);
+  expect(Object.keys(waves)).toEqual(["!"]);
+  expect(waves["!"]).toEqual(expected.signals[0].wave);
+  expect(expected.signals[2].wave).toBe(expected.signals[0].wave);
+});
+
+test("requests made during a pass share it", async () => {
+  const text = dump();
+  const expected = await parseVCD(text);
+  const counter = countingBlob(text);
+  const index = await indexVCD(counter.file, undefined, { minSpacing: 200 });
+  const decoder = createSignalDecoder(counter.file, index);
+  const values = text.length - index.valueStart;
+
+  counter.bytes = 0;
+  const progress: number[] = [];
+  const [clock, count] = await Promise.all([
+    decoder.decode(["!"]),
+    decoder.decode(['"'], ({ bytesRead, totalBytes }) =>
+      progress.push(bytesRead / totalBytes),
+    ),
+  ]);
+  expect(clock["!"]).toEqual(expected.signals[0].wave);
+  // The bus joined after the first segment was read and got it last
+  expect(count['"']).toEqual(expected.signals[1].wave);
+  expect(counter.bytes).toBeLessThan(1.5 * values);
+  expect(progress[progress.length - 1]).toBe(1);
+
+  // Decoded waves aren't kept; a later request reads the file again
+  counter.bytes = 0;
+  await decoder.decode(['"']);
+  expect(counter.bytes).toBe(values);
+});
@@ -0,0 +1,268 @@
+// utils/vcdIndex.ts
+import {
+  feedStream,
+  finishWave,
+  ParseProgress,
+  Signal,
+  VCDData,
+  VCDParser,
+} from "./vcdParser";
+
+type Wave = [number, string][];
+
+export interface TimeCheckpoint {
+  time: number;
+  // Byte offset of the `#time` line
+  offset: number;
+}
+
+export interface VCDIndex {
+  // Declarations only; every signal's wave is still empty.
+  header: VCDData;
+  // Byte offset just past `$enddefinitions $end`
+  valueStart: number;
+  // Sparse, time-ordered checkpoints into the value-change section
+  checkpoints: TimeCheckpoint[];
+}
+
+const HEADER_SLICE = 1 << 20;
+const PROBE_SLICE = 1 << 16;
+const MAX_CHECKPOINTS = 1024;
+const MIN_CHECKPOINT_SPACING = 8 << 20;
+
+const readBytes = async (file: Blob, start: number, end: number) =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+/**
+ * Parse the header of a dump and index its value-change section without
+ * reading it: checkpoints are found by probing small slices spread across
+ * the file, so opening even a multi-gigabyte dump only touches a few MB.
+ * Checkpoints are at least `minSpacing` bytes apart, each found within
+ * `probeSize` bytes of where it was looked for.
+ */
+export const indexVCD = async (
+  file: Blob,
+  onProgress?: (progress: ParseProgress) => void,
+  { minSpacing = MIN_CHECKPOINT_SPACING, probeSize = PROBE_SLICE } = {},
+): Promise<VCDIndex> => {
+  // latin1 maps every byte to one character, so indices are byte offsets
+  const latin1 = new TextDecoder("latin1");
+  let headerText = "";
+  let valueStart = -1;
+  for (let start = 0; start < file.size && valueStart < 0; ) {
+    const end = Math.min(start + HEADER_SLICE, file.size);
+    headerText += latin1.decode(await readBytes(file, start, end));
+    const match = headerText.match(/\$enddefinitions\s+\$end/);
+    if (match) valueStart = (match.index as number) + match[0].length;
+    start = end;
+    onProgress?.({ bytesRead: end, totalBytes: file.size });
+  }
+  if (valueStart < 0) {
+    throw new Error("No $enddefinitions found; not a VCD file?");
+  }
+
+  const parser = new VCDParser();
+  parser.write(new TextDecoder().decode(await readBytes(file, 0, valueStart)));
+  const header = parser.header();
+
+  const checkpoints: TimeCheckpoint[] = [{ time: 0, offset: valueStart }];
+  const spacing = Math.max(
+    minSpacing,
+    Math.ceil((file.size - valueStart) / MAX_CHECKPOINTS),
+  );
+  for (let probe = valueStart + spacing; probe < file.size; probe += spacing) {
+    const text = latin1.decode(
+      await readBytes(file, probe, Math.min(probe + probeSize, file.size)),
+    );
+    // The time must be followed by whitespace, or the slice may have cut
+    // it short
+    const match = text.match(/\n#(\d+)\s/);
+    if (match) {
+      const checkpoint = {
+        time: Number(match[1]),
+        offset: probe + (match.index as number) + 1,
+      };
+      if (checkpoint.time >= checkpoints[checkpoints.length - 1].time) {
+        checkpoints.push(checkpoint);
+      }
+    }
+  }
+
+  // The last timestamp sits near the end of the file
+  const tailStart = Math.max(valueStart, file.size - PROBE_SLICE);
+  const tail = latin1.decode(await readBytes(file, tailStart, file.size));
+  let endTime = checkpoints[checkpoints.length - 1].time;
+  const timePattern = /(?:^|\s)#(\d+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = timePattern.exec(tail))) {
+    endTime = Math.max(endTime, Number(match[1]));
+  }
+
+  return {
+    header: {
+      ...header,
+      endTime,
+      maxCycles: Math.ceil(endTime / header.timescale),
+    },
+    valueStart,
+    checkpoints,
+  };
+};
+
+interface DecodeJob {
+  ids: string[];
+  // Bytes of the segments this job waits for, and how many were read
+  totalBytes: number;
+  bytesRead: number;
+  resolve: (waves: Record<string, Wave>) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+export interface SignalDecoder {
+  // Waves of the given identifier codes, keyed by identifier code
+  decode: (
+    ids: string[],
+    onProgress?: (progress: ParseProgress) => void,
+  ) => Promise<Record<string, Wave>>;
+}
+
+/**
+ * Decodes waves of an indexed dump one segment at a time, a segment being
+ * the bytes between two checkpoints. Requests made while decoding is under
+ * way join it: each segment is read once for all signals still missing it,
+ * and signals that joined late get the segments they missed when the pass
+ * wraps around. Adding signals one by one thus doesn't re-read the whole
+ * dump for each of them.
+ */
+export const createSignalDecoder = (
+  file: Blob,
+  index: VCDIndex,
+): SignalDecoder => {
+  const { checkpoints, header } = index;
+  const segments = checkpoints.map((checkpoint, i) => ({
+    start: checkpoint.offset,
+    end: checkpoints[i + 1]?.offset ?? file.size,
+  }));
+  const declared = new Map(header.signals.map((signal) => [signal.id, signal]));
+  // Changes of each requested identifier code per segment, until complete
+  const decoded = new Map<
+    string,
+    { segments: (Wave | undefined)[]; missing: number }
+  >();
+  let jobs: DecodeJob[] = [];
+  let running = false;
+  // Segment the pass continues with
+  let cursor = 0;
+
+  const lacks = (id: string, segment: number) =>
+    !decoded.get(id)?.segments[segment];
+
+  const assemble = (ids: string[]) => {
+    const waves: Record<string, Wave> = {};
+    ids.forEach((id) => {
+      const { type, width } = declared.get(id) as Signal;
+      const wave = ([] as Wave).concat(
+        ...(decoded.get(id)?.segments as Wave[]),
+      );
+      finishWave({ type, width, wave });
+      waves[id] = wave;
+    });
+    return waves;
+  };
+
+  // Read the next segment a pending signal lacks, continuing the pass
+  // where it left off, and settle the requests it completes
+  const readNextSegment = async () => {
+    const pending = Array.from(new Set(jobs.flatMap((job) => job.ids)));
+    const segment =
+      segments
+        .map((_, k) => (cursor + k) % segments.length)
+        .find((next) => pending.some((id) => lacks(id, next))) ?? cursor;
+    const ids = pending.filter((id) => lacks(id, segment));
+
+    const { start, end } = segments[segment];
+    const readers = jobs.filter((job) =>
+      job.ids.some((id) => lacks(id, segment)),
+    );
+    const parser = new VCDParser(header, ids);
+    await feedStream(
+      parser,
+      file.slice(start, end).stream(),
+      end - start,
+      ({ bytesRead }) =>
+        readers.forEach((job) =>
+          job.onProgress?.({
+            bytesRead: job.bytesRead + bytesRead,
+            totalBytes: job.totalBytes,
+          }),
+        ),
+    );
+    readers.forEach((job) => (job.bytesRead += end - start));
+    const changes = parser.changes();
+    ids.forEach((id) => {
+      const entry = decoded.get(id);
+      if (!entry) return;
+      entry.segments[segment] = changes[id];
+      entry.missing--;
+    });
+    cursor = (segment + 1) % segments.length;
+
+    jobs = jobs.filter((job) => {
+      if (job.ids.some((id) => decoded.get(id)?.missing)) return true;
+      job.resolve(assemble(job.ids));
+      return false;
+    });
+    // Forget the changes of signals no request waits for anymore
+    Array.from(decoded.keys()).forEach((id) => {
+      if (!jobs.some((job) => job.ids.includes(id))) decoded.delete(id);
+    });
+  };
+
+  const run = async () => {
+    running = true;
+    try {
+      while (jobs.length > 0) await readNextSegment();
+    } catch (error) {
+      const reason = error instanceof Error ? error : new Error(String(error));
+      jobs.forEach((job) => job.reject(reason));
+      jobs = [];
+      decoded.clear();
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    decode: (requested, onProgress) => {
+      const ids = requested.filter(
+        (id, i) => declared.has(id) && requested.indexOf(id) === i,
+      );
+      ids.forEach((id) => {
+        if (!decoded.has(id)) {
+          decoded.set(id, {
+            segments: new Array(segments.length),
+            missing: segments.length,
+          });
+        }
+      });
+      const totalBytes = segments.reduce(
+        (sum, { start, end }, segment) =>
+          ids.some((id) => lacks(id, segment)) ? sum + end - start : sum,
+        0,
+      );
+      if (ids.length === 0) return Promise.resolve({});
+      return new Promise((resolve, reject) => {
+        jobs.push({
+          ids,
+          totalBytes,
+          bytesRead: 0,
+          resolve,
+          reject,
+          onProgress,
+        });
+        if (!running) run();
+      });
+    },
+  };
+};
@@ -0,0 +1,184 @@
+// utils/vcdLoader.ts
+import createParserWorker from "../workers/createParserWorker";
+import {
+  ParserRequest,
+  ParserResponse,
+  unpackVCD,
+  unpackWaves,
+} from "../workers/parserMessages";
+import { ParseProgress, VCDData } from "./vcdParser";
+
+export class LoadCancelledError extends Error {
+  constructor() {
+    super("Load cancelled");
+    this.name = "LoadCancelledError";
+  }
+}
+
+export interface LoadJob<T = VCDData> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+/**
+ * Decodes waves of an opened dump on demand. Decoded changes are written
+ * into the existing `Signal.wave` arrays, so aliases pick them up as well.
+ */
+export interface WaveSource {
+  isLoaded: (id: string) => boolean;
+  loadSignals: (
+    ids: string[],
+    onProgress?: (progress: ParseProgress) => void,
+  ) => Promise<void>;
+  close: () => void;
+}
+
+export interface OpenedDump {
+  data: VCDData;
+  source: WaveSource;
+}
+
+// Dumps below this size are parsed in full; larger ones are opened lazily.
+export const LAZY_LOAD_THRESHOLD = 32 << 20;
+
+const startWorker = <T>(
+  request: ParserRequest,
+  onProgress: ((progress: ParseProgress) => void) | undefined,
+  onDone: (data: VCDData, worker: Worker) => T,
+  keepAlive: boolean,
+): LoadJob<T> => {
+  const worker = createParserWorker();
+  let settled = false;
+  let rejectJob: (error: Error) => void = () => {};
+
+  const finish = (terminate: boolean) => {
+    settled = true;
+    if (terminate) worker.terminate();
+  };
+
+  const promise = new Promise<T>((resolve, reject) => {
+    rejectJob = reject;
+    worker.onmessage = (event: MessageEvent<ParserResponse>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message);
+      } else if (message.type === "done") {
+        finish(!keepAlive);
+        resolve(onDone(unpackVCD(message.data), worker));
+      } else if (message.type === "error") {
+        finish(true);
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      finish(true);
+      reject(new Error(event.message || "Parser worker failed"));
+    };
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      if (settled) return;
+      finish(true);
+      rejectJob(new LoadCancelledError());
+    },
+  };
+};
+
+/**
+ * Parse a dump, in any supported format, in a dedicated worker. Cancelling terminates the worker
+ * outright, so a load can be stopped even in the middle of a chunk.
+ */
+export const loadVCD = (
+  file: Blob,
+  onProgress?: (progress: ParseProgress) => void,
+): LoadJob =>
+  startWorker({ type: "parse", file }, onProgress, (data) => data, false);
+
+/**
+ * Open a dump in two phases: the worker parses the header and indexes the
+ * value changes, and the returned source decodes individual signals later.
+ */
+export const openVCD = (
+  file: Blob,
+  onProgress?: (progress: ParseProgress) => void,
+): LoadJob<OpenedDump> =>
+  startWorker(
+    { type: "open", file },
+    onProgress,
+    (data, worker) => ({ data, source: createWaveSource(data, worker) }),
+    true,
+  );
+
+const createWaveSource = (data: VCDData, worker: Worker): WaveSource => {
+  const waves: Record<string, [number, string][]> = {};
+  data.signals.forEach((signal) => {
+    if (!waves[signal.id]) waves[signal.id] = signal.wave;
+  });
+
+  const loaded = new Set<string>();
+  const pending = new Map<string, Promise<void>>();
+  const requests = new Map<
+    number,
+    {
+      resolve: () => void;
+      reject: (error: Error) => void;
+      onProgress?: (progress: ParseProgress) => void;
+    }
+  >();
+  let nextRequestId = 0;
+
+  worker.onmessage = (event: MessageEvent<ParserResponse>) => {
+    const message = event.data;
+    if (message.type === "done" || message.requestId === undefined) return;
+    const request = requests.get(message.requestId);
+    if (!request) return;
+
+    if (message.type === "progress") {
+      request.onProgress?.(message);
+    } else if (message.type === "signals") {
+      requests.delete(message.requestId);
+      const decoded = unpackWaves(message.waves);
+      Object.entries(decoded).forEach(([id, wave]) => {
+        const target = waves[id];
+        for (const change of wave) target.push(change);
+        loaded.add(id);
+      });
+      request.resolve();
+    } else if (message.type === "error") {
+      requests.delete(message.requestId);
+      request.reject(new Error(message.message));
+    }
+  };
+
+  return {
+    isLoaded: (id) => loaded.has(id),
+    loadSignals: (ids, onProgress) => {
+      const missing = ids.filter(
+        (id, i) =>
+          waves[id] &&
+          !loaded.has(id) &&
+          !pending.has(id) &&
+          ids.indexOf(id) === i,
+      );
+      if (missing.length > 0) {
+        const requestId = nextRequestId++;
+        const decode = new Promise<void>((resolve, reject) => {
+          requests.set(requestId, { resolve, reject, onProgress });
+        }).finally(() => missing.forEach((id) => pending.delete(id)));
+        missing.forEach((id) => pending.set(id, decode));
+        worker.postMessage({ type: "decode", requestId, ids: missing });
+      }
+      return Promise.all(
+        ids.map((id) => pending.get(id)).filter((p) => p !== undefined),
+      ).then(() => undefined);
+    },
+    close: () => {
+      worker.terminate();
+      requests.forEach((request) => request.reject(new LoadCancelledError()));
+      requests.clear();
+    },
+  };
+};
@@ -0,0 +1,163 @@
+import { TextDecoder, TextEncoder } from "util";
+import {
+  parseTimescale,
+  parseVCD,
+  parseVCDStream,
+  Signal,
+  VCDData,
+  VCDParser,
+} from "./vcdParser";
+
+Object.assign(global, { TextDecoder });
+
+const SAMPLE = `$date
+  Mon Jan  1 00:00:00 2024
+$end
+$version Icarus Verilog $end
+$timescale
+  1 ns
+$end
+$comment multi
+  line comment $end
+$scope module top $end
+$var wire 1 ! clk $end
+$var wire 8 b1 data [7:0] $end
+$var real 64 r mag $end
+$var event 1 e done $end
+$scope module sub $end
+$var wire 1 ! clk $end
+$var reg 4 x1 state [3:0]
+$end
+$upscope $end
+$upscope $end
+$enddefinitions $end
+$dumpvars
+0!
+b0 b1
+r0.5 r
+bx x1
+$end
+#5
+1!
+b101 b1
+$dumpoff
+x!
+$end
+#10
+0!
+r1.5 r
+1e
+bz x1
+`;
+
+const byPath = (data: VCDData, path: string) =>
+  data.signals.find((s) => s.path === path) as Signal;
+
+test("parses header directives spanning several lines", async () => {
+  const data = await parseVCD(SAMPLE);
+  expect(data.date).toBe("Mon Jan 1 00:00:00 2024");
+  expect(data.version).toBe("Icarus Verilog");
+  expect(data.comments).toEqual(["multi line comment"]);
+  expect(data.timescale).toBe(1e9);
+  expect(data.timeExponent).toBe(-9);
+  expect(data.signals.map((s) => s.path)).toEqual([
+    "top.clk",
+    "top.data",
+    "top.mag",
+    "top.done",
+    "top.sub.clk",
+    "top.sub.state",
+  ]);
+  expect(byPath(data, "top.data")).toMatchObject({ msb: 7, lsb: 0, width: 8 });
+});
+
+test("decodes scalar, vector, real and event changes", async () => {
+  const data = await parseVCD(SAMPLE);
+  expect(byPath(data, "top.clk").wave).toEqual([
+    [0, "0"],
+    [5, "1"],
+    [5, "x"],
+    [10, "0"],
+  ]);
+  expect(byPath(data, "top.data").wave).toEqual([
+    [0, "00000000"],
+    [5, "00000101"],
+  ]);
+  expect(byPath(data, "top.mag").wave).toEqual([
+    [0, "0.5"],
+    [10, "1.5"],
+  ]);
+  expect(byPath(data, "top.done").wave).toEqual([[10, "1"]]);
+  expect(byPath(data, "top.sub.state").wave).toEqual([
+    [0, "xxxx"],
+    [10, "zzzz"],
+  ]);
+});
+
+test("aliased identifiers share one wave across scopes", async () => {
+  const data = await parseVCD(SAMPLE);
+  expect(byPath(data, "top.sub.clk").wave).toBe(byPath(data, "top.clk").wave);
+});
+
+test("handles tokens split across arbitrary chunk boundaries", () => {
+  const parser = new VCDParser();
+  for (let i = 0; i < SAMPLE.length; i += 3) {
+    parser.write(SAMPLE.substring(i, i + 3));
+  }
+  const data = parser.end();
+  expect(byPath(data, "top.data").wave).toEqual([
+    [0, "00000000"],
+    [5, "00000101"],
+  ]);
+  expect(data.maxCycles).toBe(Math.ceil(10 / 1e9));
+});
+
+test("parses a byte stream chunk by chunk and reports progress", async () => {
+  const bytes = new TextEncoder().encode(SAMPLE);
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += 7) {
+    chunks.push(bytes.subarray(i, i + 7));
+  }
+  const stream = {
+    getReader: () => ({
+      read: async () =>
+        chunks.length
+          ? { done: false, value: chunks.shift() }
+          : { done: true, value: undefined },
+    }),
+  } as unknown as ReadableStream<Uint8Array>;
+
+  const onProgress = jest.fn();
+  const data = await parseVCDStream(stream, bytes.length, onProgress);
+  expect(byPath(data, "top.mag").wave).toEqual([
+    [0, "0.5"],
+    [10, "1.5"],
+  ]);
+  expect(onProgress).toHaveBeenLastCalledWith({
+    bytesRead: bytes.length,
+    totalBytes: bytes.length,
+  });
+});
+
+test("parses timescales split across lines or in any case", () => {
+  expect(parseTimescale("10\nps")).toBe(-11);
+  expect(parseTimescale("100 US")).toBe(-4);
+  expect(parseTimescale("1 s")).toBe(0);
+  expect(parseTimescale("3 ns")).toBeNull();
+  expect(parseTimescale("")).toBeNull();
+});
+
+test("continues a parsed dump with text appended to the file", async () => {
+  const data = await parseVCD(SAMPLE);
+  const parser = VCDParser.continuing(data);
+  parser.write("#15\n1! b11");
+  // "b11" is still waiting for its identifier code
+  expect(parser.snapshot().endTime).toBe(15);
+  expect(byPath(data, "top.data").wave).toHaveLength(2);
+  parser.write("0 b1\n");
+  const next = parser.snapshot();
+  expect(next.signals).toBe(data.signals);
+  expect(next.timeExponent).toBe(-9);
+  expect(byPath(data, "top.sub.clk").wave.slice(-1)).toEqual([[15, "1"]]);
+  expect(byPath(data, "top.data").wave.slice(-1)).toEqual([[15, "00000110"]]);
+});
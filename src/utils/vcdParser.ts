@@ -1,103 +1,460 @@
 // utils/vcdParser.ts
 
-interface Signal {
+export interface Signal {
   name: string;
   width: number;
   wave: [number, string][];
   hierarchy?: string[];
+  // Full hierarchical path, e.g. "top.cpu.pc". Unique per signal.
+  path: string;
+  // VCD identifier code. Aliased nets share the same id and wave.
+  id: string;
+  // Declared var type: wire, reg, real, event, parameter, ...
+  type: string;
+  // Declared bit range from `$var ... name [msb:lsb]`, if any.
+  msb?: number;
+  lsb?: number;
+  // Virtual buses only: paths of the scalar nets they combine, MSB first.
+  bits?: string[];
+  // Derived signals only: the expression their wave is computed from.
+  expression?: string;
 }
 
-interface VCDData {
+export interface VCDData {
   signals: Signal[];
   timescale: number;
+  // One time unit is 10^timeExponent seconds, from `$timescale` (10 ns
+  // gives -8). Unset when the dump has no usable `$timescale`.
+  timeExponent?: number;
   maxCycles: number;
+  // Last timestamp in the dump, known even before any wave is decoded.
+  endTime?: number;
+  date?: string;
+  version?: string;
+  comments?: string[];
 }
 
-const parseTimescale = (str: string): number => {
-  const m = str.trim().match(/^(\d+)\s*(\w+)$/);
-  if (!m) return 0;
-  const res1 = { "1": 0, "10": 1, "100": 2 }[m[1] as "1" | "10" | "100"] || 0;
-  const res2 =
-    { s: 0, ms: -3, us: -6, ns: -9, ps: -12, fs: -15 }[
-      m[2] as "s" | "ms" | "us" | "ns" | "ps" | "fs"
-    ] || 0;
-  return res1 + res2;
+const TIME_UNIT_EXPONENTS: Record<string, number> = {
+  s: 0,
+  ms: -3,
+  us: -6,
+  ns: -9,
+  ps: -12,
+  fs: -15,
 };
 
+// Exponent of a `$timescale` body such as "1ns", "10 ps" or "100\nus";
+// null when it isn't one of the 1/10/100 x s..fs forms the standard allows.
+export const parseTimescale = (str: string): number | null => {
+  const m = str
+    .trim()
+    .toLowerCase()
+    .replace("µ", "u")
+    .match(/^(1|10|100)\s*([munpf]?s)$/);
+  if (!m || TIME_UNIT_EXPONENTS[m[2]] === undefined) return null;
+  return m[1].length - 1 + TIME_UNIT_EXPONENTS[m[2]];
+};
+
+// Scalar value characters, including the VHDL std_logic extras GHDL emits.
+const SCALAR_VALUE = /^[01xzuwlh-]$/i;
+
+// Left-extend a vector value to the declared width. Per IEEE 1364 an x or z
+// in the leftmost position is extended with itself, anything else with 0.
+export const extendVector = (value: string, width: number): string => {
+  if (value.length >= width) return value;
+  const lead = value[0] === "x" || value[0] === "z" ? value[0] : "0";
+  return lead.repeat(width - value.length) + value;
+};
+
+// Split a declared reference such as "data [7:0]" or "data[7:0]" into the
+// net name and its bit range. A single bit-select stays part of the name.
+export const splitRange = (
+  reference: string,
+  rangeText = "",
+): { name: string; msb?: number; lsb?: number } => {
+  let name = reference;
+  const bracket = name.indexOf("[");
+  if (bracket > 0) {
+    rangeText = name.substring(bracket) + rangeText;
+    name = name.substring(0, bracket);
+  }
+
+  const range = rangeText.match(/^\[(-?\d+)(?::(-?\d+))?\]$/);
+  if (!range) return { name: name + rangeText };
+  const msb = parseInt(range[1]);
+  if (range[2] === undefined) return { name: name + rangeText, msb, lsb: msb };
+  return { name, msb, lsb: parseInt(range[2]) };
+};
+
+// Duplicate declarations of the same path get a numeric suffix rather than
+// silently replacing the earlier signal. The result is added to `paths`.
+export const uniquePath = (paths: Set<string>, path: string): string => {
+  if (paths.has(path)) {
+    let n = 1;
+    while (paths.has(`${path}#${n}`)) n++;
+    path = `${path}#${n}`;
+  }
+  paths.add(path);
+  return path;
+};
+
+const isRealType = (type: string) =>
+  type === "real" || type === "realtime" || type === "shortreal";
+
+export interface ParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+}
+
+interface WaveEntry {
+  width: number;
+  type: string;
+  wave: [number, string][];
+}
+
+// Ensure all signals but events have a value at time 0, and sort changes
+export const finishWave = ({ wave, type, width }: WaveEntry) => {
+  if (type !== "event" && (wave.length === 0 || wave[0][0] > 0)) {
+    wave.unshift([0, isRealType(type) ? "0" : "0".repeat(width)]);
+  }
+  wave.sort((a, b) => a[0] - b[0]);
+};
+
+/**
+ * Incremental, token-based VCD parser. Text can be fed in arbitrary slices
+ * with write(); tokens split across slices are carried over to the next one.
+ */
+export class VCDParser {
+  private rest = "";
+  private directive: string | null = null;
+  private directiveTokens: string[] = [];
+  private inDefinitions = true;
+  private pendingValue: string | null = null;
+  private scope: string[] = [];
+  private signals: Signal[] = [];
+  private paths = new Set<string>();
+  private entries: Record<string, WaveEntry> = {};
+  private timescaleExponent = 0;
+  private hasTimescale = false;
+  private currentTime = 0;
+  private maxTime = 0;
+  private date?: string;
+  private version?: string;
+  private comments: string[] = [];
+  // Decoded values are copied out of the chunk text they were sliced from,
+  // otherwise each stored value would keep its whole chunk alive.
+  private values = new Map<string, string>();
+
+  /**
+   * With a previously parsed `header`, the parser starts directly in the
+   * value-change section and only records changes for the given `ids`.
+   */
+  constructor(header?: VCDData, ids?: string[]) {
+    if (!header) return;
+    const wanted = new Set(ids);
+    this.inDefinitions = false;
+    this.timescaleExponent = -Math.round(Math.log10(header.timescale));
+    this.hasTimescale = header.timeExponent !== undefined;
+    header.signals.forEach((signal) => {
+      if (!wanted.has(signal.id)) return;
+      if (!this.entries[signal.id]) {
+        this.entries[signal.id] = {
+          width: signal.width,
+          type: signal.type,
+          wave: [],
+        };
+      }
+      this.signals.push({ ...signal, wave: this.entries[signal.id].wave });
+    });
+  }
+
+  /**
+   * Parser that picks up where a fully parsed dump ended, e.g. to follow a
+   * file the simulator is still writing. New value changes are appended to
+   * the existing `Signal.wave` arrays of `data`.
+   */
+  static continuing(data: VCDData): VCDParser {
+    const parser = new VCDParser();
+    parser.inDefinitions = false;
+    parser.timescaleExponent = -Math.round(Math.log10(data.timescale));
+    parser.hasTimescale = data.timeExponent !== undefined;
+    data.signals.forEach((signal) => {
+      if (!parser.entries[signal.id]) {
+        parser.entries[signal.id] = {
+          width: signal.width,
+          type: signal.type,
+          wave: signal.wave,
+        };
+      }
+    });
+    parser.signals = data.signals;
+    parser.currentTime = parser.maxTime = data.endTime ?? 0;
+    parser.date = data.date;
+    parser.version = data.version;
+    parser.comments = [...(data.comments ?? [])];
+    return parser;
+  }
+
+  write(text: string) {
+    const buffer = this.rest + text;
+    let cut = buffer.length;
+    while (cut > 0 && !/\s/.test(buffer[cut - 1])) cut--;
+    this.rest = buffer.substring(cut);
+    this.processTokens(buffer.substring(0, cut));
+  }
+
+  end(): VCDData {
+    this.processTokens(this.rest);
+    this.rest = "";
+
+    Object.values(this.entries).forEach((entry) => finishWave(entry));
+
+    return this.result();
+  }
+
+  // Changes recorded so far by identifier code, as they appeared in the
+  // text: unsorted and without the value at time 0 end() fills in.
+  changes(): Record<string, [number, string][]> {
+    this.processTokens(this.rest);
+    this.rest = "";
+    const changes: Record<string, [number, string][]> = {};
+    Object.entries(this.entries).forEach(
+      ([id, entry]) => (changes[id] = entry.wave),
+    );
+    return changes;
+  }
+
+  // Declarations and metadata seen so far, without finalizing any waves.
+  header(): VCDData {
+    this.processTokens(this.rest);
+    this.rest = "";
+    return this.result();
+  }
+
+  // Everything parsed so far. Unlike header(), a token cut off at the end
+  // of the last write stays pending until more text arrives.
+  snapshot(): VCDData {
+    return this.result();
+  }
+
+  private result(): VCDData {
+    return {
+      signals: this.signals,
+      timescale: Math.pow(10, -this.timescaleExponent),
+      timeExponent: this.hasTimescale ? this.timescaleExponent : undefined,
+      maxCycles: Math.ceil(
+        this.maxTime / Math.pow(10, -this.timescaleExponent),
+      ),
+      endTime: this.maxTime,
+      date: this.date,
+      version: this.version,
+      comments: this.comments,
+    };
+  }
+
+  private processTokens(text: string) {
+    const tokens = text.split(/\s+/);
+    for (const token of tokens) {
+      if (token) this.processToken(token);
+    }
+  }
+
+  private processToken(token: string) {
+    if (this.directive !== null) {
+      if (token === "$end") {
+        const name = this.directive;
+        this.directive = null;
+        this.handleDirective(name, this.directiveTokens);
+        this.directiveTokens = [];
+      } else {
+        this.directiveTokens.push(token);
+      }
+      return;
+    }
+
+    if (this.pendingValue !== null) {
+      this.recordChange(token, this.pendingValue);
+      this.pendingValue = null;
+      return;
+    }
+
+    if (token[0] === "$") {
+      if (!this.inDefinitions) {
+        // $dumpvars/$dumpon/$dumpoff/$dumpall only wrap value changes, so
+        // their keywords and closing $end carry no information of their own.
+        if (
+          token === "$end" ||
+          token === "$dumpvars" ||
+          token === "$dumpon" ||
+          token === "$dumpoff" ||
+          token === "$dumpall"
+        ) {
+          return;
+        }
+      }
+      this.directive = token;
+      return;
+    }
+
+    if (this.inDefinitions) return;
+
+    const lead = token[0];
+    if (lead === "#") {
+      const time = Number(token.substring(1));
+      if (!isNaN(time)) {
+        this.currentTime = time;
+        this.maxTime = Math.max(this.maxTime, time);
+      }
+    } else if (lead === "b" || lead === "B" || lead === "r" || lead === "R") {
+      this.pendingValue = token;
+    } else if (SCALAR_VALUE.test(lead)) {
+      this.recordChange(token.substring(1), lead.toLowerCase());
+    }
+  }
+
+  private handleDirective(name: string, tokens: string[]) {
+    switch (name) {
+      case "$timescale": {
+        const exponent = parseTimescale(tokens.join(" "));
+        if (exponent !== null) {
+          this.timescaleExponent = exponent;
+          this.hasTimescale = true;
+        }
+        break;
+      }
+      case "$scope":
+        this.scope.push(tokens[1] ?? tokens[0] ?? "");
+        break;
+      case "$upscope":
+        this.scope.pop();
+        break;
+      case "$var":
+        this.declareVar(tokens);
+        break;
+      case "$date":
+        this.date = tokens.join(" ");
+        break;
+      case "$version":
+        this.version = tokens.join(" ");
+        break;
+      case "$comment":
+        this.comments.push(tokens.join(" "));
+        break;
+      case "$enddefinitions":
+        this.inDefinitions = false;
+        break;
+    }
+  }
+
+  private declareVar(tokens: string[]) {
+    const [type, size, id, reference, ...rangeTokens] = tokens;
+    if (!id || !reference) return;
+
+    const { name, msb, lsb } = splitRange(reference, rangeTokens.join(""));
+    const width = parseInt(size) || 1;
+    if (!this.entries[id]) {
+      this.entries[id] = { width, type, wave: [] };
+    }
+
+    const path = uniquePath(this.paths, [...this.scope, name].join("."));
+    this.signals.push({
+      name,
+      path,
+      id,
+      type,
+      width,
+      msb,
+      lsb,
+      wave: this.entries[id].wave,
+      hierarchy: [...this.scope],
+    });
+  }
+
+  private recordChange(id: string, raw: string) {
+    const entry = this.entries[id];
+    if (!entry) return;
+
+    let value: string;
+    const lead = raw[0];
+    if (lead === "b" || lead === "B") {
+      value = this.intern(
+        extendVector(raw.substring(1).toLowerCase(), entry.width),
+      );
+    } else if (lead === "r" || lead === "R") {
+      value = this.intern(raw.substring(1));
+    } else {
+      value = raw;
+    }
+    entry.wave.push([this.currentTime, value]);
+  }
+
+  private intern(value: string): string {
+    let stored = this.values.get(value);
+    if (stored === undefined) {
+      stored = value.split("").join("");
+      this.values.set(stored, stored);
+    }
+    return stored;
+  }
+}
+
 export const parseVCD = async (vcdContent: string): Promise<VCDData> => {
   return new Promise((resolve) => {
-    const lines = vcdContent.split("\n");
-    const signals: { [key: string]: Signal } = {};
-    let currentTime = 0;
-    let timescale = 0;
-    let maxTime = 0;
-    let currentScope: string[] = [];
-    let idMap: { [key: string]: string } = {}; // Map VCD IDs to signal names
+    const parser = new VCDParser();
+    const chunkSize = 1 << 20;
 
     const processChunk = (start: number) => {
-      const end = Math.min(start + 10000, lines.length);
-      for (let i = start; i < end; i++) {
-        const line = lines[i].trim();
-        if (line.startsWith("$var")) {
-          const parts = line.split(/\s+/);
-          const id = parts[3];
-          const name = parts[4];
-          idMap[id] = name;
-          signals[name] = {
-            name: name,
-            width: parseInt(parts[2]),
-            wave: [],
-            hierarchy: [...currentScope],
-          };
-        } else if (line.startsWith("$timescale")) {
-          const timescaleParts = line.split(/\s+/);
-          if (timescaleParts.length > 1) {
-            timescale = parseTimescale(timescaleParts[1]);
-          }
-        } else if (line.startsWith("$scope")) {
-          const parts = line.split(/\s+/);
-          currentScope.push(parts[2]);
-        } else if (line.startsWith("$upscope")) {
-          currentScope.pop();
-        } else if (line.startsWith("#")) {
-          currentTime = parseInt(line.substring(1));
-          maxTime = Math.max(maxTime, currentTime);
-        } else if (line.match(/^[01zx]\S+/i)) {
-          const value = line[0];
-          const id = line.substring(1);
-          const name = idMap[id];
-          if (signals[name]) {
-            signals[name].wave.push([currentTime, value]);
-          }
-        } else if (line.startsWith("b")) {
-          const [value, id] = line.substring(1).split(/\s+/);
-          const name = idMap[id];
-          if (signals[name]) {
-            const paddedValue = value.padStart(signals[name].width, '0');
-            signals[name].wave.push([currentTime, paddedValue]);
-          }
-        }
-      }
-      if (end < lines.length) {
+      const end = Math.min(start + chunkSize, vcdContent.length);
+      parser.write(vcdContent.substring(start, end));
+      if (end < vcdContent.length) {
         setTimeout(() => processChunk(end), 0);
       } else {
-        const maxCycles = Math.ceil(maxTime / Math.pow(10, -timescale));
-        
-        // Ensure all signals have a value at time 0
-        Object.values(signals).forEach(signal => {
-          if (signal.wave.length === 0 || signal.wave[0][0] > 0) {
-            signal.wave.unshift([0, '0'.repeat(signal.width)]);
-          }
-          signal.wave.sort((a, b) => a[0] - b[0]);
-        });
-        
-        resolve({
-          signals: Object.values(signals),
-          timescale: Math.pow(10, -timescale),
-          maxCycles,
-        });
+        resolve(parser.end());
       }
     };
     processChunk(0);
   });
-};
\ No newline at end of file
+};
+
+// Decode a byte stream chunk by chunk into `parser`, reporting progress.
+export const feedStream = async (
+  parser: VCDParser,
+  stream: ReadableStream<Uint8Array>,
+  totalBytes: number,
+  onProgress?: (progress: ParseProgress) => void,
+) => {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  // Report at most ~200 times per file so progress doesn't flood renders
+  const reportStep = Math.max(totalBytes / 200, 1 << 20);
+  let bytesRead = 0;
+  let lastReported = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    parser.write(decoder.decode(value, { stream: true }));
+    if (bytesRead - lastReported >= reportStep) {
+      lastReported = bytesRead;
+      onProgress?.({ bytesRead, totalBytes });
+    }
+  }
+  parser.write(decoder.decode());
+  onProgress?.({ bytesRead, totalBytes });
+};
+
+/**
+ * Parse a VCD file from a byte stream, e.g. `file.stream()`. Chunks are
+ * decoded and tokenized as they arrive, so the raw file text is never held
+ * in memory as a whole.
+ */
+export const parseVCDStream = async (
+  stream: ReadableStream<Uint8Array>,
+  totalBytes: number,
+  onProgress?: (progress: ParseProgress) => void,
+): Promise<VCDData> => {
+  const parser = new VCDParser();
+  await feedStream(parser, stream, totalBytes, onProgress);
+  return parser.end();
+};
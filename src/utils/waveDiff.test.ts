@@ -0,0 +1,106 @@
+import { Signal, VCDData } from "./vcdParser";
+import { alignDump, alignWave, diffWaves, nextDifference } from "./waveDiff";
+
+test("finds intervals where two waves differ", () => {
+  const golden: [number, string][] = [
+    [0, "0000"],
+    [10, "0001"],
+    [20, "0010"],
+    [30, "0011"],
+  ];
+  const actual: [number, string][] = [
+    [0, "000"],
+    [10, "001"],
+    [15, "111"],
+    [20, "010"],
+    [30, "x11"],
+  ];
+  expect(diffWaves(golden, actual, 40)).toEqual([
+    [15, 20],
+    [30, 40],
+  ]);
+  expect(diffWaves([[0, "1.50"]], [[0, "1.5"]], 10)).toEqual([]);
+});
+
+test("ignores the time before either wave has a value", () => {
+  const shifted = alignWave(
+    [
+      [0, "1"],
+      [2, "0"],
+    ],
+    10,
+    5,
+  );
+  expect(shifted).toEqual([
+    [5, "1"],
+    [25, "0"],
+  ]);
+  expect(
+    diffWaves(
+      [
+        [0, "0"],
+        [5, "1"],
+      ],
+      shifted,
+      30,
+    ),
+  ).toEqual([[25, 30]]);
+});
+
+test("steps to the next and previous difference", () => {
+  const differences: [number, number][] = [
+    [15, 20],
+    [30, 40],
+  ];
+  expect(nextDifference(differences, 15, false)).toBe(30);
+  expect(nextDifference(differences, 30, true)).toBe(15);
+  expect(nextDifference(differences, 30, false)).toBeNull();
+});
+
+test("lines up a dump with another timescale, end time included", () => {
+  const wire = (path: string, wave: [number, string][]): Signal => ({
+    name: path,
+    path,
+    id: path,
+    type: "wire",
+    width: 1,
+    wave,
+  });
+  // 1 ns per unit, against a golden run in ps that ends at 40 ns
+  const actual = wire("done", [
+    [0, "0"],
+    [30, "1"],
+  ]);
+  const golden: VCDData = {
+    signals: [
+      wire("done", [
+        [0, "0"],
+        [20000, "1"],
+      ]),
+      wire("q[0]", [[0, "1"]]),
+      wire("q[1]", [[5000, "1"]]),
+    ],
+    timescale: 1e12,
+    timeExponent: -12,
+    maxCycles: 0,
+    endTime: 40000,
+  };
+
+  const aligned = alignDump(golden, -9, 2);
+  expect(aligned.endTime).toBe(42);
+  expect(aligned.signalAt("done")?.wave).toEqual([
+    [2, "0"],
+    [22, "1"],
+  ]);
+  expect(aligned.signalAt("q[1:0]")?.wave).toEqual([
+    [2, "x1"],
+    [7, "11"],
+  ]);
+  expect(aligned.signalAt("missing")).toBeNull();
+
+  // The difference ends with the golden run, not 40000 units later
+  const done = aligned.signalAt("done") as Signal;
+  expect(diffWaves(actual.wave, done.wave, aligned.endTime)).toEqual([
+    [22, 30],
+  ]);
+});
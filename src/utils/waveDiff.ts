@@ -0,0 +1,117 @@
+// utils/waveDiff.ts
+import { combineBits, findVirtualBuses } from "./buses";
+import { DEFAULT_TIME_EXPONENT } from "./timeUnits";
+import { extendVector, Signal, VCDData } from "./vcdParser";
+
+type Wave = [number, string][];
+
+// Interval [start, end) over which two waves hold different values
+export type Difference = [number, number];
+
+// Times of a wave from another dump in this dump's units: scaled by the
+// ratio of the two timescales, then shifted by `offset`.
+export const alignWave = (wave: Wave, scale: number, offset: number): Wave =>
+  scale === 1 && offset === 0
+    ? wave
+    : wave.map(([time, value]) => [time * scale + offset, value]);
+
+export interface AlignedDump {
+  endTime: number;
+  // A signal (or virtual bus) of the other dump by path, its wave aligned
+  signalAt: (path: string) => Signal | null;
+}
+
+/**
+ * Another dump seen in the units of one whose time unit is
+ * 10^timeExponent s, shifted by `offset` of those units. Waves and the end
+ * time are scaled alike, so dumps with different timescales line up.
+ */
+export const alignDump = (
+  other: VCDData,
+  timeExponent: number,
+  offset: number,
+): AlignedDump => {
+  const byPath = new Map(other.signals.map((signal) => [signal.path, signal]));
+  const buses = new Map(
+    findVirtualBuses(other.signals).map((bus) => [bus.path, bus]),
+  );
+  const scale = Math.pow(
+    10,
+    (other.timeExponent ?? DEFAULT_TIME_EXPONENT) - timeExponent,
+  );
+  return {
+    endTime: (other.endTime ?? 0) * scale + offset,
+    signalAt: (path) => {
+      const bus = buses.get(path);
+      const signal = bus ?? byPath.get(path);
+      if (!signal) return null;
+      const wave = bus
+        ? combineBits(
+            (bus.bits ?? [])
+              .map((bit) => byPath.get(bit))
+              .filter((bit): bit is Signal => !!bit),
+          )
+        : signal.wave;
+      return { ...signal, wave: alignWave(wave, scale, offset) };
+    },
+  };
+};
+
+const BITS = /^[01xzuwlh-]+$/;
+
+// Values before a wave's first change are unknown and never differ.
+// Vectors of different widths are compared after left-extension.
+const sameValue = (a: string | undefined, b: string | undefined) => {
+  if (a === undefined || b === undefined || a === b) return true;
+  if (BITS.test(a) && BITS.test(b)) {
+    return extendVector(a, b.length) === extendVector(b, a.length);
+  }
+  return Number(a) === Number(b);
+};
+
+/**
+ * Intervals where two waves differ, up to `endTime`. Both waves are
+ * walked together once, so this is linear in their number of changes.
+ */
+export const diffWaves = (a: Wave, b: Wave, endTime: number): Difference[] => {
+  const result: Difference[] = [];
+  let i = 0;
+  let j = 0;
+  let valueA: string | undefined;
+  let valueB: string | undefined;
+  let start: number | null = null;
+  while (i < a.length || j < b.length) {
+    const time = Math.min(
+      i < a.length ? a[i][0] : Infinity,
+      j < b.length ? b[j][0] : Infinity,
+    );
+    // Several changes at one time: the last one holds
+    while (i < a.length && a[i][0] === time) valueA = a[i++][1];
+    while (j < b.length && b[j][0] === time) valueB = b[j++][1];
+    const differs = !sameValue(valueA, valueB);
+    if (differs && start === null) {
+      start = time;
+    } else if (!differs && start !== null) {
+      result.push([start, time]);
+      start = null;
+    }
+  }
+  if (start !== null) result.push([start, Math.max(start, endTime)]);
+  return result;
+};
+
+// Start of the first difference after `time` (or the last one before it)
+export const nextDifference = (
+  differences: Difference[],
+  time: number,
+  backwards: boolean,
+): number | null => {
+  let best: number | null = null;
+  differences.forEach(([start]) => {
+    if (backwards ? start >= time : start <= time) return;
+    if (best === null || (backwards ? start > best : start < best)) {
+      best = start;
+    }
+  });
+  return best;
+};
@@ -0,0 +1,46 @@
+import { fixedSlots, formatWaveJSON, toWaveJSON } from "./wavedromExport";
+import { parseVCD } from "./vcdParser";
+
+test("maps clocks, bits and buses to WaveJSON lanes", async () => {
+  const data = await parseVCD(`$timescale 1ns $end
+$scope module top $end
+$var wire 1 ! clk $end
+$var wire 1 " en $end
+$var wire 8 # data [7:0] $end
+$upscope $end
+$enddefinitions $end
+#0 1! 0" bx #
+#5 0!
+#10 1! 1" b10100000 #
+#15 0!
+#20 1!
+#25 0!
+#30 1! z" b11111111 #
+#35 0!
+`);
+  const [clk, en, bus] = data.signals;
+  const json = toWaveJSON(
+    [
+      { name: "clk", signal: clk, format: { radix: "hex" } },
+      { name: "en", signal: en, format: { radix: "hex" } },
+      { name: "data", signal: bus, format: { radix: "hex" } },
+    ],
+    fixedSlots(0, 40, 10),
+    40,
+  );
+  expect(json.signal).toEqual([
+    { name: "clk", wave: "p..." },
+    { name: "en", wave: "01.z" },
+    { name: "data", wave: "x=.=", data: ["a0", "ff"] },
+  ]);
+  expect(JSON.parse(formatWaveJSON(json))).toEqual(json);
+
+  // The same clock sampled at half its period is no longer a clock
+  expect(
+    toWaveJSON(
+      [{ name: "clk", signal: clk, format: { radix: "hex" } }],
+      fixedSlots(0, 20, 5),
+      20,
+    ).signal[0].wave,
+  ).toBe("1010");
+});
@@ -0,0 +1,126 @@
+// utils/wavedromExport.ts
+import { valueAt } from "./cursors";
+import { formatValue, ValueFormat } from "./radix";
+import { Signal } from "./vcdParser";
+
+// One lane of WaveJSON, the input format of WaveDrom
+export interface WaveLane {
+  name: string;
+  wave: string;
+  // Labels of the `=` slots, in order
+  data?: string[];
+}
+
+export interface WaveJSON {
+  signal: WaveLane[];
+}
+
+export interface ExportedSignal {
+  name: string;
+  signal: Signal;
+  format: ValueFormat;
+}
+
+// Beyond this many slots a WaveDrom diagram is too wide to be useful
+export const MAX_SLOTS = 512;
+
+// Slot start times every `step` units from `start` until `end`. Stops one
+// past MAX_SLOTS, so callers can tell when the range is too long.
+export const fixedSlots = (start: number, end: number, step: number) => {
+  const slots: number[] = [];
+  while (slots.length <= MAX_SLOTS) {
+    const time = start + slots.length * step;
+    if (time >= end) break;
+    slots.push(time);
+  }
+  return slots;
+};
+
+const isReal = (signal: Signal) =>
+  signal.type === "real" ||
+  signal.type === "realtime" ||
+  signal.type === "shortreal";
+
+// "p" or "n" when the signal rises (falls) at the start of every slot and
+// changes back by its middle
+const clockPhase = (wave: [number, string][], bounds: [number, number][]) => {
+  if (bounds.length < 2) return null;
+  let phase: string | null = null;
+  for (const [start, end] of bounds) {
+    const first = valueAt(wave, start);
+    const middle = valueAt(wave, (start + end) / 2);
+    const slotPhase =
+      first === "1" && middle === "0"
+        ? "p"
+        : first === "0" && middle === "1"
+          ? "n"
+          : null;
+    if (!slotPhase || (phase && slotPhase !== phase)) return null;
+    phase = slotPhase;
+  }
+  return phase;
+};
+
+const BIT_CHARS: Record<string, string> = {
+  "0": "0",
+  "1": "1",
+  l: "0",
+  h: "1",
+  z: "z",
+};
+
+/**
+ * Sample signals into WaveJSON, one character per slot. Each slot starts
+ * at one of `slots` (rising edges of a reference clock, or a fixed step)
+ * and lasts until the next one, or `end` for the last. Clocks become
+ * `p`/`n`, single bits `0`/`1`/`x`/`z` and buses `=` with their values,
+ * formatted as in the viewer, as labels.
+ */
+export const toWaveJSON = (
+  signals: ExportedSignal[],
+  slots: number[],
+  end: number,
+): WaveJSON => {
+  const bounds = slots.map((start, i): [number, number] => [
+    start,
+    slots[i + 1] ?? end,
+  ]);
+  return {
+    signal: signals.map(({ name, signal, format }) => {
+      const bit = signal.width === 1 && !isReal(signal);
+      const phase = bit ? clockPhase(signal.wave, bounds) : null;
+      if (phase) return { name, wave: phase + ".".repeat(slots.length - 1) };
+
+      let wave = "";
+      const data: string[] = [];
+      let last: string | undefined;
+      slots.forEach((time) => {
+        const value = valueAt(signal.wave, time)?.toLowerCase();
+        if (wave && value === last) {
+          wave += ".";
+          return;
+        }
+        last = value;
+        if (value === undefined) {
+          wave += "x";
+        } else if (bit) {
+          wave += BIT_CHARS[value] ?? "x";
+        } else if (!isReal(signal) && /^x+$/.test(value)) {
+          wave += "x";
+        } else if (!isReal(signal) && /^z+$/.test(value)) {
+          wave += "z";
+        } else {
+          wave += "=";
+          data.push(formatValue(value, format, signal.type));
+        }
+      });
+      return data.length > 0 ? { name, wave, data } : { name, wave };
+    }),
+  };
+};
+
+// One lane per line, the way WaveJSON is usually written by hand
+export const formatWaveJSON = ({ signal }: WaveJSON): string =>
+  `{"signal": [\n${signal
+    .map((lane) => `  ${JSON.stringify(lane)}`)
+    .join(",\n")}\n]}\n`;
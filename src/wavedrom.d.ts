@@ -1,6 +1,15 @@
 declare module 'wavedrom' {
     const WaveDrom: {
       renderWaveForm: (element: HTMLElement, source: any, type: string) => void;
+      // Render WaveJSON into `outputElement`, replacing its contents
+      renderWaveElement: (
+        index: number,
+        source: any,
+        outputElement: HTMLElement,
+        waveSkin: any,
+        notFirstSignal?: boolean,
+      ) => void;
+      waveSkin: any;
     };
     export default WaveDrom;
-  }
\ No newline at end of file
+  }
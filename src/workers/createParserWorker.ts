@@ -0,0 +1,8 @@
+// workers/createParserWorker.ts
+
+// Kept in its own module: jest cannot parse `import.meta`, so tests replace
+// this factory with a worker stand-in.
+const createParserWorker = (): Worker =>
+  new Worker(new URL("./vcdParser.worker.ts", import.meta.url));
+
+export default createParserWorker;
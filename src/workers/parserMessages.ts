@@ -0,0 +1,121 @@
+// workers/parserMessages.ts
+import { Signal, VCDData } from "../utils/vcdParser";
+
+/**
+ * Wave data packed into flat typed arrays so it can be transferred from the
+ * worker without structured-cloning millions of [time, value] tuples.
+ * Wave `i` (for identifier code `ids[i]`) occupies the range
+ * `starts[i]..starts[i + 1]` of `times` and `valueIndex`; values are stored
+ * once each in the `values` table.
+ */
+export interface PackedWaves {
+  ids: string[];
+  starts: Uint32Array;
+  times: Float64Array;
+  valueIndex: Uint32Array;
+  values: string[];
+}
+
+export interface PackedVCD extends Omit<VCDData, "signals"> {
+  signals: Omit<Signal, "wave">[];
+  waves: PackedWaves;
+}
+
+export type ParserRequest =
+  // Parse the whole dump, waves included
+  | { type: "parse"; file: Blob }
+  // Parse the header and index the dump; waves are decoded on request
+  | { type: "open"; file: Blob }
+  | { type: "decode"; requestId: number; ids: string[] };
+
+export type ParserResponse =
+  | {
+      type: "progress";
+      bytesRead: number;
+      totalBytes: number;
+      requestId?: number;
+    }
+  | { type: "done"; data: PackedVCD }
+  | { type: "signals"; requestId: number; waves: PackedWaves }
+  | { type: "error"; message: string; requestId?: number };
+
+export const packWaves = (
+  waves: Map<string, [number, string][]>,
+): PackedWaves => {
+  let total = 0;
+  waves.forEach((wave) => (total += wave.length));
+
+  const ids = Array.from(waves.keys());
+  const starts = new Uint32Array(ids.length + 1);
+  const times = new Float64Array(total);
+  const valueIndex = new Uint32Array(total);
+  const values: string[] = [];
+  const valueLookup = new Map<string, number>();
+
+  let n = 0;
+  ids.forEach((id, i) => {
+    starts[i] = n;
+    (waves.get(id) as [number, string][]).forEach(([time, value]) => {
+      let index = valueLookup.get(value);
+      if (index === undefined) {
+        index = values.length;
+        values.push(value);
+        valueLookup.set(value, index);
+      }
+      times[n] = time;
+      valueIndex[n] = index;
+      n++;
+    });
+  });
+  starts[ids.length] = n;
+
+  return { ids, starts, times, valueIndex, values };
+};
+
+export const unpackWaves = (
+  packed: PackedWaves,
+): Record<string, [number, string][]> => {
+  const { ids, starts, times, valueIndex, values } = packed;
+  const waves: Record<string, [number, string][]> = {};
+  ids.forEach((id, i) => {
+    const wave: [number, string][] = new Array(starts[i + 1] - starts[i]);
+    for (let j = starts[i]; j < starts[i + 1]; j++) {
+      wave[j - starts[i]] = [times[j], values[valueIndex[j]]];
+    }
+    waves[id] = wave;
+  });
+  return waves;
+};
+
+export const packVCD = (data: VCDData): PackedVCD => {
+  const waves = new Map<string, [number, string][]>();
+  data.signals.forEach((signal) => {
+    if (!waves.has(signal.id)) waves.set(signal.id, signal.wave);
+  });
+
+  const { signals, ...rest } = data;
+  return {
+    ...rest,
+    signals: signals.map(({ wave, ...signal }) => signal),
+    waves: packWaves(waves),
+  };
+};
+
+export const unpackVCD = (packed: PackedVCD): VCDData => {
+  const waves = unpackWaves(packed.waves);
+  const { waves: _, signals, ...rest } = packed;
+  return {
+    ...rest,
+    signals: signals.map((signal) => ({
+      ...signal,
+      wave: waves[signal.id] ?? [],
+    })),
+  };
+};
+
+// Buffers handed over to the receiving side instead of being copied.
+export const transferList = (waves: PackedWaves): ArrayBuffer[] => [
+  waves.starts.buffer,
+  waves.times.buffer,
+  waves.valueIndex.buffer,
+];
@@ -0,0 +1,191 @@
+import { Blob as NodeBlob } from "buffer";
+import { TextDecoder, TextEncoder } from "util";
+import { parseVCD } from "../utils/vcdParser";
+import { loadVCD, LoadCancelledError, openVCD } from "../utils/vcdLoader";
+import { ParserResponse, unpackVCD } from "./parserMessages";
+import { attachParserWorker, WorkerScope } from "./parserWorker";
+import createParserWorker from "./createParserWorker";
+
+Object.assign(global, { TextDecoder });
+
+const SAMPLE = `$timescale 1ps $end
+$scope module top $end
+$var wire 1 ! clk $end
+$var wire 4 " count [3:0] $end
+$scope module u0 $end
+$var wire 1 ! clk $end
+$upscope $end
+$upscope $end
+$enddefinitions $end
+#0
+0!
+b0 "
+#5
+1!
+b1 "
+#10
+0!
+b10 "
+`;
+
+const fakeFile = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let sent = false;
+  return {
+    size: bytes.length,
+    // Enough of Blob.slice for format detection
+    slice: (start: number, end: number) => ({
+      arrayBuffer: async () => bytes.slice(start, end).buffer,
+    }),
+    stream: () => ({
+      getReader: () => ({
+        read: async () => {
+          if (sent) return { done: true, value: undefined };
+          sent = true;
+          return { done: false, value: bytes };
+        },
+      }),
+    }),
+  } as unknown as Blob;
+};
+
+// Runs the worker's message handler in-process, recording what it posts.
+const runWorker = async (file: Blob) => {
+  const posted: { message: ParserResponse; transfer?: Transferable[] }[] = [];
+  const scope: WorkerScope = {
+    onmessage: null,
+    postMessage: (message, transfer) => posted.push({ message, transfer }),
+  };
+  attachParserWorker(scope);
+  await scope.onmessage?.({ data: { type: "parse", file } } as MessageEvent);
+  return posted;
+};
+
+// Minimal Worker stand-in driven by attachParserWorker on the same thread.
+class FakeWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  terminated = false;
+  private scope: WorkerScope = {
+    onmessage: null,
+    postMessage: (message) => {
+      if (!this.terminated) this.onmessage?.({ data: message } as MessageEvent);
+    },
+  };
+
+  constructor() {
+    attachParserWorker(this.scope);
+  }
+
+  postMessage(data: unknown) {
+    this.scope.onmessage?.({ data } as MessageEvent);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+test("worker posts progress then packed result with transferables", async () => {
+  const posted = await runWorker(fakeFile(SAMPLE));
+  const last = posted[posted.length - 1];
+
+  expect(posted[0].message.type).toBe("progress");
+  expect(last.message.type).toBe("done");
+  expect(last.transfer).toHaveLength(3);
+  last.transfer?.forEach((buffer) => expect(buffer).toBeInstanceOf(ArrayBuffer));
+
+  const expected = await parseVCD(SAMPLE);
+  const result = unpackVCD(
+    (last.message as Extract<ParserResponse, { type: "done" }>).data,
+  );
+  expect(result).toEqual(expected);
+  expect(result.signals[2].wave).toBe(result.signals[0].wave);
+});
+
+test("worker reports parse failures as error messages", async () => {
+  const broken = {
+    size: 1,
+    slice: () => new NodeBlob(["$date"]),
+    stream: () => ({
+      getReader: () => ({
+        read: async () => {
+          throw new Error("disk gone");
+        },
+      }),
+    }),
+  } as unknown as Blob;
+  const posted = await runWorker(broken);
+  expect(posted).toEqual([
+    { message: { type: "error", message: "disk gone" }, transfer: undefined },
+  ]);
+});
+
+test("loadVCD resolves with the unpacked dump and reports progress", async () => {
+  const worker = new FakeWorker();
+  (createParserWorker as jest.Mock).mockReturnValue(worker);
+  const onProgress = jest.fn();
+
+  const data = await loadVCD(fakeFile(SAMPLE), onProgress).promise;
+  expect(data.signals.map((s) => s.path)).toEqual([
+    "top.clk",
+    "top.count",
+    "top.u0.clk",
+  ]);
+  expect(data.signals[1].wave).toEqual([
+    [0, "0000"],
+    [5, "0001"],
+    [10, "0010"],
+  ]);
+  expect(onProgress).toHaveBeenCalled();
+  expect(worker.terminated).toBe(true);
+});
+
+test("cancelling a load terminates the worker and rejects", async () => {
+  const worker = new FakeWorker();
+  (createParserWorker as jest.Mock).mockReturnValue(worker);
+
+  const job = loadVCD(fakeFile(SAMPLE));
+  job.cancel();
+  await expect(job.promise).rejects.toBeInstanceOf(LoadCancelledError);
+  expect(worker.terminated).toBe(true);
+});
+
+test("openVCD indexes the header and decodes signals on demand", async () => {
+  const worker = new FakeWorker();
+  (createParserWorker as jest.Mock).mockReturnValue(worker);
+  const file = new NodeBlob([SAMPLE]) as unknown as Blob;
+
+  const { data, source } = await openVCD(file).promise;
+  expect(data.endTime).toBe(10);
+  expect(data.signals.every((signal) => signal.wave.length === 0)).toBe(true);
+  expect(worker.terminated).toBe(false);
+
+  await source.loadSignals(["!"]);
+  expect(source.isLoaded("!")).toBe(true);
+  expect(source.isLoaded('"')).toBe(false);
+  expect(data.signals[0].wave).toEqual([
+    [0, "0"],
+    [5, "1"],
+    [10, "0"],
+  ]);
+  // Aliases share the decoded wave
+  expect(data.signals[2].wave).toBe(data.signals[0].wave);
+  expect(data.signals[1].wave).toEqual([]);
+
+  source.close();
+  expect(worker.terminated).toBe(true);
+});
+
+test("closing the source rejects decodes still running", async () => {
+  const worker = new FakeWorker();
+  (createParserWorker as jest.Mock).mockReturnValue(worker);
+  const file = new NodeBlob([SAMPLE]) as unknown as Blob;
+
+  const { data, source } = await openVCD(file).promise;
+  const decode = source.loadSignals(["!", '"']);
+  source.close();
+  await expect(decode).rejects.toBeInstanceOf(LoadCancelledError);
+  expect(source.isLoaded("!")).toBe(false);
+  expect(data.signals[0].wave).toEqual([]);
+});
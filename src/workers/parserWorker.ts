@@ -0,0 +1,76 @@
+// workers/parserWorker.ts
+import { ParseProgress } from "../utils/vcdParser";
+import { parseWaveform } from "../utils/formats";
+import {
+  createSignalDecoder,
+  indexVCD,
+  SignalDecoder,
+} from "../utils/vcdIndex";
+import {
+  packVCD,
+  packWaves,
+  ParserRequest,
+  ParserResponse,
+  transferList,
+} from "./parserMessages";
+
+// The parts of DedicatedWorkerGlobalScope the parser worker relies on.
+export interface WorkerScope {
+  onmessage: ((event: MessageEvent<ParserRequest>) => void) | null;
+  postMessage: (message: ParserResponse, transfer?: Transferable[]) => void;
+}
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+export const attachParserWorker = (scope: WorkerScope) => {
+  // Decoder of the dump opened with "open", for later "decode" requests.
+  // Requests arriving while one is decoded share its pass over the file.
+  let decoder: SignalDecoder | null = null;
+
+  scope.onmessage = async (event) => {
+    const request = event.data;
+
+    if (request.type === "decode") {
+      const { requestId, ids } = request;
+      try {
+        if (!decoder) throw new Error("No dump is open");
+        const waves = await decoder.decode(ids, (progress) =>
+          scope.postMessage({ type: "progress", ...progress, requestId }),
+        );
+        const packed = packWaves(new Map(Object.entries(waves)));
+        scope.postMessage(
+          { type: "signals", requestId, waves: packed },
+          transferList(packed),
+        );
+      } catch (error) {
+        scope.postMessage({
+          type: "error",
+          message: errorMessage(error),
+          requestId,
+        });
+      }
+      return;
+    }
+
+    try {
+      const onProgress = (progress: ParseProgress) =>
+        scope.postMessage({ type: "progress", ...progress });
+
+      let packed;
+      if (request.type === "open") {
+        const index = await indexVCD(request.file, onProgress);
+        decoder = createSignalDecoder(request.file, index);
+        packed = packVCD(index.header);
+      } else {
+        packed = packVCD(await parseWaveform(request.file, onProgress));
+      }
+      scope.postMessage(
+        { type: "done", data: packed },
+        transferList(packed.waves),
+      );
+    } catch (error) {
+      scope.postMessage({ type: "error", message: errorMessage(error) });
+    }
+  };
+};
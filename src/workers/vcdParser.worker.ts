@@ -0,0 +1,5 @@
+// workers/vcdParser.worker.ts
+import { attachParserWorker, WorkerScope } from "./parserWorker";
+
+// eslint-disable-next-line no-restricted-globals
+attachParserWorker(self as unknown as WorkerScope);